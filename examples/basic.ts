@@ -1,4 +1,4 @@
-import { MaveoClient, MaveoStatus, DoorState } from '../src';
+import { MaveoClient, MaveoStatus, DoorTimeoutError } from '../src';
 
 // Configuration - set via environment variables or replace placeholders
 const config = {
@@ -11,14 +11,8 @@ async function main() {
   console.log('Creating Maveo client...');
   const client = new MaveoClient(config);
 
-  // Track when door is fully open
-  let doorOpen = false;
-
   client.on('status', (status: MaveoStatus) => {
     console.log('Status:', MaveoClient.getDoorStateString(status.doorState));
-    if (status.isOpen) {
-      doorOpen = true;
-    }
   });
 
   client.on('error', (error: Error) => {
@@ -36,18 +30,17 @@ async function main() {
       console.log('Door is already open.');
     } else {
       console.log('Opening garage door...');
-      client.open();
-
-      // Wait until door is fully open (max 30 seconds)
-      const startTime = Date.now();
-      while (!doorOpen && Date.now() - startTime < 30000) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
 
-      if (doorOpen) {
+      try {
+        // Wait until door is fully open (max 30 seconds)
+        await client.openAndWait({ timeout: 30000 });
         console.log('\nDoor is now fully open!');
-      } else {
-        console.log('\nTimeout waiting for door to open.');
+      } catch (error) {
+        if (error instanceof DoorTimeoutError) {
+          console.log('\nTimeout waiting for door to open.');
+        } else {
+          throw error;
+        }
       }
     }
 
@@ -0,0 +1,434 @@
+import TypedEmitter from 'typed-emitter';
+import { EventEmitter } from 'events';
+import { CognitoAuth } from './auth/CognitoAuth';
+import { MqttConnection } from './mqtt/MqttConnection';
+import { CommandQueue, QueuedCommand } from './mqtt/CommandQueue';
+import { NetworkWatcher } from './mqtt/NetworkWatcher';
+import { MaveoDevice } from './MaveoDevice';
+import {
+  MaveoAccountConfig,
+  MaveoStatus,
+  StateChange,
+  LightStatus,
+  CommandEvent,
+  CommandOutcome,
+  CommandAuditEntry,
+  DeviceHealth,
+  StatusResponse,
+  ProtocolAnomaly,
+  RawMessage,
+  MaveoAccountEvents
+} from './types';
+import { ConfigError, ConnectionError, MaveoError } from './errors';
+import { debug } from './utils/logger';
+
+/**
+ * A single authenticated Maveo Cloud session shared by several devices.
+ * Uses one Cognito login and one MQTT connection for all devices of the account.
+ *
+ * @example
+ * ```typescript
+ * const account = new MaveoAccount({
+ *   username: 'user@example.com',
+ *   password: 'password',
+ *   deviceIds: ['garage-left', 'garage-right']
+ * });
+ *
+ * account.on('status', (status) => console.log(status.device, status.doorState));
+ *
+ * await account.connect();
+ * await account.device('garage-left').open();
+ * ```
+ */
+export class MaveoAccount extends (EventEmitter as new () => TypedEmitter<MaveoAccountEvents>) {
+  private config: MaveoAccountConfig;
+  private auth: CognitoAuth;
+  private mqtt: MqttConnection | null = null;
+  private devices = new Map<string, MaveoDevice>();
+  private readonly commandQueue: CommandQueue | null;
+  private readonly networkWatcher: NetworkWatcher | null;
+
+  /**
+   * Creates a new MaveoAccount instance.
+   * @param config - Configuration including credentials and optional device IDs
+   * @throws {ConfigError} If username or password is empty or whitespace, or the command queue or network watch options are invalid
+   */
+  constructor(config: MaveoAccountConfig) {
+    super();
+
+    if (!config.username?.trim()) {
+      throw new ConfigError('MaveoConfig: username is required');
+    }
+    if (!config.password?.trim()) {
+      throw new ConfigError('MaveoConfig: password is required');
+    }
+
+    this.config = config;
+    this.auth = new CognitoAuth(config.username, config.password, {
+      sessionStore: config.sessionStore,
+      endpoint: config.endpoint,
+      authFlow: config.authFlow,
+      challengeHandler: config.challengeHandler,
+    });
+
+    this.commandQueue = config.commandQueue
+      ? new CommandQueue(config.commandQueue, {
+        isConnected: () => this.getConnection()?.isConnected() ?? false,
+        send: command => this.publishCommand(command),
+      })
+      : null;
+
+    this.networkWatcher = config.networkWatch ? new NetworkWatcher(config.networkWatch) : null;
+    this.networkWatcher?.on('networkChanged', () => this.restartConnection('network changed'));
+    this.networkWatcher?.on('resumed', () => this.restartConnection('resumed from sleep'));
+
+    for (const deviceId of config.deviceIds ?? []) {
+      this.device(deviceId);
+    }
+  }
+
+  /**
+   * Connects to the Maveo Cloud service.
+   * Authenticates with AWS Cognito and establishes one MQTT connection for all devices.
+   * @throws {AuthError} If authentication fails
+   * @throws {ConnectionError} If the connection fails or times out
+   */
+  async connect(): Promise<void> {
+    // Authenticate with Cognito, a transport connects without credentials
+    if (!this.config.transport) {
+      await this.auth.authenticate();
+    }
+
+    // Create MQTT connection
+    this.mqtt = new MqttConnection(this.auth, [...this.devices.keys()], {
+      clientId: this.config.clientId,
+      connectTimeout: this.config.connectTimeout,
+      maxReconnectAttempts: this.config.maxReconnectAttempts,
+      baseReconnectDelay: this.config.baseReconnectDelay,
+      maxReconnectDelay: this.config.maxReconnectDelay,
+      reconnectStrategy: this.config.reconnectStrategy,
+      keepalive: this.config.keepalive,
+      credentialRefreshMargin: this.config.credentialRefreshMargin,
+      sniffer: this.config.sniffer,
+      transport: this.config.transport,
+    });
+
+    // Set up event handlers
+    this.mqtt.on('connected', () => {
+      this.emit('connected');
+      this.devices.forEach(device => device.emit('connected'));
+      // Status is requested automatically by MqttConnection after subscribe
+      this.commandQueue?.flush();
+    });
+
+    this.mqtt.on('disconnected', () => {
+      this.emit('disconnected');
+      this.devices.forEach(device => device.emit('disconnected'));
+    });
+
+    this.mqtt.on('error', (error: MaveoError) => {
+      this.handleError(error);
+    });
+
+    this.mqtt.on('message', (_topic: string, payload: StatusResponse, deviceId: string) => {
+      const device = this.devices.get(deviceId);
+      if (!device) {
+        debug.client('Ignoring message for unknown device: %s', deviceId);
+        return;
+      }
+      device.handleStatusMessage(payload);
+    });
+
+    this.mqtt.on('protocolAnomaly', (anomaly: ProtocolAnomaly) => {
+      this.devices.get(anomaly.device)?.emit('protocolAnomaly', anomaly);
+    });
+
+    this.mqtt.on('rawMessage', (message: RawMessage) => {
+      const device = this.devices.get(message.topic.split('/')[0]);
+      // Messages on topics of no device only reach the account, the others are forwarded by the device
+      if (device) {
+        device.emit('rawMessage', message);
+      } else {
+        this.emit('rawMessage', message);
+      }
+    });
+
+    this.mqtt.on('reconnecting', (attempt, max, delay) => {
+      this.emit('reconnecting', attempt, max, delay);
+      this.devices.forEach(device => device.emit('reconnecting', attempt, max, delay));
+    });
+
+    this.mqtt.on('reconnectFailed', (attempts, error) => {
+      this.emit('reconnectFailed', attempts, error);
+      this.devices.forEach(device => device.emit('reconnectFailed', attempts, error));
+    });
+
+    this.mqtt.on('credentialsRefreshed', (expiration) => {
+      this.emit('credentialsRefreshed', expiration);
+      this.devices.forEach(device => device.emit('credentialsRefreshed', expiration));
+    });
+
+    // Connect to MQTT broker
+    await this.mqtt.connect();
+    this.networkWatcher?.start();
+  }
+
+  /**
+   * Disconnects from the Maveo Cloud service.
+   */
+  async disconnect(): Promise<void> {
+    this.networkWatcher?.stop();
+    this.commandQueue?.clear();
+    if (this.mqtt) {
+      await this.mqtt.disconnect();
+      this.mqtt = null;
+    }
+  }
+
+  /**
+   * Stops automatic reconnection until resumeReconnect() or reconnectNow() is called.
+   */
+  pauseReconnect(): void {
+    this.mqtt?.pauseReconnect();
+  }
+
+  /**
+   * Resumes automatic reconnection, starting over if the reconnect strategy had given up.
+   */
+  resumeReconnect(): void {
+    this.mqtt?.resumeReconnect();
+  }
+
+  /**
+   * Reconnects immediately instead of waiting for the next scheduled attempt.
+   * Does nothing if connected.
+   * @throws {ConnectionError} If never connected, or the connection fails or times out
+   * @throws {AuthError} If the credentials cannot be refreshed
+   */
+  async reconnectNow(): Promise<void> {
+    if (!this.mqtt) {
+      throw new ConnectionError('NOT_CONNECTED', 'Not connected. Call connect() first.');
+    }
+    await this.mqtt.reconnectNow();
+  }
+
+  /**
+   * Checks if currently connected to Maveo Cloud.
+   * @returns True if connected, false otherwise
+   */
+  isConnected(): boolean {
+    return this.mqtt?.isConnected() ?? false;
+  }
+
+  /**
+   * Gets the handle for a device, adding it to the session if needed.
+   * Devices added while connected are subscribed immediately.
+   * @param deviceId - Device serial number from Maveo app
+   * @returns The device handle
+   * @throws {ConfigError} If deviceId is empty or whitespace
+   */
+  device(deviceId: string): MaveoDevice {
+    if (!deviceId?.trim()) {
+      throw new ConfigError('MaveoConfig: deviceId is required');
+    }
+
+    const existing = this.devices.get(deviceId);
+    if (existing) {
+      return existing;
+    }
+
+    const device = new MaveoDevice(deviceId, this, {
+      statusTimeout: this.config.statusTimeout,
+      moveTimeout: this.config.moveTimeout,
+      maxStatusAge: this.config.maxStatusAge,
+      statusPollInterval: this.config.statusPollInterval,
+      maxMissedPolls: this.config.maxMissedPolls,
+      commandGuards: this.config.commandGuards,
+      doorCalibration: this.config.doorCalibration,
+    });
+    this.attachDevice(device);
+    return device;
+  }
+
+  /**
+   * Removes a device from the session and unsubscribes from its topics.
+   * @param deviceId - Device serial number
+   */
+  removeDevice(deviceId: string): void {
+    const device = this.devices.get(deviceId);
+    if (!device) return;
+
+    this.devices.delete(deviceId);
+    device.removeListener('status', this.forwardStatus);
+    device.removeListener('statusReceived', this.forwardStatusReceived);
+    device.removeListener('stateChanged', this.forwardStateChanged);
+    device.removeListener('movementStarted', this.forwardMovementStarted);
+    device.removeListener('movementStopped', this.forwardMovementStopped);
+    device.removeListener('opened', this.forwardOpened);
+    device.removeListener('closed', this.forwardClosed);
+    device.removeListener('lightChanged', this.forwardLightChanged);
+    device.removeListener('command', this.forwardCommand);
+    device.removeListener('commandDecision', this.forwardCommandDecision);
+    device.removeListener('deviceUnresponsive', this.forwardDeviceUnresponsive);
+    device.removeListener('deviceResponsive', this.forwardDeviceResponsive);
+    device.removeListener('protocolAnomaly', this.forwardProtocolAnomaly);
+    device.removeListener('rawMessage', this.forwardRawMessage);
+    this.mqtt?.removeDevice(deviceId);
+  }
+
+  /**
+   * Gets all device handles of this session.
+   * @returns The device handles
+   */
+  getDevices(): MaveoDevice[] {
+    return [...this.devices.values()];
+  }
+
+  /**
+   * Registers an existing device handle with this session.
+   * @internal
+   */
+  attachDevice(device: MaveoDevice): void {
+    if (this.devices.has(device.deviceId)) {
+      throw new ConfigError(`Device ${device.deviceId} is already attached`);
+    }
+
+    this.devices.set(device.deviceId, device);
+    device.on('status', this.forwardStatus);
+    device.on('statusReceived', this.forwardStatusReceived);
+    device.on('stateChanged', this.forwardStateChanged);
+    device.on('movementStarted', this.forwardMovementStarted);
+    device.on('movementStopped', this.forwardMovementStopped);
+    device.on('opened', this.forwardOpened);
+    device.on('closed', this.forwardClosed);
+    device.on('lightChanged', this.forwardLightChanged);
+    device.on('command', this.forwardCommand);
+    device.on('commandDecision', this.forwardCommandDecision);
+    device.on('deviceUnresponsive', this.forwardDeviceUnresponsive);
+    device.on('deviceResponsive', this.forwardDeviceResponsive);
+    device.on('protocolAnomaly', this.forwardProtocolAnomaly);
+    device.on('rawMessage', this.forwardRawMessage);
+    this.mqtt?.addDevice(device.deviceId);
+  }
+
+  /**
+   * Gets the underlying MQTT connection, or null if not connected.
+   * @internal
+   */
+  getConnection(): MqttConnection | null {
+    return this.mqtt;
+  }
+
+  /**
+   * Sends a command of a device, through the command queue if enabled.
+   * @internal
+   * @param command - The command
+   * @param onSent - Called right after the command was published
+   * @throws {ConnectionError} If never connected, or not connected and the queue is disabled
+   */
+  async sendCommand(command: QueuedCommand, onSent: () => void): Promise<CommandOutcome> {
+    const mqtt = this.getConnection();
+    if (!mqtt || (!this.commandQueue && !mqtt.isConnected())) {
+      throw new ConnectionError('NOT_CONNECTED', 'Not connected. Call connect() first.');
+    }
+
+    if (this.commandQueue) {
+      return this.commandQueue.enqueue(command, onSent);
+    }
+
+    this.publishCommand(command);
+    onSent();
+    return 'sent';
+  }
+
+  private publishCommand(command: QueuedCommand): void {
+    const mqtt = this.getConnection();
+    if (!mqtt) {
+      throw new ConnectionError('NOT_CONNECTED', 'Not connected. Call connect() first.');
+    }
+
+    if (command.target === 'door') {
+      mqtt.sendDoorCommand(command.command, command.deviceId);
+    } else {
+      mqtt.sendLightCommand(command.command, command.deviceId);
+    }
+  }
+
+  private restartConnection(reason: string): void {
+    debug.client('Reconnecting right away: %s', reason);
+    // Failures are emitted as errors and retried by the reconnect strategy
+    this.mqtt?.restart().catch(error => debug.client('Immediate reconnect failed: %O', error));
+  }
+
+  private forwardStatus = (status: MaveoStatus): void => {
+    this.emit('status', status);
+  };
+
+  private forwardStatusReceived = (status: MaveoStatus): void => {
+    this.emit('statusReceived', status);
+  };
+
+  private forwardStateChanged = (change: StateChange): void => {
+    this.emit('stateChanged', change);
+  };
+
+  private forwardMovementStarted = (status: MaveoStatus): void => {
+    this.emit('movementStarted', status);
+  };
+
+  private forwardMovementStopped = (status: MaveoStatus): void => {
+    this.emit('movementStopped', status);
+  };
+
+  private forwardOpened = (status: MaveoStatus): void => {
+    this.emit('opened', status);
+  };
+
+  private forwardClosed = (status: MaveoStatus): void => {
+    this.emit('closed', status);
+  };
+
+  private forwardLightChanged = (light: LightStatus): void => {
+    this.emit('lightChanged', light);
+  };
+
+  private forwardCommand = (command: CommandEvent): void => {
+    this.emit('command', command);
+  };
+
+  private forwardCommandDecision = (entry: CommandAuditEntry): void => {
+    this.emit('commandDecision', entry);
+  };
+
+  private forwardDeviceUnresponsive = (health: DeviceHealth): void => {
+    this.emit('deviceUnresponsive', health);
+  };
+
+  private forwardDeviceResponsive = (health: DeviceHealth): void => {
+    this.emit('deviceResponsive', health);
+  };
+
+  private forwardProtocolAnomaly = (anomaly: ProtocolAnomaly): void => {
+    this.emit('protocolAnomaly', anomaly);
+  };
+
+  private forwardRawMessage = (message: RawMessage): void => {
+    this.emit('rawMessage', message);
+  };
+
+  private handleError(error: MaveoError): void {
+    let handled = false;
+
+    // Only deliver to listeners that exist; an unhandled 'error' event would throw
+    this.devices.forEach(device => {
+      if (device.listenerCount('error') > 0) {
+        device.emit('error', error);
+        handled = true;
+      }
+    });
+
+    if (this.listenerCount('error') > 0 || !handled) {
+      this.emit('error', error);
+    }
+  }
+}
@@ -1,21 +1,12 @@
-import TypedEmitter from 'typed-emitter';
-import { EventEmitter } from 'events';
-import { CognitoAuth } from './auth/CognitoAuth';
-import { MqttConnection } from './mqtt/MqttConnection';
-import {
-  MaveoConfig,
-  MaveoStatus,
-  DoorState,
-  DoorCommand,
-  LightCommand,
-  StatusResponse,
-  MaveoClientEvents
-} from './types';
-import { DEFAULT_STATUS_TIMEOUT } from './constants';
-import { debug } from './utils/logger';
+import { MaveoAccount } from './MaveoAccount';
+import { MaveoDevice } from './MaveoDevice';
+import { MaveoConfig } from './types';
+import { ConfigError, StatusTimeoutError } from './errors';
 
 /**
  * Client for controlling Maveo garage doors via Maveo Cloud.
+ * Manages its own session for a single device. Use MaveoAccount to control
+ * several devices over one connection.
  *
  * @example
  * ```typescript
@@ -29,81 +20,34 @@ import { debug } from './utils/logger';
  * client.on('error', (error) => console.error(error));
  *
  * await client.connect();
- * client.open();
+ * await client.open();
  * ```
  */
-export class MaveoClient extends (EventEmitter as new () => TypedEmitter<MaveoClientEvents>) {
-  private config: MaveoConfig;
-  private auth: CognitoAuth;
-  private mqtt: MqttConnection | null = null;
-  private currentStatus: MaveoStatus | null = null;
-  private statusPromiseResolvers: Array<(status: MaveoStatus) => void> = [];
-  private readonly statusTimeout: number;
-
+export class MaveoClient extends MaveoDevice {
   /**
    * Creates a new MaveoClient instance.
    * @param config - Configuration including credentials and device ID
-   * @throws {Error} If username, password, or deviceId is empty or whitespace
+   * @throws {ConfigError} If username, password, or deviceId is empty or whitespace
    */
   constructor(config: MaveoConfig) {
-    super();
+    super(config.deviceId, new MaveoAccount(config), config);
 
-    if (!config.username?.trim()) {
-      throw new Error('MaveoConfig: username is required');
-    }
-    if (!config.password?.trim()) {
-      throw new Error('MaveoConfig: password is required');
-    }
     if (!config.deviceId?.trim()) {
-      throw new Error('MaveoConfig: deviceId is required');
+      throw new ConfigError('MaveoConfig: deviceId is required');
     }
 
-    this.config = config;
-    this.statusTimeout = config.statusTimeout ?? DEFAULT_STATUS_TIMEOUT;
-    this.auth = new CognitoAuth(config.username, config.password);
+    this.account.attachDevice(this);
   }
 
   /**
    * Connects to the Maveo Cloud service.
    * Authenticates with AWS Cognito and establishes MQTT connection.
-   * @throws {Error} If authentication fails or connection times out
+   * @throws {AuthError} If authentication fails
+   * @throws {ConnectionError} If the connection fails or times out
+   * @throws {StatusTimeoutError} If the device does not report its status
    */
   async connect(): Promise<void> {
-    // Authenticate with Cognito
-    await this.auth.authenticate();
-
-    // Create MQTT connection
-    this.mqtt = new MqttConnection(this.auth, this.config.deviceId, {
-      connectTimeout: this.config.connectTimeout,
-      maxReconnectAttempts: this.config.maxReconnectAttempts,
-      baseReconnectDelay: this.config.baseReconnectDelay,
-      keepalive: this.config.keepalive,
-    });
-
-    // Set up event handlers
-    this.mqtt.on('connected', () => {
-      this.emit('connected');
-      // Status is requested automatically by MqttConnection after subscribe
-    });
-
-    this.mqtt.on('disconnected', () => {
-      this.emit('disconnected');
-    });
-
-    this.mqtt.on('error', (error: Error) => {
-      this.emit('error', error);
-    });
-
-    this.mqtt.on('message', (_topic: string, payload: StatusResponse) => {
-      this.handleStatusMessage(payload);
-    });
-
-    this.mqtt.on('reconnecting', (attempt, max, delay) => {
-      this.emit('reconnecting', attempt, max, delay);
-    });
-
-    // Connect to MQTT broker
-    await this.mqtt.connect();
+    await this.account.connect();
 
     // Wait for initial status response to confirm connection is working
     await this.waitForInitialStatus();
@@ -118,7 +62,7 @@ export class MaveoClient extends (EventEmitter as new () => TypedEmitter<MaveoCl
       }
 
       const timeout = setTimeout(() => {
-        reject(new Error('Timeout waiting for initial status. Maveo may have rate-limited your connection. Try again in 10 minutes.'));
+        reject(new StatusTimeoutError('Timeout waiting for initial status. Maveo may have rate-limited your connection. Try again in 10 minutes.'));
       }, this.statusTimeout);
 
       const statusHandler = () => {
@@ -135,193 +79,30 @@ export class MaveoClient extends (EventEmitter as new () => TypedEmitter<MaveoCl
    * Disconnects from the Maveo Cloud service.
    */
   async disconnect(): Promise<void> {
-    if (this.mqtt) {
-      await this.mqtt.disconnect();
-      this.mqtt = null;
-    }
-  }
-
-  /**
-   * Checks if currently connected to Maveo Cloud.
-   * @returns True if connected, false otherwise
-   */
-  isConnected(): boolean {
-    return this.mqtt?.isConnected() ?? false;
-  }
-
-  /**
-   * Opens the garage door.
-   * This is a fire-and-forget command. Errors are emitted via the 'error' event.
-   * @throws {Error} If not connected
-   */
-  open(): void {
-    this.ensureConnected().sendDoorCommand(DoorCommand.OPEN);
-  }
-
-  /**
-   * Closes the garage door.
-   * This is a fire-and-forget command. Errors are emitted via the 'error' event.
-   * @throws {Error} If not connected
-   */
-  close(): void {
-    this.ensureConnected().sendDoorCommand(DoorCommand.CLOSE);
-  }
-
-  /**
-   * Stops the garage door movement.
-   * This is a fire-and-forget command. Errors are emitted via the 'error' event.
-   * @throws {Error} If not connected
-   */
-  stop(): void {
-    this.ensureConnected().sendDoorCommand(DoorCommand.STOP);
-  }
-
-  /**
-   * Moves the garage door to an intermediate position.
-   * This is a fire-and-forget command. Errors are emitted via the 'error' event.
-   * @throws {Error} If not connected
-   */
-  moveToIntermediate(): void {
-    this.ensureConnected().sendDoorCommand(DoorCommand.INTERMEDIATE);
-  }
-
-  /**
-   * Turns the garage light on.
-   * This is a fire-and-forget command. Errors are emitted via the 'error' event.
-   * @throws {Error} If not connected
-   */
-  lightOn(): void {
-    this.ensureConnected().sendLightCommand(LightCommand.ON);
-  }
-
-  /**
-   * Turns the garage light off.
-   * This is a fire-and-forget command. Errors are emitted via the 'error' event.
-   * @throws {Error} If not connected
-   */
-  lightOff(): void {
-    this.ensureConnected().sendLightCommand(LightCommand.OFF);
+    await this.account.disconnect();
   }
 
   /**
-   * Requests a status update from the device.
-   * The status will be emitted via the 'status' event.
-   * @throws {Error} If not connected
+   * Stops automatic reconnection until resumeReconnect() or reconnectNow() is called.
    */
-  requestStatus(): void {
-    this.ensureConnected().requestStatus();
-  }
-
-  /**
-   * Gets the current door status.
-   * Returns cached status if available, otherwise requests fresh status from device.
-   * @returns The current door status
-   * @throws {Error} If not connected or request times out
-   */
-  async getStatus(): Promise<MaveoStatus> {
-    this.ensureConnected();
-
-    // If we have a recent status, return it
-    if (this.currentStatus) {
-      return this.currentStatus;
-    }
-
-    // Otherwise request and wait for status
-    return new Promise((resolve, reject) => {
-      const resolver = (status: MaveoStatus) => {
-        clearTimeout(timeout);
-        resolve(status);
-      };
-
-      const timeout = setTimeout(() => {
-        const index = this.statusPromiseResolvers.indexOf(resolver);
-        if (index > -1) {
-          this.statusPromiseResolvers.splice(index, 1);
-        }
-        reject(new Error('Status request timeout'));
-      }, this.statusTimeout);
-
-      this.statusPromiseResolvers.push(resolver);
-
-      this.requestStatus();
-    });
+  pauseReconnect(): void {
+    this.account.pauseReconnect();
   }
 
   /**
-   * Gets the cached door status without requesting from device.
-   * @returns The cached status, or null if no status has been received
+   * Resumes automatic reconnection, starting over if the reconnect strategy had given up.
    */
-  getCurrentStatus(): MaveoStatus | null {
-    return this.currentStatus;
-  }
-
-  private handleStatusMessage(payload: StatusResponse): void {
-    if (payload.StoA_s !== undefined) {
-      const status = this.parseStatus(payload.StoA_s);
-      this.currentStatus = status;
-
-      // Resolve any pending status promises
-      const resolvers = this.statusPromiseResolvers.splice(0);
-      resolvers.forEach(resolve => resolve(status));
-
-      // Emit status event
-      this.emit('status', status);
-    }
-  }
-
-  private parseStatus(rawValue: number): MaveoStatus {
-    const validStates = [
-      DoorState.STOPPED,
-      DoorState.OPENING,
-      DoorState.CLOSING,
-      DoorState.OPEN,
-      DoorState.CLOSED,
-    ];
-
-    const isValidState = validStates.includes(rawValue);
-    const doorState = isValidState ? rawValue as DoorState : DoorState.STOPPED;
-
-    if (!isValidState) {
-      debug.client('Unknown door state value: %d, defaulting to STOPPED', rawValue);
-    }
-
-    return {
-      doorState,
-      isOpening: doorState === DoorState.OPENING,
-      isClosing: doorState === DoorState.CLOSING,
-      isOpen: doorState === DoorState.OPEN,
-      isClosed: doorState === DoorState.CLOSED,
-      isStopped: doorState === DoorState.STOPPED,
-      rawValue
-    };
-  }
-
-  private ensureConnected(): MqttConnection {
-    if (!this.mqtt || !this.mqtt.isConnected()) {
-      throw new Error('Not connected. Call connect() first.');
-    }
-    return this.mqtt;
+  resumeReconnect(): void {
+    this.account.resumeReconnect();
   }
 
   /**
-   * Converts a DoorState enum value to a human-readable string.
-   * @param state - The door state to convert
-   * @returns Human-readable door state string
+   * Reconnects immediately instead of waiting for the next scheduled attempt.
+   * Does nothing if connected.
+   * @throws {ConnectionError} If never connected, or the connection fails or times out
+   * @throws {AuthError} If the credentials cannot be refreshed
    */
-  static getDoorStateString(state: DoorState): string {
-    switch (state) {
-      case DoorState.OPENING:
-        return 'Opening';
-      case DoorState.CLOSING:
-        return 'Closing';
-      case DoorState.OPEN:
-        return 'Open';
-      case DoorState.CLOSED:
-        return 'Closed';
-      case DoorState.STOPPED:
-        return 'Stopped';
-      default:
-        return 'Unknown';
-    }
+  async reconnectNow(): Promise<void> {
+    await this.account.reconnectNow();
   }
 }
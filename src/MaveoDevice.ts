@@ -0,0 +1,985 @@
+import TypedEmitter from 'typed-emitter';
+import { EventEmitter } from 'events';
+import type { MaveoAccount } from './MaveoAccount';
+import { MqttConnection } from './mqtt/MqttConnection';
+import { PositionEstimator } from './position/PositionEstimator';
+import { decodeDoorState, decodeLightState } from './protocol/codec';
+import {
+  MaveoStatus,
+  DoorState,
+  DoorCommand,
+  LightCommand,
+  LightStatus,
+  CommandOutcome,
+  DeviceHealth,
+  StatusResponse,
+  MaveoClientEvents,
+  CommandOptions,
+  CommandGuard,
+  CommandRequest,
+  CommandAuditEntry,
+  DoorCalibration,
+  CommandMessage,
+  StateChange,
+  StatusOptions,
+  WaitOptions
+} from './types';
+import {
+  DEFAULT_STATUS_TIMEOUT,
+  DEFAULT_MOVE_TIMEOUT,
+  DEFAULT_COMMAND_SOURCE,
+  DEFAULT_MAX_MISSED_POLLS
+} from './constants';
+import {
+  DoorTimeoutError,
+  DoorStoppedError,
+  DoorDisconnectedError,
+  ConnectionError,
+  StatusTimeoutError,
+  LightTimeoutError,
+  CommandNotSentError,
+  CommandVetoedError,
+  CalibrationError,
+  ConfigError
+} from './errors';
+import { debug } from './utils/logger';
+
+// setPosition() does not move the door for smaller differences in percent
+const POSITION_TOLERANCE = 3;
+
+/**
+ * Options for a MaveoDevice handle.
+ */
+export interface MaveoDeviceOptions {
+  /** Status request timeout in milliseconds. Default: 10000 */
+  statusTimeout?: number;
+  /** Default time to wait for a door movement to finish in milliseconds. Default: 60000 */
+  moveTimeout?: number;
+  /** Oldest cached status getStatus() returns before asking the device again, in milliseconds. Default: no limit */
+  maxStatusAge?: number;
+  /** Request the status this often in milliseconds to detect an unresponsive device. Default: disabled */
+  statusPollInterval?: number;
+  /** Unanswered polls in a row before deviceUnresponsive is emitted. Default: 2 */
+  maxMissedPolls?: number;
+  /** Interlocks checked before every door command. Default: none */
+  commandGuards?: CommandGuard[];
+  /** Travel times from calibrate() for position estimation. Default: none */
+  doorCalibration?: DoorCalibration;
+}
+
+/**
+ * Handle for a single garage door on a shared MaveoAccount session.
+ * Keeps its own status cache and emits events for this device only.
+ *
+ * @example
+ * ```typescript
+ * const garage = account.device('device-serial');
+ * garage.on('status', (status) => console.log(status.device, status.doorState));
+ * await garage.openAndWait();
+ * ```
+ */
+export class MaveoDevice extends (EventEmitter as new () => TypedEmitter<MaveoClientEvents>) {
+  /** Device serial number */
+  readonly deviceId: string;
+  protected readonly account: MaveoAccount;
+  protected currentStatus: MaveoStatus | null = null;
+  private lightState: boolean | null = null;
+  private rawFields: Record<string, unknown> = {};
+  private statusPromiseResolvers: Array<(status: MaveoStatus) => void> = [];
+  protected readonly statusTimeout: number;
+  private readonly moveTimeout: number;
+  private readonly maxStatusAge: number | null;
+  private readonly statusPollInterval: number | null;
+  private readonly maxMissedPolls: number;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private pollTimeout: NodeJS.Timeout | null = null;
+  private missedPolls = 0;
+  private responsive = true;
+  private lastMessageAt: Date | null = null;
+  private statusRequestedAt: number | null = null;
+  private latency: number | null = null;
+  private hasConnected = false;
+  private reconnects = 0;
+  private readonly commandGuards: CommandGuard[];
+  private readonly positionEstimator: PositionEstimator;
+
+  /**
+   * Creates a device handle. Use MaveoAccount.device() instead of calling this directly.
+   * @param deviceId - Device serial number from Maveo app
+   * @param account - The account session the device is reached through
+   * @param options - Timing options
+   */
+  constructor(deviceId: string, account: MaveoAccount, options: MaveoDeviceOptions = {}) {
+    super();
+    this.deviceId = deviceId;
+    this.account = account;
+    this.statusTimeout = options.statusTimeout ?? DEFAULT_STATUS_TIMEOUT;
+    this.moveTimeout = options.moveTimeout ?? DEFAULT_MOVE_TIMEOUT;
+    this.maxStatusAge = options.maxStatusAge ?? null;
+    this.statusPollInterval = options.statusPollInterval ?? null;
+    this.maxMissedPolls = options.maxMissedPolls ?? DEFAULT_MAX_MISSED_POLLS;
+    this.commandGuards = [...(options.commandGuards ?? [])];
+    this.positionEstimator = new PositionEstimator(options.doorCalibration ?? null);
+
+    // The account emits connection events on every device
+    this.on('connected', this.handleConnected);
+    this.on('disconnected', this.handleDisconnected);
+  }
+
+  /**
+   * Checks if the account session is currently connected.
+   * @returns True if connected, false otherwise
+   */
+  isConnected(): boolean {
+    return this.account.isConnected();
+  }
+
+  /**
+   * Opens the garage door.
+   * Resolves once the command was sent or queued; await it or handle its
+   * rejection, since command guards may veto it.
+   * @param options - Command options
+   * @returns Resolves with 'sent', or 'expired' or 'dropped' if the command queue discarded it
+   * @throws {ConnectionError} If not connected and the command queue is disabled (as a rejection)
+   * @throws {CommandVetoedError} If a command guard refuses the command (as a rejection)
+   */
+  open(options: CommandOptions = {}): Promise<CommandOutcome> {
+    return this.sendDoorCommand(DoorCommand.OPEN, options);
+  }
+
+  /**
+   * Closes the garage door.
+   * Resolves once the command was sent or queued; await it or handle its
+   * rejection, since command guards may veto it.
+   * @param options - Command options
+   * @returns Resolves with 'sent', or 'expired' or 'dropped' if the command queue discarded it
+   * @throws {ConnectionError} If not connected and the command queue is disabled (as a rejection)
+   * @throws {CommandVetoedError} If a command guard refuses the command (as a rejection)
+   */
+  close(options: CommandOptions = {}): Promise<CommandOutcome> {
+    return this.sendDoorCommand(DoorCommand.CLOSE, options);
+  }
+
+  /**
+   * Stops the garage door movement.
+   * Resolves once the command was sent or queued; await it or handle its
+   * rejection, since command guards may veto it.
+   * @param options - Command options
+   * @returns Resolves with 'sent', or 'expired' or 'dropped' if the command queue discarded it
+   * @throws {ConnectionError} If not connected and the command queue is disabled (as a rejection)
+   * @throws {CommandVetoedError} If a command guard refuses the command (as a rejection)
+   */
+  stop(options: CommandOptions = {}): Promise<CommandOutcome> {
+    return this.sendDoorCommand(DoorCommand.STOP, options);
+  }
+
+  /**
+   * Moves the garage door to an intermediate position.
+   * Resolves once the command was sent or queued; await it or handle its
+   * rejection, since command guards may veto it.
+   * @param options - Command options
+   * @returns Resolves with 'sent', or 'expired' or 'dropped' if the command queue discarded it
+   * @throws {ConnectionError} If not connected and the command queue is disabled (as a rejection)
+   * @throws {CommandVetoedError} If a command guard refuses the command (as a rejection)
+   */
+  moveToIntermediate(options: CommandOptions = {}): Promise<CommandOutcome> {
+    return this.sendDoorCommand(DoorCommand.INTERMEDIATE, options);
+  }
+
+  /**
+   * Opens the garage door and waits until it is fully open.
+   * @param options - Wait options
+   * @returns The status reporting the door as open
+   * @throws {ConnectionError} If not connected
+   * @throws {CommandNotSentError} If the command queue expired or dropped the command
+   * @throws {DoorTimeoutError} If the door is not open within the timeout
+   * @throws {DoorStoppedError} If the door stops while opening
+   * @throws {DoorDisconnectedError} If the connection drops while waiting
+   * @throws {CommandVetoedError} If a command guard refuses the command
+   */
+  openAndWait(options: WaitOptions = {}): Promise<MaveoStatus> {
+    return this.sendDoorCommandAndWait(DoorCommand.OPEN, DoorState.OPEN, options);
+  }
+
+  /**
+   * Closes the garage door and waits until it is fully closed.
+   * @param options - Wait options
+   * @returns The status reporting the door as closed
+   * @throws {ConnectionError} If not connected
+   * @throws {CommandNotSentError} If the command queue expired or dropped the command
+   * @throws {DoorTimeoutError} If the door is not closed within the timeout
+   * @throws {DoorStoppedError} If the door stops while closing
+   * @throws {DoorDisconnectedError} If the connection drops while waiting
+   * @throws {CommandVetoedError} If a command guard refuses the command
+   */
+  closeAndWait(options: WaitOptions = {}): Promise<MaveoStatus> {
+    return this.sendDoorCommandAndWait(DoorCommand.CLOSE, DoorState.CLOSED, options);
+  }
+
+  /**
+   * Stops the garage door and waits until it is no longer moving.
+   * Resolves immediately if the door is not moving.
+   * @param options - Wait options
+   * @returns The first status reporting a stationary door
+   * @throws {ConnectionError} If not connected
+   * @throws {CommandNotSentError} If the command queue expired or dropped the command
+   * @throws {DoorTimeoutError} If the door is still moving after the timeout
+   * @throws {DoorDisconnectedError} If the connection drops while waiting
+   * @throws {CommandVetoedError} If a command guard refuses the command
+   */
+  stopAndWait(options: WaitOptions = {}): Promise<MaveoStatus> {
+    return this.sendDoorCommandAndWait(DoorCommand.STOP, DoorState.STOPPED, options);
+  }
+
+  /**
+   * Moves the garage door to the intermediate position and waits until it stops there.
+   * @param options - Wait options
+   * @returns The status reporting the door as stopped
+   * @throws {ConnectionError} If not connected
+   * @throws {CommandNotSentError} If the command queue expired or dropped the command
+   * @throws {DoorTimeoutError} If the door does not stop within the timeout
+   * @throws {DoorDisconnectedError} If the connection drops while waiting
+   * @throws {CommandVetoedError} If a command guard refuses the command
+   */
+  moveToIntermediateAndWait(options: WaitOptions = {}): Promise<MaveoStatus> {
+    return this.sendDoorCommandAndWait(DoorCommand.INTERMEDIATE, DoorState.STOPPED, options);
+  }
+
+  /**
+   * Drives the door to a position by opening or closing it for the calibrated
+   * share of the travel time and then stopping it. 0 and 100 close and open fully.
+   * A door at an unknown position is closed first.
+   * @param percent - Target position, 0 closed to 100 open
+   * @param options - Wait options, the timeout applies to each movement
+   * @returns The status after the door stopped
+   * @throws {ConfigError} If the percentage is out of range or the door is not calibrated
+   * @throws {ConnectionError} If not connected
+   * @throws {CommandNotSentError} If the command queue expired or dropped the command
+   * @throws {DoorTimeoutError} If the door does not start or stop in time
+   * @throws {DoorStoppedError} If the door stops before reaching the position
+   * @throws {DoorDisconnectedError} If the connection drops while moving
+   * @throws {CommandVetoedError} If a command guard refuses one of the commands
+   */
+  async setPosition(percent: number, options: WaitOptions = {}): Promise<MaveoStatus> {
+    if (!(percent >= 0 && percent <= 100)) {
+      throw new ConfigError(`Invalid position: ${percent}, expected 0 to 100`);
+    }
+    if (percent === 0) return this.closeAndWait(options);
+    if (percent === 100) return this.openAndWait(options);
+
+    const calibration = this.positionEstimator.getCalibration();
+    if (!calibration) {
+      throw new ConfigError('setPosition() needs the door travel times, run calibrate() first');
+    }
+    this.ensureConnected();
+
+    if (this.currentStatus?.isOpening || this.currentStatus?.isClosing) {
+      await this.stopAndWait(options);
+    }
+    if (this.positionEstimator.getPosition() === null) {
+      await this.closeAndWait(options);
+    }
+
+    const current = this.positionEstimator.getPosition() ?? 0;
+    const distance = percent - current;
+    if (Math.abs(distance) < POSITION_TOLERANCE && this.currentStatus) {
+      return this.currentStatus;
+    }
+
+    const opening = distance > 0;
+    const travelTime = (opening ? calibration.openTime : calibration.closeTime) * Math.abs(distance) / 100;
+    const command = opening ? DoorCommand.OPEN : DoorCommand.CLOSE;
+    const started = await this.guardDoorCommand(command, options, () => {
+      this.ensureConnected();
+      return this.waitForDoor(opening ? DoorState.OPENING : DoorState.CLOSING, { timeout: this.statusTimeout }, undefined,
+        () => this.publishDoorCommand(command, options));
+    });
+
+    const stillMoving = await this.waitWhileMoving(travelTime - (Date.now() - started.timestamp.getTime()));
+    if (!stillMoving && this.currentStatus) {
+      return this.currentStatus;
+    }
+    return this.stopAndWait(options);
+  }
+
+  /**
+   * Measures the time of a full open and a full close to estimate positions in between.
+   * Closes the door first unless it is closed, then opens and closes it fully.
+   * Pass the result as doorCalibration in the config to skip this next time.
+   * @param options - Wait options, the timeout applies to each movement
+   * @returns The measured travel times, also used from now on
+   * @throws {CalibrationError} If a movement was not reported from start to end
+   * @throws {ConnectionError} If not connected
+   * @throws {CommandNotSentError} If the command queue expired or dropped the command
+   * @throws {DoorTimeoutError} If the door does not reach the end in time
+   * @throws {DoorStoppedError} If the door stops on the way
+   * @throws {DoorDisconnectedError} If the connection drops while moving
+   * @throws {CommandVetoedError} If a command guard refuses one of the commands
+   */
+  async calibrate(options: WaitOptions = {}): Promise<DoorCalibration> {
+    this.ensureConnected();
+
+    if (!this.currentStatus?.isClosed) {
+      await this.closeAndWait(options);
+    }
+    const openTime = await this.measureTravel(DoorCommand.OPEN, DoorState.OPENING, DoorState.OPEN, options);
+    const closeTime = await this.measureTravel(DoorCommand.CLOSE, DoorState.CLOSING, DoorState.CLOSED, options);
+
+    const calibration = { openTime, closeTime };
+    debug.client('Calibrated %s: %o', this.deviceId, calibration);
+    this.positionEstimator.setCalibration(calibration);
+    return calibration;
+  }
+
+  /**
+   * Gets the travel times used for position estimation.
+   * @returns The calibration, or null if the door was not calibrated
+   */
+  getCalibration(): DoorCalibration | null {
+    return this.positionEstimator.getCalibration();
+  }
+
+  /**
+   * Gets the estimated door position, following the door while it moves.
+   * @returns Position in percent, 0 closed and 100 open, or null if unknown
+   */
+  getPosition(): number | null {
+    return this.positionEstimator.getPosition();
+  }
+
+  /**
+   * Waits until the door reports the given state without sending a command.
+   * Resolves immediately if the cached status already matches.
+   * @param state - The door state to wait for
+   * @param options - Wait options
+   * @returns The status matching the given state
+   * @throws {DoorTimeoutError} If the state is not reached within the timeout
+   * @throws {DoorStoppedError} If the door stops after moving, unless waiting for STOPPED
+   * @throws {DoorDisconnectedError} If the connection drops while waiting
+   */
+  waitForState(state: DoorState, options: WaitOptions = {}): Promise<MaveoStatus> {
+    if (this.currentStatus?.doorState === state) {
+      return Promise.resolve(this.currentStatus);
+    }
+    return this.waitForDoor(state, options);
+  }
+
+  /**
+   * Adds an interlock that is checked before every door command of this device.
+   * Light commands are not guarded.
+   * @param guard - The guard, checked after the guards added before it
+   * @returns Function that removes the guard again
+   */
+  beforeCommand(guard: CommandGuard): () => void {
+    this.commandGuards.push(guard);
+    return () => {
+      const index = this.commandGuards.indexOf(guard);
+      if (index > -1) {
+        this.commandGuards.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Turns the garage light on.
+   * Light commands are not guarded, so the promise only rejects if not connected.
+   * @param options - Command options
+   * @returns Resolves with 'sent', or 'expired' or 'dropped' if the command queue discarded it
+   * @throws {ConnectionError} If not connected and the command queue is disabled (as a rejection)
+   */
+  lightOn(options: CommandOptions = {}): Promise<CommandOutcome> {
+    return this.sendLightCommand(LightCommand.ON, options);
+  }
+
+  /**
+   * Turns the garage light off.
+   * Light commands are not guarded, so the promise only rejects if not connected.
+   * @param options - Command options
+   * @returns Resolves with 'sent', or 'expired' or 'dropped' if the command queue discarded it
+   * @throws {ConnectionError} If not connected and the command queue is disabled (as a rejection)
+   */
+  lightOff(options: CommandOptions = {}): Promise<CommandOutcome> {
+    return this.sendLightCommand(LightCommand.OFF, options);
+  }
+
+  /**
+   * Turns the garage light on and waits until the device reports it on.
+   * Resolves immediately if the light is already known to be on.
+   * @param options - Wait options, the timeout defaults to the status timeout
+   * @returns The reported light state
+   * @throws {ConnectionError} If not connected or the connection drops while waiting
+   * @throws {CommandNotSentError} If the command queue expired or dropped the command
+   * @throws {LightTimeoutError} If the light is not reported on within the timeout
+   */
+  lightOnAndWait(options: WaitOptions = {}): Promise<LightStatus> {
+    return this.sendLightCommandAndWait(LightCommand.ON, options);
+  }
+
+  /**
+   * Turns the garage light off and waits until the device reports it off.
+   * Resolves immediately if the light is already known to be off.
+   * @param options - Wait options, the timeout defaults to the status timeout
+   * @returns The reported light state
+   * @throws {ConnectionError} If not connected or the connection drops while waiting
+   * @throws {CommandNotSentError} If the command queue expired or dropped the command
+   * @throws {LightTimeoutError} If the light is not reported off within the timeout
+   */
+  lightOffAndWait(options: WaitOptions = {}): Promise<LightStatus> {
+    return this.sendLightCommandAndWait(LightCommand.OFF, options);
+  }
+
+  /**
+   * Gets the last light state reported by the device.
+   * @returns True if on, false if off, or null if the device has not reported it yet
+   */
+  getLightState(): boolean | null {
+    return this.lightState;
+  }
+
+  /**
+   * Publishes an arbitrary payload to the device to explore the protocol.
+   * Needs sniffer.allowRawCommands in the config. Door commands (AtoS_g) are
+   * refused since they would bypass the command guards.
+   * @param payload - JSON object published as it is, e.g. { AtoS_v: 0 }
+   * @throws {ConfigError} If raw commands are disabled or the payload is not allowed
+   * @throws {ConnectionError} If not connected
+   */
+  sendRaw(payload: CommandMessage | Record<string, unknown>): void {
+    this.ensureConnected().sendRaw(payload, this.deviceId);
+  }
+
+  /**
+   * Requests a status update from the device.
+   * The status will be emitted via the 'status' event.
+   * @throws {ConnectionError} If not connected
+   */
+  requestStatus(): void {
+    this.ensureConnected().requestStatus(this.deviceId);
+    this.statusRequestedAt ??= Date.now();
+  }
+
+  /**
+   * Gets the current door status.
+   * Returns cached status if available and not older than maxStatusAge,
+   * otherwise requests fresh status from device.
+   * @param options - Pass fresh to always ask the device
+   * @returns The current door status
+   * @throws {ConnectionError} If not connected
+   * @throws {StatusTimeoutError} If the request times out
+   */
+  async getStatus(options: StatusOptions = {}): Promise<MaveoStatus> {
+    this.ensureConnected();
+
+    // If we have a recent status, return it
+    if (!options.fresh && this.currentStatus && !this.isStale(this.currentStatus)) {
+      return this.currentStatus;
+    }
+
+    // Otherwise request and wait for status
+    return new Promise((resolve, reject) => {
+      const resolver = (status: MaveoStatus) => {
+        clearTimeout(timeout);
+        resolve(status);
+      };
+
+      const timeout = setTimeout(() => {
+        const index = this.statusPromiseResolvers.indexOf(resolver);
+        if (index > -1) {
+          this.statusPromiseResolvers.splice(index, 1);
+        }
+        reject(new StatusTimeoutError('Status request timeout'));
+      }, this.statusTimeout);
+
+      this.statusPromiseResolvers.push(resolver);
+
+      this.requestStatus();
+    });
+  }
+
+  /**
+   * Gets the cached door status without requesting from device.
+   * @returns The cached status, or null if no status has been received
+   */
+  getCurrentStatus(): MaveoStatus | null {
+    return this.currentStatus;
+  }
+
+  /**
+   * Gets a health snapshot of the device and its connection.
+   * @returns Connection state, responsiveness, message times and latency
+   */
+  getHealth(): DeviceHealth {
+    return {
+      device: this.deviceId,
+      connected: this.isConnected(),
+      responsive: this.responsive,
+      lastMessageAt: this.lastMessageAt,
+      lastStatusAt: this.currentStatus?.timestamp ?? null,
+      reconnects: this.reconnects,
+      latency: this.latency,
+      missedPolls: this.missedPolls
+    };
+  }
+
+  private isStale(status: MaveoStatus): boolean {
+    return this.maxStatusAge !== null && Date.now() - status.timestamp.getTime() > this.maxStatusAge;
+  }
+
+  private handleConnected = (): void => {
+    if (this.hasConnected) {
+      this.reconnects++;
+    }
+    this.hasConnected = true;
+
+    if (this.statusPollInterval !== null && !this.pollTimer) {
+      this.pollTimer = setInterval(() => this.poll(), this.statusPollInterval);
+    }
+  };
+
+  private handleDisconnected = (): void => {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.clearPollTimeout();
+    this.missedPolls = 0;
+    this.statusRequestedAt = null;
+    // The door may move unnoticed while disconnected
+    this.positionEstimator.reset();
+  };
+
+  private poll(): void {
+    // The previous poll is still waiting for its answer
+    if (this.pollTimeout) return;
+
+    try {
+      this.requestStatus();
+    } catch (error) {
+      debug.client('Status poll failed: %O', error);
+      return;
+    }
+
+    this.pollTimeout = setTimeout(() => {
+      this.pollTimeout = null;
+      this.missedPolls++;
+      debug.client('Status poll of %s unanswered (%d in a row)', this.deviceId, this.missedPolls);
+
+      if (this.responsive && this.missedPolls >= this.maxMissedPolls) {
+        this.responsive = false;
+        this.emit('deviceUnresponsive', this.getHealth());
+      }
+    }, this.statusTimeout);
+  }
+
+  private clearPollTimeout(): void {
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout);
+      this.pollTimeout = null;
+    }
+  }
+
+  private async sendDoorCommandAndWait(
+    command: DoorCommand,
+    expectedState: DoorState,
+    options: WaitOptions
+  ): Promise<MaveoStatus> {
+    this.ensureConnected();
+
+    return this.guardDoorCommand(command, options, () => {
+      this.ensureConnected();
+      const current = this.currentStatus;
+
+      // The device does not report anything if the door already is where it should be.
+      // A stopped door can still move to the intermediate position, so that needs confirmation.
+      if (current && command !== DoorCommand.INTERMEDIATE && this.isDoorAt(current, command, expectedState)) {
+        return this.publishDoorCommand(command, options).then(() => current);
+      }
+
+      return this.waitForDoor(expectedState, options, command, () => this.publishDoorCommand(command, options));
+    });
+  }
+
+  /**
+   * Waits for the door to reach a state, sending the command once listening.
+   * Fails right away if the command queue discards the command.
+   */
+  private waitForDoor(
+    expectedState: DoorState,
+    options: WaitOptions,
+    command?: DoorCommand,
+    send?: () => Promise<CommandOutcome>
+  ): Promise<MaveoStatus> {
+    const timeoutMs = options.timeout ?? this.moveTimeout;
+
+    return new Promise((resolve, reject) => {
+      let lastStatus = this.currentStatus;
+      let hasMoved = false;
+
+      const cleanup = () => {
+        clearTimeout(timeout);
+        this.removeListener('status', statusHandler);
+        this.removeListener('disconnected', disconnectHandler);
+      };
+
+      const statusHandler = (status: MaveoStatus) => {
+        lastStatus = status;
+
+        if (this.isDoorAt(status, command, expectedState)) {
+          cleanup();
+          resolve(status);
+          return;
+        }
+
+        if (status.isOpening || status.isClosing) {
+          hasMoved = true;
+        } else if (status.isStopped && hasMoved) {
+          cleanup();
+          reject(new DoorStoppedError(expectedState, status));
+        }
+      };
+
+      const disconnectHandler = () => {
+        cleanup();
+        reject(new DoorDisconnectedError(expectedState, lastStatus));
+      };
+
+      const timeout = setTimeout(() => {
+        cleanup();
+        reject(new DoorTimeoutError(expectedState, lastStatus, timeoutMs));
+      }, timeoutMs);
+
+      this.on('status', statusHandler);
+      this.on('disconnected', disconnectHandler);
+      if (send) {
+        this.sendOrFail(send, error => {
+          cleanup();
+          reject(error);
+        });
+      }
+    });
+  }
+
+  // Calls fail if sending rejects or the command queue expires or drops the command
+  private sendOrFail(send: () => Promise<CommandOutcome>, fail: (error: unknown) => void): void {
+    send().then(outcome => {
+      if (outcome === 'expired' || outcome === 'dropped') {
+        debug.client('Command for %s was %s, not waiting for the device', this.deviceId, outcome);
+        fail(new CommandNotSentError(outcome));
+      }
+    }, fail);
+  }
+
+  private sendDoorCommand(command: DoorCommand, options: CommandOptions): Promise<CommandOutcome> {
+    return this.guardDoorCommand(command, options, () => this.publishDoorCommand(command, options));
+  }
+
+  /**
+   * Runs the command guards and calls send once all allowed the command.
+   * Without guards, send is called synchronously so the command goes out right away.
+   */
+  private guardDoorCommand<T>(command: DoorCommand, options: CommandOptions, send: () => Promise<T>): Promise<T> {
+    if (this.commandGuards.length === 0) {
+      return send();
+    }
+
+    const request: CommandRequest = {
+      device: this.deviceId,
+      command,
+      source: options.source ?? DEFAULT_COMMAND_SOURCE,
+      status: this.currentStatus,
+      timestamp: new Date()
+    };
+    return this.checkCommandGuards(request).then(send);
+  }
+
+  private async checkCommandGuards(request: CommandRequest): Promise<void> {
+    const entry: CommandAuditEntry = { ...request, allowed: true, decisions: [] };
+
+    // Removing a guard while a check is running does not affect that check
+    for (const guard of [...this.commandGuards]) {
+      let decision;
+      try {
+        decision = await guard.check({ ...request, status: this.currentStatus });
+      } catch (error) {
+        // Fail closed: a broken interlock must not let the door move
+        decision = { allowed: false as const, reason: `Guard failed: ${error instanceof Error ? error.message : String(error)}` };
+      }
+
+      entry.decisions.push({ guard: guard.name, ...decision });
+      if (!decision.allowed) {
+        entry.allowed = false;
+        debug.client('%s command for %s vetoed by %s: %s', DoorCommand[request.command], request.device, guard.name, decision.reason);
+        this.emit('commandDecision', entry);
+        throw new CommandVetoedError(guard.name, decision.reason, request);
+      }
+    }
+
+    debug.client('%s command for %s allowed by %d guards', DoorCommand[request.command], request.device, entry.decisions.length);
+    this.emit('commandDecision', entry);
+  }
+
+  private publishDoorCommand(command: DoorCommand, options: CommandOptions): Promise<CommandOutcome> {
+    // The command event is emitted once the command is actually published
+    return this.account.sendCommand({ deviceId: this.deviceId, target: 'door', command }, () => this.emit('command', {
+      device: this.deviceId,
+      target: 'door',
+      command,
+      source: options.source ?? DEFAULT_COMMAND_SOURCE,
+      timestamp: new Date()
+    }));
+  }
+
+  private sendLightCommand(command: LightCommand, options: CommandOptions): Promise<CommandOutcome> {
+    return this.account.sendCommand({ deviceId: this.deviceId, target: 'light', command }, () => this.emit('command', {
+      device: this.deviceId,
+      target: 'light',
+      command,
+      source: options.source ?? DEFAULT_COMMAND_SOURCE,
+      timestamp: new Date()
+    }));
+  }
+
+  private async sendLightCommandAndWait(command: LightCommand, options: WaitOptions): Promise<LightStatus> {
+    this.ensureConnected();
+    const expected = command === LightCommand.ON;
+
+    if (this.lightState === expected) {
+      await this.sendLightCommand(command, options);
+      return { device: this.deviceId, lightOn: expected };
+    }
+
+    const timeoutMs = options.timeout ?? this.statusTimeout;
+    return new Promise<LightStatus>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timeout);
+        this.removeListener('lightChanged', lightHandler);
+        this.removeListener('disconnected', disconnectHandler);
+      };
+
+      const lightHandler = (light: LightStatus) => {
+        if (light.lightOn === expected) {
+          cleanup();
+          resolve(light);
+        }
+      };
+
+      const disconnectHandler = () => {
+        cleanup();
+        reject(new ConnectionError('NOT_CONNECTED', 'Disconnected while waiting for the light'));
+      };
+
+      const timeout = setTimeout(() => {
+        cleanup();
+        reject(new LightTimeoutError(expected, timeoutMs));
+      }, timeoutMs);
+
+      this.on('lightChanged', lightHandler);
+      this.on('disconnected', disconnectHandler);
+      this.sendOrFail(() => this.sendLightCommand(command, options), error => {
+        cleanup();
+        reject(error);
+      });
+    });
+  }
+
+  private async measureTravel(
+    command: DoorCommand,
+    movingState: DoorState,
+    endState: DoorState,
+    options: WaitOptions
+  ): Promise<number> {
+    let startedAt: number | null = null;
+    const statusHandler = (status: MaveoStatus) => {
+      if (status.doorState === movingState && startedAt === null) {
+        startedAt = status.timestamp.getTime();
+      }
+    };
+
+    this.on('status', statusHandler);
+    try {
+      const end = await this.sendDoorCommandAndWait(command, endState, options);
+      if (startedAt === null) {
+        throw new CalibrationError(`The door reached ${DoorState[endState]} without reporting ${DoorState[movingState]}`);
+      }
+      return end.timestamp.getTime() - startedAt;
+    } finally {
+      this.removeListener('status', statusHandler);
+    }
+  }
+
+  // Resolves true after the delay, or false as soon as the door stops moving or the connection drops
+  private waitWhileMoving(delay: number): Promise<boolean> {
+    return new Promise(resolve => {
+      const finish = (moving: boolean) => {
+        clearTimeout(timer);
+        this.removeListener('status', statusHandler);
+        this.removeListener('disconnected', disconnectHandler);
+        resolve(moving);
+      };
+      const statusHandler = (status: MaveoStatus) => {
+        if (!status.isOpening && !status.isClosing) {
+          finish(false);
+        }
+      };
+      const disconnectHandler = () => finish(false);
+      const timer = setTimeout(() => finish(true), Math.max(0, delay));
+
+      this.on('status', statusHandler);
+      this.on('disconnected', disconnectHandler);
+    });
+  }
+
+  private isDoorAt(status: MaveoStatus, command: DoorCommand | undefined, expectedState: DoorState): boolean {
+    // A stop command is satisfied by any stationary state
+    if (command === DoorCommand.STOP) {
+      return !status.isOpening && !status.isClosing;
+    }
+    return status.doorState === expectedState;
+  }
+
+  /**
+   * Handles a response message routed to this device by the account.
+   * @internal
+   */
+  handleStatusMessage(payload: StatusResponse): void {
+    const { StoA_s: doorValue, StoA_l: lightValue, ...unknownFields } = payload;
+    Object.assign(this.rawFields, unknownFields);
+    this.handleMessageReceived(doorValue !== undefined);
+
+    // Update the light first so a door status in the same message includes it
+    if (lightValue !== undefined) {
+      this.handleLightState(lightValue);
+    }
+
+    if (doorValue !== undefined) {
+      const previous = this.currentStatus;
+      const status = this.parseStatus(doorValue, previous);
+      if (!status) return;
+      this.currentStatus = status;
+
+      // Resolve any pending status promises
+      const resolvers = this.statusPromiseResolvers.splice(0);
+      resolvers.forEach(resolve => resolve(status));
+
+      // Emit status event
+      this.emit('status', status);
+      this.emit('statusReceived', status);
+
+      // The device repeats its state on every status request
+      if (previous?.doorState !== status.doorState) {
+        this.emitStateChange({ previous, current: status });
+      }
+    }
+  }
+
+  private emitStateChange(change: StateChange): void {
+    const { previous, current } = change;
+    this.emit('stateChanged', change);
+
+    // The first status only tells where the door is, it was not seen moving there
+    if (!previous) return;
+
+    if (current.isOpening || current.isClosing) {
+      this.emit('movementStarted', current);
+    } else if (previous.isOpening || previous.isClosing) {
+      this.emit('movementStopped', current);
+    }
+
+    if (current.isOpen) {
+      this.emit('opened', current);
+    } else if (current.isClosed) {
+      this.emit('closed', current);
+    }
+  }
+
+  private handleMessageReceived(hasStatus: boolean): void {
+    this.lastMessageAt = new Date();
+    this.missedPolls = 0;
+    this.clearPollTimeout();
+
+    if (hasStatus && this.statusRequestedAt !== null) {
+      this.latency = Date.now() - this.statusRequestedAt;
+      this.statusRequestedAt = null;
+    }
+
+    if (!this.responsive) {
+      this.responsive = true;
+      this.emit('deviceResponsive', this.getHealth());
+    }
+  }
+
+  private handleLightState(rawValue: number): void {
+    const lightOn = decodeLightState(rawValue);
+    if (lightOn === null) {
+      debug.client('Unknown light state value: %d', rawValue);
+      return;
+    }
+    if (lightOn === this.lightState) return;
+
+    this.lightState = lightOn;
+    if (this.currentStatus) {
+      this.currentStatus = { ...this.currentStatus, lightOn };
+    }
+    this.emit('lightChanged', { device: this.deviceId, lightOn });
+  }
+
+  private parseStatus(rawValue: number, previous: MaveoStatus | null): MaveoStatus | null {
+    let doorState = decodeDoorState(rawValue);
+
+    // An unknown value says nothing about the door, so it keeps its last known state
+    if (doorState === null) {
+      if (!previous) {
+        debug.client('Unknown door state value: %d, ignored until a known state arrives', rawValue);
+        return null;
+      }
+      debug.client('Unknown door state value: %d, keeping %s', rawValue, DoorState[previous.doorState]);
+      doorState = previous.doorState;
+    }
+
+    const timestamp = new Date();
+    return {
+      device: this.deviceId,
+      doorState,
+      isOpening: doorState === DoorState.OPENING,
+      isClosing: doorState === DoorState.CLOSING,
+      isOpen: doorState === DoorState.OPEN,
+      isClosed: doorState === DoorState.CLOSED,
+      isStopped: doorState === DoorState.STOPPED,
+      rawValue,
+      lightOn: this.lightState,
+      raw: { ...this.rawFields },
+      timestamp,
+      position: this.positionEstimator.update(doorState, timestamp.getTime())
+    };
+  }
+
+  protected ensureConnected(): MqttConnection {
+    const mqtt = this.account.getConnection();
+    if (!mqtt || !mqtt.isConnected()) {
+      throw new ConnectionError('NOT_CONNECTED', 'Not connected. Call connect() first.');
+    }
+    return mqtt;
+  }
+
+  /**
+   * Converts a DoorState enum value to a human-readable string.
+   * @param state - The door state to convert
+   * @returns Human-readable door state string
+   */
+  static getDoorStateString(state: DoorState): string {
+    switch (state) {
+      case DoorState.OPENING:
+        return 'Opening';
+      case DoorState.CLOSING:
+        return 'Closing';
+      case DoorState.OPEN:
+        return 'Open';
+      case DoorState.CLOSED:
+        return 'Closed';
+      case DoorState.STOPPED:
+        return 'Stopped';
+      default:
+        return 'Unknown';
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CaptureRecorder } from '../capture/CaptureRecorder';
+
+async function withCaptureFile(test: (filePath: string) => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'maveo-capture-'));
+  try {
+    await test(path.join(dir, 'captures', 'session.jsonl'));
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function readLines(filePath: string) {
+  return (await fs.readFile(filePath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+}
+
+describe('CaptureRecorder', () => {
+  it('writes a header and messages with relative timing', () => withCaptureFile(async filePath => {
+    const recorder = new CaptureRecorder(filePath);
+
+    recorder.recordMessage({ direction: 'published', topic: 'garage/cmd', payload: Buffer.from('{"AtoS_s":0}'), timestamp: new Date('2024-05-01T12:00:00.000Z') });
+    recorder.recordMessage({ direction: 'received', topic: 'garage/rsp', payload: Buffer.from('{"StoA_s":4}'), timestamp: new Date('2024-05-01T12:00:00.250Z') });
+    await recorder.flush();
+
+    expect(await readLines(filePath)).toEqual([
+      { format: 'maveo-capture', version: 1, startedAt: '2024-05-01T12:00:00.000Z' },
+      { at: 0, type: 'published', topic: 'garage/cmd', payload: '{"AtoS_s":0}' },
+      { at: 250, type: 'received', topic: 'garage/rsp', payload: '{"StoA_s":4}' },
+    ]);
+  }));
+
+  it('stores binary payloads as base64', () => withCaptureFile(async filePath => {
+    const recorder = new CaptureRecorder(filePath);
+
+    recorder.recordMessage({ direction: 'received', topic: 'garage/raw', payload: Buffer.from([0xff, 0x00, 0xfe]), timestamp: new Date() });
+    await recorder.flush();
+
+    expect((await readLines(filePath))[1]).toMatchObject({ payload: '/wD+', encoding: 'base64' });
+  }));
+
+  it('appends every recorder as a new session', () => withCaptureFile(async filePath => {
+    for (const state of [3, 4]) {
+      const recorder = new CaptureRecorder(filePath);
+      recorder.recordMessage({ direction: 'received', topic: 'garage/rsp', payload: Buffer.from(`{"StoA_s":${state}}`), timestamp: new Date() });
+      await recorder.flush();
+    }
+
+    const lines = await readLines(filePath);
+    expect(lines.map(line => line.format ?? line.payload)).toEqual(['maveo-capture', '{"StoA_s":3}', 'maveo-capture', '{"StoA_s":4}']);
+  }));
+});
@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CognitoAuth } from '../auth/CognitoAuth';
+import { MemorySessionStore } from '../auth/SessionStore';
+import { AuthChallengeError, AuthError } from '../errors';
+import { ENDPOINT_PROFILES } from '../endpoints';
+import { AuthChallengeName } from '../types';
+
+type CognitoRequest = { target: string; body: Record<string, unknown> };
+
+/**
+ * Stubs fetch with a fake Cognito backend and records every request.
+ */
+function mockCognito(options: { refreshError?: string; challenge?: AuthChallengeName; loginError?: string } = {}) {
+  const requests: CognitoRequest[] = [];
+  const expiration = Math.floor(Date.now() / 1000) + 3600;
+
+  const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status });
+
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    const target = (init.headers as Record<string, string>)['X-Amz-Target'].split('.')[1];
+    const body = JSON.parse(init.body as string);
+    requests.push({ target, body });
+
+    switch (target) {
+      case 'InitiateAuth':
+        if (body.AuthFlow === 'REFRESH_TOKEN_AUTH') {
+          return options.refreshError
+            ? json(400, { __type: options.refreshError, message: 'Refresh failed' })
+            : json(200, { AuthenticationResult: { IdToken: 'id-token-2' } });
+        }
+        if (options.loginError) {
+          return json(400, { __type: options.loginError, message: 'Login failed' });
+        }
+        if (options.challenge) {
+          return json(200, {
+            ChallengeName: options.challenge,
+            ChallengeParameters: { USER_ID_FOR_SRP: 'user-id' },
+            Session: 'challenge-session'
+          });
+        }
+        return json(200, { AuthenticationResult: { IdToken: 'id-token-1', RefreshToken: 'refresh-token' } });
+      case 'RespondToAuthChallenge':
+        return json(200, { AuthenticationResult: { IdToken: 'id-token-1', RefreshToken: 'refresh-token' } });
+      case 'GetId':
+        return json(200, { IdentityId: 'eu-central-1:identity' });
+      case 'GetCredentialsForIdentity':
+        return json(200, {
+          Credentials: { AccessKeyId: 'AKIA', SecretKey: 'secret', SessionToken: 'token', Expiration: expiration }
+        });
+      default:
+        return json(400, { __type: 'UnknownOperationException' });
+    }
+  }));
+
+  return requests;
+}
+
+describe('CognitoAuth', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stores the refresh token after authenticate', async () => {
+    mockCognito();
+    const auth = new CognitoAuth('user@example.com', 'pass');
+
+    await auth.authenticate();
+
+    expect(auth.getRefreshToken()).toBe('refresh-token');
+    expect(auth.isCredentialsExpired()).toBe(false);
+    expect(auth.isCredentialsExpired(2 * 3600 * 1000)).toBe(true);
+  });
+
+  it('refreshes credentials with REFRESH_TOKEN_AUTH', async () => {
+    const requests = mockCognito();
+    const auth = new CognitoAuth('user@example.com', 'pass');
+    await auth.authenticate();
+    requests.length = 0;
+
+    await auth.refresh();
+
+    expect(requests.map(request => request.target)).toEqual(['InitiateAuth', 'GetCredentialsForIdentity']);
+    expect(requests[0].body).toMatchObject({
+      AuthFlow: 'REFRESH_TOKEN_AUTH',
+      AuthParameters: { REFRESH_TOKEN: 'refresh-token' }
+    });
+    expect(auth.getRefreshToken()).toBe('refresh-token');
+  });
+
+  it('falls back to password login if the refresh token is rejected', async () => {
+    const requests = mockCognito({ refreshError: 'NotAuthorizedException' });
+    const auth = new CognitoAuth('user@example.com', 'pass');
+    await auth.authenticate();
+    requests.length = 0;
+
+    await auth.refresh();
+
+    expect(requests.map(request => request.body.AuthFlow).filter(Boolean)).toEqual([
+      'REFRESH_TOKEN_AUTH',
+      'USER_PASSWORD_AUTH'
+    ]);
+    expect(auth.getCredentials()?.accessKeyId).toBe('AKIA');
+  });
+
+  it.each(['TooManyRequestsException', 'InternalErrorException'])('rethrows %s from the refresh without a password login', async (refreshError) => {
+    const requests = mockCognito({ refreshError });
+    const auth = new CognitoAuth('user@example.com', 'pass');
+    await auth.authenticate();
+    requests.length = 0;
+
+    await expect(auth.refresh()).rejects.toMatchObject({ awsErrorType: refreshError });
+
+    expect(requests.map(request => request.body.AuthFlow)).toEqual(['REFRESH_TOKEN_AUTH']);
+    expect(auth.getRefreshToken()).toBe('refresh-token');
+  });
+
+  it('authenticates with password if there is no refresh token', async () => {
+    const requests = mockCognito();
+    const auth = new CognitoAuth('user@example.com', 'pass');
+
+    await auth.refresh();
+
+    expect(requests[0].body).toMatchObject({ AuthFlow: 'USER_PASSWORD_AUTH' });
+  });
+
+  describe('session store', () => {
+    const EU_SESSION_KEY = `${ENDPOINT_PROFILES.eu.userPoolId}/${ENDPOINT_PROFILES.eu.identityPoolId}/user@example.com`;
+
+    const storedSession = (expiresInMs: number) => ({
+      identityId: 'eu-central-1:stored',
+      refreshToken: 'stored-refresh-token',
+      credentials: {
+        accessKeyId: 'STORED',
+        secretAccessKey: 'secret',
+        sessionToken: 'token',
+        expiration: new Date(Date.now() + expiresInMs)
+      }
+    });
+
+    it('saves the session after a password login', async () => {
+      mockCognito();
+      const store = new MemorySessionStore();
+      const auth = new CognitoAuth('user@example.com', 'pass', { sessionStore: store });
+
+      await auth.authenticate();
+
+      expect(await store.load(EU_SESSION_KEY)).toMatchObject({
+        identityId: 'eu-central-1:identity',
+        refreshToken: 'refresh-token',
+        credentials: { accessKeyId: 'AKIA' }
+      });
+    });
+
+    it('reuses valid stored credentials without calling Cognito', async () => {
+      const requests = mockCognito();
+      const store = new MemorySessionStore();
+      await store.save(EU_SESSION_KEY, storedSession(3600 * 1000));
+      const auth = new CognitoAuth('user@example.com', 'pass', { sessionStore: store });
+
+      const result = await auth.authenticate();
+
+      expect(requests).toHaveLength(0);
+      expect(result.credentials.accessKeyId).toBe('STORED');
+      expect(auth.getRefreshToken()).toBe('stored-refresh-token');
+    });
+
+    it('refreshes expired stored credentials with the stored refresh token', async () => {
+      const requests = mockCognito();
+      const store = new MemorySessionStore();
+      await store.save(EU_SESSION_KEY, storedSession(-1000));
+      const auth = new CognitoAuth('user@example.com', 'pass', { sessionStore: store });
+
+      await auth.authenticate();
+
+      expect(requests[0].body).toMatchObject({
+        AuthFlow: 'REFRESH_TOKEN_AUTH',
+        AuthParameters: { REFRESH_TOKEN: 'stored-refresh-token' }
+      });
+      expect(requests.map(request => request.target)).not.toContain('GetId');
+      expect((await store.load(EU_SESSION_KEY))?.credentials.accessKeyId).toBe('AKIA');
+    });
+
+    it('does not reuse a session of another endpoint', async () => {
+      const requests = mockCognito();
+      const store = new MemorySessionStore();
+      await store.save(EU_SESSION_KEY, storedSession(3600 * 1000));
+      const endpoint = { ...ENDPOINT_PROFILES.eu, userPoolId: 'eu-central-1_other', identityPoolId: 'eu-central-1:other' };
+      const auth = new CognitoAuth('user@example.com', 'pass', { sessionStore: store, endpoint });
+
+      const result = await auth.authenticate();
+
+      expect(requests[0].body).toMatchObject({ AuthFlow: 'USER_PASSWORD_AUTH' });
+      expect(result.credentials.accessKeyId).toBe('AKIA');
+      expect(await store.load('eu-central-1_other/eu-central-1:other/user@example.com')).not.toBeNull();
+    });
+  });
+
+  describe('challenges', () => {
+    it('throws AuthChallengeError without a challenge handler', async () => {
+      mockCognito({ challenge: 'SOFTWARE_TOKEN_MFA' });
+      const auth = new CognitoAuth('user@example.com', 'pass');
+
+      const error = await auth.authenticate().catch(e => e);
+
+      expect(error).toBeInstanceOf(AuthChallengeError);
+      expect(error.challengeName).toBe('SOFTWARE_TOKEN_MFA');
+    });
+
+    it.each([
+      ['SMS_MFA', 'SMS_MFA_CODE'],
+      ['SOFTWARE_TOKEN_MFA', 'SOFTWARE_TOKEN_MFA_CODE'],
+    ] as const)('answers %s through the challenge handler', async (challenge, responseKey) => {
+      const requests = mockCognito({ challenge });
+      const challengeHandler = vi.fn(async () => '123456');
+      const auth = new CognitoAuth('user@example.com', 'pass', { challengeHandler });
+
+      await auth.authenticate();
+
+      expect(challengeHandler).toHaveBeenCalledWith({ name: challenge, parameters: { USER_ID_FOR_SRP: 'user-id' } });
+      expect(requests[1]).toMatchObject({
+        target: 'RespondToAuthChallenge',
+        body: {
+          ChallengeName: challenge,
+          Session: 'challenge-session',
+          ChallengeResponses: { USERNAME: 'user-id', [responseKey]: '123456' }
+        }
+      });
+      expect(auth.getCredentials()?.accessKeyId).toBe('AKIA');
+    });
+
+    it('uses the new password for later logins after NEW_PASSWORD_REQUIRED', async () => {
+      const requests = mockCognito({ challenge: 'NEW_PASSWORD_REQUIRED' });
+      const auth = new CognitoAuth('user@example.com', 'old-pass', { challengeHandler: () => 'new-pass' });
+
+      await auth.authenticate();
+      requests.length = 0;
+      await auth.authenticate();
+
+      expect(requests[0].body).toMatchObject({ AuthParameters: { PASSWORD: 'new-pass' } });
+    });
+
+    it('starts USER_SRP_AUTH with an SRP_A value', async () => {
+      const requests = mockCognito({ challenge: 'SMS_MFA' });
+      const auth = new CognitoAuth('user@example.com', 'pass', {
+        authFlow: 'USER_SRP_AUTH',
+        challengeHandler: () => '123456'
+      });
+
+      await auth.authenticate();
+
+      expect(requests[0].body.AuthFlow).toBe('USER_SRP_AUTH');
+      expect(requests[0].body.AuthParameters).toMatchObject({
+        USERNAME: 'user@example.com',
+        SRP_A: expect.stringMatching(/^[0-9a-f]+$/)
+      });
+      expect(requests[0].body.AuthParameters).not.toHaveProperty('PASSWORD');
+    });
+  });
+
+  describe('errors', () => {
+    it.each([
+      ['NotAuthorizedException', 'AUTH_INVALID_CREDENTIALS'],
+      ['UserNotFoundException', 'AUTH_INVALID_CREDENTIALS'],
+      ['TooManyRequestsException', 'AUTH_THROTTLED'],
+      ['InternalErrorException', 'AUTH_FAILED'],
+    ])('maps %s to %s', async (awsErrorType, code) => {
+      mockCognito({ loginError: awsErrorType });
+      const auth = new CognitoAuth('user@example.com', 'pass');
+
+      const error = await auth.authenticate().catch(e => e);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error).toMatchObject({ code, awsErrorType });
+      expect(error.message).toContain('InitiateAuth failed');
+    });
+
+    it('wraps network failures with their cause', async () => {
+      const cause = new TypeError('fetch failed');
+      vi.stubGlobal('fetch', vi.fn(async () => { throw cause; }));
+      const auth = new CognitoAuth('user@example.com', 'pass');
+
+      const error = await auth.authenticate().catch(e => e);
+
+      expect(error).toMatchObject({ code: 'AUTH_FAILED', cause });
+    });
+
+    it('reports challenges with the AUTH_CHALLENGE code', async () => {
+      mockCognito({ challenge: 'SMS_MFA' });
+      const auth = new CognitoAuth('user@example.com', 'pass');
+
+      await expect(auth.authenticate()).rejects.toMatchObject({ code: 'AUTH_CHALLENGE' });
+    });
+  });
+});
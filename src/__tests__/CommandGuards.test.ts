@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  requireStationaryBeforeClose,
+  requireConfirmation,
+  blockOpenDuring,
+  refuseStaleStatus
+} from '../guards/CommandGuards';
+import { CommandAuditEntry, CommandRequest, DoorCommand, DoorState } from '../types';
+import { CommandVetoedError, ConfigError } from '../errors';
+import { createConnectedClient } from './helpers/connectedClient';
+
+function request(command: DoorCommand, overrides: Partial<CommandRequest> = {}): CommandRequest {
+  return { device: 'device123', command, source: 'api', status: null, timestamp: new Date(), ...overrides };
+}
+
+describe('command guards', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('MaveoDevice.beforeCommand', () => {
+    it('sends the command once all guards allow it', async () => {
+      const { client, mqtt } = createConnectedClient();
+      const check = vi.fn(() => ({ allowed: true as const }));
+      client.beforeCommand({ name: 'first', check });
+      client.beforeCommand({ name: 'second', check });
+
+      await expect(client.open({ source: 'http' })).resolves.toBe('sent');
+
+      expect(check).toHaveBeenCalledTimes(2);
+      expect(check).toHaveBeenCalledWith(expect.objectContaining({ device: 'device123', command: DoorCommand.OPEN, source: 'http' }));
+      expect(mqtt.sendDoorCommand).toHaveBeenCalledWith(DoorCommand.OPEN, 'device123');
+    });
+
+    it('rejects with CommandVetoedError and skips later guards', async () => {
+      const { client, mqtt } = createConnectedClient();
+      const later = vi.fn(() => ({ allowed: true as const }));
+      client.beforeCommand({ name: 'veto', check: () => ({ allowed: false, reason: 'No way' }) });
+      client.beforeCommand({ name: 'later', check: later });
+
+      const error = await client.close().catch(e => e);
+
+      expect(error).toBeInstanceOf(CommandVetoedError);
+      expect(error).toMatchObject({ code: 'COMMAND_VETOED', guard: 'veto', reason: 'No way', request: { command: DoorCommand.CLOSE } });
+      expect(later).not.toHaveBeenCalled();
+      expect(mqtt.sendDoorCommand).not.toHaveBeenCalled();
+    });
+
+    it('logs every decision with its reasons', async () => {
+      const { client } = createConnectedClient();
+      const entries: CommandAuditEntry[] = [];
+      client.on('commandDecision', entry => entries.push(entry));
+      const remove = client.beforeCommand({ name: 'ok', check: () => ({ allowed: true, reason: 'Fine' }) });
+
+      await client.open();
+      client.beforeCommand({ name: 'veto', check: () => ({ allowed: false, reason: 'Nope' }) });
+      await client.open().catch(() => undefined);
+      remove();
+      await client.open().catch(() => undefined);
+
+      expect(entries.map(entry => [entry.allowed, entry.decisions])).toEqual([
+        [true, [{ guard: 'ok', allowed: true, reason: 'Fine' }]],
+        [false, [{ guard: 'ok', allowed: true, reason: 'Fine' }, { guard: 'veto', allowed: false, reason: 'Nope' }]],
+        [false, [{ guard: 'veto', allowed: false, reason: 'Nope' }]],
+      ]);
+    });
+
+    it('vetoes if a guard throws', async () => {
+      const { client } = createConnectedClient();
+      client.beforeCommand({ name: 'broken', check: () => { throw new Error('boom'); } });
+
+      await expect(client.open()).rejects.toMatchObject({ guard: 'broken', reason: 'Guard failed: boom' });
+    });
+
+    it('does not guard light commands', async () => {
+      const { client, mqtt } = createConnectedClient();
+      client.beforeCommand({ name: 'veto', check: () => ({ allowed: false, reason: 'Nope' }) });
+
+      await expect(client.lightOn()).resolves.toBe('sent');
+      expect(mqtt.sendLightCommand).toHaveBeenCalled();
+    });
+
+    it('rejects awaitable commands without waiting for the door', async () => {
+      const { client, mqtt, receive } = createConnectedClient();
+      receive(DoorState.OPEN);
+      client.beforeCommand({ name: 'veto', check: () => ({ allowed: false, reason: 'Nope' }) });
+      const listeners = client.listenerCount('status');
+
+      await expect(client.closeAndWait({ timeout: 1000 })).rejects.toBeInstanceOf(CommandVetoedError);
+      expect(mqtt.sendDoorCommand).not.toHaveBeenCalled();
+      expect(client.listenerCount('status')).toBe(listeners);
+    });
+
+    it('applies guards from the config', async () => {
+      const { client } = createConnectedClient({
+        commandGuards: [{ name: 'config', check: () => ({ allowed: false, reason: 'Configured' }) }],
+      });
+
+      await expect(client.open()).rejects.toMatchObject({ guard: 'config' });
+    });
+  });
+
+  describe('requireStationaryBeforeClose', () => {
+    const guard = requireStationaryBeforeClose();
+
+    it('refuses to close a moving door or one with unknown state', () => {
+      expect(guard.check(request(DoorCommand.CLOSE))).toEqual({ allowed: false, reason: 'Door state unknown' });
+
+      const { client, receive } = createConnectedClient();
+      receive(DoorState.OPENING);
+      expect(guard.check(request(DoorCommand.CLOSE, { status: client.getCurrentStatus() }))).toEqual({ allowed: false, reason: 'Door is moving' });
+    });
+
+    it('allows closing a stationary door and other commands', () => {
+      const { client, receive } = createConnectedClient();
+      receive(DoorState.OPEN);
+
+      expect(guard.check(request(DoorCommand.CLOSE, { status: client.getCurrentStatus() }))).toMatchObject({ allowed: true });
+      expect(guard.check(request(DoorCommand.STOP))).toEqual({ allowed: true });
+    });
+  });
+
+  describe('requireConfirmation', () => {
+    it('holds a remote open until confirmed', async () => {
+      const { client, mqtt } = createConnectedClient();
+      let confirm!: (confirmed: boolean) => void;
+      client.beforeCommand(requireConfirmation({
+        confirm: () => new Promise<boolean>(resolve => {
+          confirm = resolve;
+        }),
+      }));
+
+      const outcome = client.open({ source: 'http' });
+      await Promise.resolve();
+      expect(mqtt.sendDoorCommand).not.toHaveBeenCalled();
+
+      confirm(true);
+      await expect(outcome).resolves.toBe('sent');
+    });
+
+    it('vetoes if refused or not answered in time', async () => {
+      vi.useFakeTimers();
+      const refused = requireConfirmation({ confirm: () => false });
+      const ignored = requireConfirmation({ confirm: () => new Promise<boolean>(() => undefined), timeout: 1000 });
+
+      await expect(refused.check(request(DoorCommand.OPEN, { source: 'homeassistant' }))).resolves.toEqual({ allowed: false, reason: 'Not confirmed' });
+
+      const pending = ignored.check(request(DoorCommand.OPEN, { source: 'http' }));
+      await vi.advanceTimersByTimeAsync(1000);
+      await expect(pending).resolves.toEqual({ allowed: false, reason: 'Confirmation timed out' });
+    });
+
+    it('only asks for the configured commands and sources', async () => {
+      const confirm = vi.fn(() => false);
+      const guard = requireConfirmation({ confirm });
+
+      await expect(guard.check(request(DoorCommand.OPEN, { source: 'api' }))).resolves.toEqual({ allowed: true });
+      await expect(guard.check(request(DoorCommand.CLOSE, { source: 'http' }))).resolves.toEqual({ allowed: true });
+      expect(confirm).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('blockOpenDuring', () => {
+    const guard = blockOpenDuring([{ start: '23:00', end: '06:00' }]);
+
+    it('refuses to open within a window spanning midnight', () => {
+      expect(guard.check(request(DoorCommand.OPEN, { timestamp: new Date(2024, 4, 1, 2, 30) })))
+        .toEqual({ allowed: false, reason: 'Opening is blocked 23:00-06:00' });
+      expect(guard.check(request(DoorCommand.OPEN, { timestamp: new Date(2024, 4, 1, 6, 0) }))).toEqual({ allowed: true });
+    });
+
+    it('allows closing at any time', () => {
+      expect(guard.check(request(DoorCommand.CLOSE, { timestamp: new Date(2024, 4, 1, 2, 30) }))).toEqual({ allowed: true });
+    });
+
+    it('rejects invalid times', () => {
+      expect(() => blockOpenDuring([{ start: '25:00', end: '06:00' }])).toThrow(ConfigError);
+    });
+  });
+
+  describe('refuseStaleStatus', () => {
+    it('refuses commands with a missing or old status but never STOP', () => {
+      vi.useFakeTimers();
+      const guard = refuseStaleStatus(60000);
+      const { client, receive } = createConnectedClient();
+
+      expect(guard.check(request(DoorCommand.OPEN))).toEqual({ allowed: false, reason: 'No status received yet' });
+
+      receive(DoorState.CLOSED);
+      const status = client.getCurrentStatus();
+      expect(guard.check(request(DoorCommand.OPEN, { status }))).toEqual({ allowed: true });
+
+      vi.advanceTimersByTime(120000);
+      expect(guard.check(request(DoorCommand.OPEN, { status }))).toEqual({ allowed: false, reason: 'Status is 120s old' });
+      expect(guard.check(request(DoorCommand.STOP, { status }))).toEqual({ allowed: true });
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CommandQueue, QueuedCommand } from '../mqtt/CommandQueue';
+import { CommandQueueOptions, DoorCommand, LightCommand } from '../types';
+import { ConfigError } from '../errors';
+
+const open: QueuedCommand = { deviceId: 'device123', target: 'door', command: DoorCommand.OPEN };
+const close: QueuedCommand = { deviceId: 'device123', target: 'door', command: DoorCommand.CLOSE };
+const stop: QueuedCommand = { deviceId: 'device123', target: 'door', command: DoorCommand.STOP };
+const lightOn: QueuedCommand = { deviceId: 'device123', target: 'light', command: LightCommand.ON };
+
+function createQueue(options: CommandQueueOptions = {}, connected = false) {
+  const transport = {
+    connected,
+    sent: [] as QueuedCommand[],
+    isConnected: () => transport.connected,
+    send: (command: QueuedCommand) => {
+      transport.sent.push(command);
+    },
+  };
+  const queue = new CommandQueue(options, transport);
+  const connect = () => {
+    transport.connected = true;
+    queue.flush();
+  };
+  return { queue, transport, connect };
+}
+
+describe('CommandQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send right away while connected', async () => {
+    const { queue, transport } = createQueue({}, true);
+    const onSent = vi.fn();
+
+    const outcome = queue.enqueue(open, onSent);
+
+    expect(transport.sent).toEqual([open]);
+    expect(onSent).toHaveBeenCalledTimes(1);
+    await expect(outcome).resolves.toBe('sent');
+  });
+
+  it('should buffer commands until connected', async () => {
+    const { queue, transport, connect } = createQueue();
+
+    const outcome = queue.enqueue(open, () => {});
+    expect(transport.sent).toEqual([]);
+    expect(queue.size).toBe(1);
+
+    connect();
+
+    expect(transport.sent).toEqual([open]);
+    await expect(outcome).resolves.toBe('sent');
+  });
+
+  it('should expire commands after the TTL', async () => {
+    vi.useFakeTimers();
+    const { queue, transport, connect } = createQueue({ ttl: 1000 });
+    const onSent = vi.fn();
+
+    const outcome = queue.enqueue(open, onSent);
+    vi.advanceTimersByTime(1000);
+    connect();
+
+    await expect(outcome).resolves.toBe('expired');
+    expect(transport.sent).toEqual([]);
+    expect(onSent).not.toHaveBeenCalled();
+  });
+
+  it('should collapse consecutive duplicates', async () => {
+    const { queue, transport, connect } = createQueue();
+
+    const first = queue.enqueue(lightOn, () => {});
+    const second = queue.enqueue(lightOn, () => {});
+    connect();
+
+    expect(second).toBe(first);
+    expect(transport.sent).toEqual([lightOn]);
+  });
+
+  it('should replace a waiting door command by default', async () => {
+    const { queue, transport, connect } = createQueue();
+
+    const first = queue.enqueue(open, () => {});
+    const second = queue.enqueue(close, () => {});
+    connect();
+
+    await expect(first).resolves.toBe('dropped');
+    await expect(second).resolves.toBe('sent');
+    expect(transport.sent).toEqual([close]);
+  });
+
+  it('should keep the first door command with keepFirst', async () => {
+    const { queue, transport, connect } = createQueue({ conflictPolicy: 'keepFirst' });
+
+    const first = queue.enqueue(open, () => {});
+    const second = queue.enqueue(close, () => {});
+    connect();
+
+    await expect(first).resolves.toBe('sent');
+    await expect(second).resolves.toBe('dropped');
+    expect(transport.sent).toEqual([open]);
+  });
+
+  it('should never drop STOP with keepFirst', async () => {
+    const { queue, transport, connect } = createQueue({ conflictPolicy: 'keepFirst' });
+
+    const first = queue.enqueue(open, () => {});
+    const stopped = queue.enqueue(stop, () => {});
+    connect();
+
+    await expect(first).resolves.toBe('sent');
+    await expect(stopped).resolves.toBe('sent');
+    expect(transport.sent).toEqual([open, stop]);
+  });
+
+  it('should not treat an identical door command as a conflict', async () => {
+    const { queue, transport, connect } = createQueue({ conflictPolicy: 'keepFirst' });
+
+    const first = queue.enqueue(open, () => {});
+    queue.enqueue(lightOn, () => {});
+    const again = queue.enqueue(open, () => {});
+    connect();
+
+    expect(again).toBe(first);
+    await expect(again).resolves.toBe('sent');
+    expect(transport.sent).toEqual([open, lightOn]);
+  });
+
+  it('should send conflicting door commands in order with sequential', () => {
+    const { queue, transport, connect } = createQueue({ conflictPolicy: 'sequential' });
+
+    queue.enqueue(open, () => {});
+    queue.enqueue(lightOn, () => {});
+    queue.enqueue(close, () => {});
+    connect();
+
+    expect(transport.sent).toEqual([open, lightOn, close]);
+  });
+
+  it('should drop commands when full', async () => {
+    const { queue } = createQueue({ maxSize: 1 });
+
+    queue.enqueue(open, () => {});
+
+    await expect(queue.enqueue(lightOn, () => {})).resolves.toBe('dropped');
+  });
+
+  it('should limit the send rate with a token bucket', () => {
+    vi.useFakeTimers();
+    const { queue, transport } = createQueue({ burst: 2, ratePerSecond: 2, conflictPolicy: 'sequential' }, true);
+
+    queue.enqueue(open, () => {});
+    queue.enqueue(close, () => {});
+    queue.enqueue(lightOn, () => {});
+    expect(transport.sent).toEqual([open, close]);
+
+    vi.advanceTimersByTime(499);
+    expect(transport.sent).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(transport.sent).toEqual([open, close, lightOn]);
+  });
+
+  it('should drop waiting commands on clear', async () => {
+    const { queue } = createQueue();
+
+    const outcome = queue.enqueue(open, () => {});
+    queue.clear();
+
+    await expect(outcome).resolves.toBe('dropped');
+    expect(queue.size).toBe(0);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => createQueue({ ttl: 0 })).toThrow(ConfigError);
+    expect(() => createQueue({ conflictPolicy: 'newest' as 'replace' })).toThrow(ConfigError);
+  });
+});
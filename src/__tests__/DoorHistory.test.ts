@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MaveoAccount } from '../MaveoAccount';
+import { DoorHistory } from '../history/DoorHistory';
+import { JsonlHistoryBackend } from '../history/JsonlHistoryBackend';
+import { DoorCommand, DoorState } from '../types';
+import { createConnectedClient } from './helpers/connectedClient';
+
+describe('DoorHistory', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Replays door states at the given local times of 2024-05-01
+  function replay(states: Array<[string, DoorState]>, history = new DoorHistory()) {
+    const { client, receive } = createConnectedClient();
+    history.attach(client);
+    vi.useFakeTimers();
+    for (const [time, state] of states) {
+      vi.setSystemTime(new Date(`2024-05-01T${time}`));
+      receive(state);
+    }
+    return { history, client };
+  }
+
+  it('records transitions and commands with their source', () => {
+    const { client, receive } = createConnectedClient();
+    const history = new DoorHistory();
+    history.attach(client);
+
+    receive(DoorState.CLOSED);
+    receive(DoorState.CLOSED);
+    client.open({ source: 'test' });
+    receive(DoorState.OPENING);
+
+    expect(history.getEntries().map(entry => entry.type)).toEqual(['status', 'command', 'status']);
+    expect(history.getEntries()[1]).toMatchObject({ target: 'door', command: DoorCommand.OPEN, source: 'test' });
+    expect(history.getEntries()[2]).toMatchObject({ doorState: DoorState.OPENING, previousState: DoorState.CLOSED });
+  });
+
+  it('records the timestamp of the reported status', () => {
+    const { client, receive } = createConnectedClient();
+    const history = new DoorHistory();
+    history.attach(client);
+    const statuses: Date[] = [];
+    client.on('status', status => statuses.push(status.timestamp));
+
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T08:00:00'));
+    receive(DoorState.OPEN);
+
+    expect(history.getEntries()[0].timestamp).toBe(statuses[0]);
+  });
+
+  it('defaults the command source to api', () => {
+    const { client } = createConnectedClient();
+    const history = new DoorHistory();
+    history.attach(client);
+
+    client.close();
+
+    expect(history.getEntries()[0]).toMatchObject({ source: 'api' });
+  });
+
+  it('drops the oldest entries when full', () => {
+    const { history } = replay([
+      ['08:00:00', DoorState.CLOSED],
+      ['08:00:01', DoorState.OPENING],
+      ['08:00:11', DoorState.OPEN],
+    ], new DoorHistory({ capacity: 2 }));
+
+    expect(history.getEntries().map(entry => entry.type === 'status' && entry.doorState)).toEqual([DoorState.OPENING, DoorState.OPEN]);
+  });
+
+  it('stops recording when detached', () => {
+    const { client, receive } = createConnectedClient();
+    const history = new DoorHistory();
+    const detach = history.attach(client);
+
+    detach();
+    receive(DoorState.OPEN);
+
+    expect(history.getEntries()).toEqual([]);
+  });
+
+  it('records devices of an account', () => {
+    const account = new MaveoAccount({ username: 'user@example.com', password: 'pass', deviceIds: ['left'] });
+    const history = new DoorHistory();
+    history.attach(account);
+
+    account.device('left').handleStatusMessage({ StoA_s: DoorState.OPEN });
+
+    expect(history.getEntries({ device: 'left' })).toHaveLength(1);
+  });
+
+  describe('statistics', () => {
+    const day = [
+      ['07:00:00', DoorState.CLOSED],
+      ['08:00:00', DoorState.OPENING],
+      ['08:00:10', DoorState.OPEN],
+      ['08:30:00', DoorState.CLOSING],
+      ['08:30:20', DoorState.CLOSED],
+      ['18:00:00', DoorState.OPENING],
+      ['18:00:05', DoorState.STOPPED],
+      ['18:00:15', DoorState.CLOSING],
+      ['18:00:30', DoorState.CLOSED],
+    ] as Array<[string, DoorState]>;
+
+    it('sums the time the door was not closed', () => {
+      const { history } = replay(day);
+
+      const duration = history.getOpenDuration({
+        since: new Date('2024-05-01T00:00:00'),
+        until: new Date('2024-05-01T23:59:59'),
+      });
+
+      expect(duration).toBe((30 * 60 + 20 + 30) * 1000);
+    });
+
+    it('counts the time the door is still open', () => {
+      const { history } = replay([
+        ['07:00:00', DoorState.CLOSED],
+        ['08:00:00', DoorState.OPEN],
+      ]);
+
+      vi.setSystemTime(new Date('2024-05-01T09:00:00'));
+
+      expect(history.getOpenDuration()).toBe(60 * 60 * 1000);
+    });
+
+    it('counts open cycles per day', () => {
+      const { history } = replay(day);
+
+      expect(history.getOpenCyclesPerDay()).toEqual([{ date: '2024-05-01', cycles: 2 }]);
+    });
+
+    it('averages uninterrupted travel times', () => {
+      const { history } = replay(day);
+
+      expect(history.getAverageTravelTime()).toEqual({ opening: 10000, closing: 17500 });
+    });
+  });
+
+  describe('JsonlHistoryBackend', () => {
+    it('persists entries and restores them', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'maveo-history-'));
+      const filePath = path.join(dir, 'history.jsonl');
+
+      try {
+        const { history } = replay([
+          ['08:00:00', DoorState.CLOSED],
+          ['08:00:01', DoorState.OPENING],
+        ], new DoorHistory({ backend: new JsonlHistoryBackend(filePath) }));
+        await history.flush();
+        await fs.appendFile(filePath, '{"truncated');
+
+        const restored = new DoorHistory({ backend: new JsonlHistoryBackend(filePath) });
+        await restored.restore();
+
+        expect(restored.getEntries()).toEqual(history.getEntries());
+        expect(restored.getEntries()[1].timestamp).toBeInstanceOf(Date);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import type { MqttClient } from 'mqtt';
+import { MaveoClient } from '../MaveoClient';
+import { HomeAssistantBridge, toCoverState, getHomeAssistantTopics, buildDiscoveryConfigs } from '../homeassistant/HomeAssistantBridge';
+import { DoorCommand, DoorState, LightCommand } from '../types';
+import { createConnectedClient } from './helpers/connectedClient';
+
+function createBridge() {
+  const { client, mqtt, receive, receiveMessage } = createConnectedClient();
+  const receiveLight = (lightOn: boolean) => receiveMessage({ StoA_l: lightOn ? 1 : 0 });
+
+  // Local broker connection stub
+  const broker = Object.assign(new EventEmitter(), {
+    publish: vi.fn(),
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+  });
+  const bridge = new HomeAssistantBridge(client, { client: broker as unknown as MqttClient });
+  const published = (topic: string) => broker.publish.mock.calls.filter(call => call[0] === topic).map(call => call[1]);
+
+  return { client, mqtt, receive, receiveLight, broker, bridge, published };
+}
+
+describe('HomeAssistantBridge', () => {
+  const topics = getHomeAssistantTopics('device123');
+
+  it('requires a broker URL or client', () => {
+    const client = new MaveoClient({ username: 'user@example.com', password: 'pass', deviceId: 'device123' });
+    expect(() => new HomeAssistantBridge(client, {})).toThrow('HomeAssistantBridge: brokerUrl or client is required');
+  });
+
+  it('maps door states to cover states', () => {
+    expect(toCoverState(DoorState.OPEN)).toBe('open');
+    expect(toCoverState(DoorState.OPENING)).toBe('opening');
+    expect(toCoverState(DoorState.CLOSED)).toBe('closed');
+    expect(toCoverState(DoorState.CLOSING)).toBe('closing');
+    expect(toCoverState(DoorState.STOPPED)).toBe('stopped');
+  });
+
+  it('builds discovery configs for a garage cover and a light', () => {
+    const configs = buildDiscoveryConfigs('device123', topics);
+
+    expect(topics.coverDiscovery).toBe('homeassistant/cover/maveo_device123/config');
+    expect(configs.cover).toMatchObject({
+      unique_id: 'maveo_device123_cover',
+      device_class: 'garage',
+      state_topic: 'maveo/device123/cover/state',
+      command_topic: 'maveo/device123/cover/set',
+      availability_topic: 'maveo/device123/availability',
+    });
+    expect(configs.light).toMatchObject({
+      unique_id: 'maveo_device123_light',
+      command_topic: 'maveo/device123/light/set',
+    });
+  });
+
+  it('publishes discovery, availability and state on start', async () => {
+    const { bridge, receive, broker, published } = createBridge();
+    receive(DoorState.CLOSED);
+
+    await bridge.start();
+
+    expect(broker.subscribe).toHaveBeenCalledWith(
+      [topics.coverCommand, topics.lightCommand, topics.homeAssistantStatus],
+      expect.anything(),
+      expect.any(Function)
+    );
+    expect(published(topics.coverDiscovery)).toHaveLength(1);
+    expect(published(topics.lightDiscovery)).toHaveLength(1);
+    expect(published(topics.coverState)).toEqual(['closed']);
+  });
+
+  it('follows status and connection events', async () => {
+    const { client, bridge, receive, receiveLight, published } = createBridge();
+    await bridge.start();
+
+    receive(DoorState.OPENING);
+    receiveLight(true);
+    client.emit('disconnected');
+    client.emit('connected');
+
+    expect(published(topics.coverState)).toEqual(['opening']);
+    expect(published(topics.lightState)).toEqual(['ON']);
+    expect(published(topics.availability).slice(-2)).toEqual(['offline', 'online']);
+  });
+
+  it('translates Home Assistant commands', async () => {
+    const { mqtt, bridge, broker } = createBridge();
+    await bridge.start();
+
+    broker.emit('message', topics.coverCommand, Buffer.from('OPEN'));
+    broker.emit('message', topics.coverCommand, Buffer.from('STOP'));
+    broker.emit('message', topics.lightCommand, Buffer.from('OFF'));
+    broker.emit('message', topics.lightCommand, Buffer.from('BLINK'));
+
+    expect(mqtt.sendDoorCommand.mock.calls).toEqual([
+      [DoorCommand.OPEN, 'device123'],
+      [DoorCommand.STOP, 'device123'],
+    ]);
+    expect(mqtt.sendLightCommand).toHaveBeenCalledOnce();
+    expect(mqtt.sendLightCommand).toHaveBeenCalledWith(LightCommand.OFF, 'device123');
+  });
+
+  it('republishes discovery when Home Assistant restarts', async () => {
+    const { bridge, broker, published } = createBridge();
+    await bridge.start();
+
+    broker.emit('message', topics.homeAssistantStatus, Buffer.from('online'));
+
+    expect(published(topics.coverDiscovery)).toHaveLength(2);
+  });
+
+  it('marks the entities offline on stop', async () => {
+    const { bridge, broker, published } = createBridge();
+    await bridge.start();
+    await bridge.stop();
+
+    expect(published(topics.availability).slice(-1)).toEqual(['offline']);
+    expect(broker.listenerCount('message')).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MaveoClient } from '../MaveoClient';
+import { HttpGateway } from '../http/HttpGateway';
+import { DoorCommand, DoorState, LightCommand, MaveoConfig } from '../types';
+import { createConnectedClient } from './helpers/connectedClient';
+
+const TOKEN = 'secret-token';
+
+async function startGateway(config: Partial<MaveoConfig> = {}) {
+  const { client, mqtt, receive } = createConnectedClient(config);
+
+  const gateway = new HttpGateway(client, { token: TOKEN, port: 0 });
+  const { port } = await gateway.start();
+  gateways.push(gateway);
+
+  const request = (path: string, init: RequestInit = {}) => fetch(`http://127.0.0.1:${port}${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${TOKEN}`, ...init.headers },
+  });
+
+  return { client, mqtt, receive, request };
+}
+
+const gateways: HttpGateway[] = [];
+
+describe('HttpGateway', () => {
+  afterEach(async () => {
+    await Promise.all(gateways.splice(0).map(gateway => gateway.stop()));
+  });
+
+  it('requires a token', () => {
+    const client = new MaveoClient({ username: 'user@example.com', password: 'pass', deviceId: 'device123' });
+    expect(() => new HttpGateway(client, { token: '' })).toThrow('HttpGateway: token is required');
+  });
+
+  it('rejects requests without a valid bearer token', async () => {
+    const { request } = await startGateway();
+
+    const missing = await request('/status', { headers: { Authorization: '' } });
+    expect(missing.status).toBe(401);
+
+    const wrong = await request('/status', { headers: { Authorization: 'Bearer wrong' } });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('returns the cached status with its update time', async () => {
+    const { receive, request } = await startGateway();
+
+    const empty = await request('/status');
+    expect(await empty.json()).toEqual({ status: null, lastUpdated: null, connected: true });
+
+    receive(DoorState.CLOSED);
+    const body = await (await request('/status')).json() as { status: { timestamp: string }; lastUpdated: unknown };
+    expect(body.status).toMatchObject({ device: 'device123', doorState: DoorState.CLOSED, isClosed: true });
+    expect(body.lastUpdated).toBe(body.status.timestamp);
+  });
+
+  it('reports the time of a status cached before it started', async () => {
+    const { client, receive } = createConnectedClient();
+    receive(DoorState.OPEN);
+    const cachedAt = client.getCurrentStatus()!.timestamp.toISOString();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const gateway = new HttpGateway(client, { token: TOKEN, port: 0 });
+    const { port } = await gateway.start();
+    gateways.push(gateway);
+    const response = await fetch(`http://127.0.0.1:${port}/status`, { headers: { Authorization: `Bearer ${TOKEN}` } });
+
+    expect(await response.json()).toMatchObject({ lastUpdated: cachedAt });
+  });
+
+  it('asks the device first for a fresh status', async () => {
+    const { mqtt, receive, request } = await startGateway();
+    receive(DoorState.CLOSED);
+    mqtt.requestStatus.mockImplementation(() => setTimeout(() => receive(DoorState.OPEN), 0));
+
+    const body = await (await request('/status?fresh=true')).json() as { status: unknown };
+
+    expect(mqtt.requestStatus).toHaveBeenCalledWith('device123');
+    expect(body.status).toMatchObject({ doorState: DoorState.OPEN });
+  });
+
+  it('sends door and light commands', async () => {
+    const { mqtt, request } = await startGateway();
+
+    const door = await request('/door/open', { method: 'POST' });
+    expect(door.status).toBe(202);
+    expect(mqtt.sendDoorCommand).toHaveBeenCalledWith(DoorCommand.OPEN, 'device123');
+
+    const light = await request('/light/on', { method: 'POST' });
+    expect(light.status).toBe(202);
+    expect(mqtt.sendLightCommand).toHaveBeenCalledWith(LightCommand.ON, 'device123');
+  });
+
+  it('answers 403 when a command guard vetoes the command', async () => {
+    const { client, mqtt, request } = await startGateway();
+    client.beforeCommand({ name: 'never', check: () => ({ allowed: false, reason: 'Not today' }) });
+
+    const response = await request('/door/open', { method: 'POST' });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: { code: 'COMMAND_VETOED', message: 'OPEN command vetoed by never: Not today' } });
+    expect(mqtt.sendDoorCommand).not.toHaveBeenCalled();
+  });
+
+  it('answers 503 when the command queue discards the command', async () => {
+    const { mqtt, request } = await startGateway({ commandQueue: { burst: 1, ratePerSecond: 1, ttl: 50 } });
+
+    expect((await request('/light/on', { method: 'POST' })).status).toBe(202);
+
+    // The rate limit keeps further commands waiting until they expire
+    const light = await request('/light/off', { method: 'POST' });
+    expect(light.status).toBe(503);
+    expect(await light.json()).toMatchObject({ error: { code: 'COMMAND_NOT_SENT' } });
+
+    const door = await request('/door/open', { method: 'POST' });
+    expect(door.status).toBe(503);
+    expect(mqtt.sendDoorCommand).not.toHaveBeenCalled();
+  });
+
+  it('waits for the door when asked to', async () => {
+    const { mqtt, receive, request } = await startGateway();
+    receive(DoorState.OPEN);
+    mqtt.sendDoorCommand.mockImplementation(() => setTimeout(() => receive(DoorState.CLOSED), 0));
+
+    const response = await request('/door/close?wait=true&timeout=1000', { method: 'POST' });
+    expect(response.status).toBe(200);
+    expect((await response.json() as { status: unknown }).status).toMatchObject({ doorState: DoorState.CLOSED });
+  });
+
+  it('maps door errors to HTTP status codes', async () => {
+    const { receive, request } = await startGateway();
+    receive(DoorState.OPEN);
+
+    const response = await request('/door/close?wait=true&timeout=50', { method: 'POST' });
+    expect(response.status).toBe(504);
+    expect((await response.json() as { error: { code: string } }).error.code).toBe('DOOR_TIMEOUT');
+  });
+
+  it('rejects unknown routes and wrong methods', async () => {
+    const { request } = await startGateway();
+
+    expect((await request('/door/explode', { method: 'POST' })).status).toBe(404);
+    expect((await request('/door/open')).status).toBe(405);
+  });
+
+  it('streams status events', async () => {
+    const { receive, request } = await startGateway();
+
+    const response = await request('/events');
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    receive(DoorState.OPENING);
+    while (!text.includes('event: status')) {
+      const { value } = await reader.read();
+      text += decoder.decode(value);
+    }
+    await reader.cancel();
+
+    expect(text).toContain('"doorState":1');
+  });
+});
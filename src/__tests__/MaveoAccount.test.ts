@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { MaveoAccount } from '../MaveoAccount';
+import { MaveoStatus, DoorState } from '../types';
+
+describe('MaveoAccount', () => {
+  const createAccount = () => new MaveoAccount({
+    username: 'user@example.com',
+    password: 'pass',
+    deviceIds: ['left', 'right'],
+  });
+
+  describe('constructor validation', () => {
+    it('throws on empty username', () => {
+      expect(() => new MaveoAccount({
+        username: '',
+        password: 'pass',
+      })).toThrow('MaveoConfig: username is required');
+    });
+
+    it('accepts config without devices', () => {
+      expect(new MaveoAccount({
+        username: 'user@example.com',
+        password: 'pass',
+      }).getDevices()).toEqual([]);
+    });
+  });
+
+  describe('device handles', () => {
+    it('creates one handle per device', () => {
+      const account = createAccount();
+
+      expect(account.getDevices().map(device => device.deviceId)).toEqual(['left', 'right']);
+      expect(account.device('left')).toBe(account.device('left'));
+    });
+
+    it('throws on empty deviceId', () => {
+      expect(() => createAccount().device(' ')).toThrow('MaveoConfig: deviceId is required');
+    });
+
+    it('keeps a separate status cache per device', () => {
+      const account = createAccount();
+
+      account.device('left').handleStatusMessage({ StoA_s: DoorState.OPEN });
+
+      expect(account.device('left').getCurrentStatus()?.doorState).toBe(DoorState.OPEN);
+      expect(account.device('right').getCurrentStatus()).toBeNull();
+    });
+
+    it('forwards device status with the device field', () => {
+      const account = createAccount();
+      const received: MaveoStatus[] = [];
+      account.on('status', status => received.push(status));
+
+      account.device('right').handleStatusMessage({ StoA_s: DoorState.CLOSED });
+
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({ device: 'right', doorState: DoorState.CLOSED });
+    });
+
+    it('stops forwarding status after removeDevice', () => {
+      const account = createAccount();
+      const left = account.device('left');
+      const received: MaveoStatus[] = [];
+      account.on('status', status => received.push(status));
+
+      account.removeDevice('left');
+      left.handleStatusMessage({ StoA_s: DoorState.CLOSED });
+
+      expect(received).toHaveLength(0);
+      expect(account.getDevices().map(device => device.deviceId)).toEqual(['right']);
+    });
+  });
+});
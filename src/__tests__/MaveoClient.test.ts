@@ -1,5 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { MaveoClient } from '../MaveoClient';
+import { DeviceHealth, DoorCommand, DoorState, LightCommand, MaveoConfig, StateChange } from '../types';
+import { DoorTimeoutError, DoorStoppedError, DoorDisconnectedError, LightTimeoutError, CommandNotSentError } from '../errors';
+import { createConnectedClient } from './helpers/connectedClient';
 
 describe('MaveoClient', () => {
   describe('constructor validation', () => {
@@ -51,6 +54,14 @@ describe('MaveoClient', () => {
       })).toThrow('MaveoConfig: deviceId is required');
     });
 
+    it('throws a ConfigError with the CONFIG_INVALID code', () => {
+      expect(() => new MaveoClient({
+        username: 'user@example.com',
+        password: 'pass',
+        deviceId: '',
+      })).toThrow(expect.objectContaining({ name: 'ConfigError', code: 'CONFIG_INVALID' }));
+    });
+
     it('accepts valid config', () => {
       expect(() => new MaveoClient({
         username: 'user@example.com',
@@ -93,4 +104,319 @@ describe('MaveoClient', () => {
       expect(resolvers.length).toBe(0);
     });
   });
+
+  describe('awaitable door commands', () => {
+    it('resolves openAndWait once the door is open', async () => {
+      const { client, mqtt, receive } = createConnectedClient();
+      receive(DoorState.CLOSED);
+
+      const promise = client.openAndWait({ timeout: 1000 });
+      expect(mqtt.sendDoorCommand).toHaveBeenCalledWith(DoorCommand.OPEN, 'device123');
+
+      receive(DoorState.OPENING);
+      receive(DoorState.OPEN);
+
+      await expect(promise).resolves.toMatchObject({ doorState: DoorState.OPEN });
+    });
+
+    it('resolves immediately if the door is already closed', async () => {
+      const { client, mqtt, receive } = createConnectedClient();
+      receive(DoorState.CLOSED);
+
+      await expect(client.closeAndWait()).resolves.toMatchObject({ doorState: DoorState.CLOSED });
+      expect(mqtt.sendDoorCommand).toHaveBeenCalledWith(DoorCommand.CLOSE, 'device123');
+    });
+
+    it('rejects with DoorStoppedError if the door stops while moving', async () => {
+      const { client, receive } = createConnectedClient();
+      receive(DoorState.OPEN);
+
+      const promise = client.closeAndWait({ timeout: 1000 });
+      receive(DoorState.CLOSING);
+      receive(DoorState.STOPPED);
+
+      await expect(promise).rejects.toBeInstanceOf(DoorStoppedError);
+    });
+
+    it('keeps waiting when the door reports an unknown state while moving', async () => {
+      const { client, receive, receiveMessage } = createConnectedClient();
+      const stopped = vi.fn();
+      const statuses: Array<[DoorState, number]> = [];
+      client.on('movementStopped', stopped);
+      client.on('status', status => statuses.push([status.doorState, status.rawValue]));
+      receive(DoorState.OPEN);
+
+      const promise = client.closeAndWait({ timeout: 1000 });
+      receive(DoorState.CLOSING);
+      receiveMessage({ StoA_s: 7 });
+      receive(DoorState.CLOSED);
+
+      await expect(promise).resolves.toMatchObject({ doorState: DoorState.CLOSED });
+      expect(statuses.slice(1, 3)).toEqual([[DoorState.CLOSING, 2], [DoorState.CLOSING, 7]]);
+      expect(stopped).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves moveToIntermediateAndWait on STOPPED', async () => {
+      const { client, receive } = createConnectedClient();
+      receive(DoorState.CLOSED);
+
+      const promise = client.moveToIntermediateAndWait({ timeout: 1000 });
+      receive(DoorState.OPENING);
+      receive(DoorState.STOPPED);
+
+      await expect(promise).resolves.toMatchObject({ doorState: DoorState.STOPPED });
+    });
+
+    it('rejects with DoorTimeoutError if the state is not reached', async () => {
+      const { client, receive } = createConnectedClient();
+      receive(DoorState.CLOSED);
+      const listeners = client.listenerCount('status');
+
+      await expect(client.openAndWait({ timeout: 10 })).rejects.toBeInstanceOf(DoorTimeoutError);
+      expect(client.listenerCount('status')).toBe(listeners);
+    });
+
+    it('rejects with DoorDisconnectedError on disconnect', async () => {
+      const { client, receive } = createConnectedClient();
+      receive(DoorState.CLOSED);
+
+      const promise = client.openAndWait({ timeout: 1000 });
+      receive(DoorState.OPENING);
+      client.emit('disconnected');
+
+      await expect(promise).rejects.toBeInstanceOf(DoorDisconnectedError);
+    });
+
+    it('rejects with NOT_CONNECTED when not connected', async () => {
+      const client = new MaveoClient({
+        username: 'user@example.com',
+        password: 'pass',
+        deviceId: 'device123',
+      });
+
+      const opening = client.open();
+      const lighting = client.lightOn();
+
+      await expect(opening).rejects.toMatchObject({ code: 'NOT_CONNECTED' });
+      await expect(lighting).rejects.toMatchObject({ code: 'NOT_CONNECTED' });
+    });
+
+    it('rejects instead of throwing when not connected', async () => {
+      const client = new MaveoClient({
+        username: 'user@example.com',
+        password: 'pass',
+        deviceId: 'device123',
+      });
+
+      const opening = client.openAndWait();
+      const lighting = client.lightOnAndWait();
+
+      await expect(opening).rejects.toMatchObject({ code: 'NOT_CONNECTED' });
+      await expect(lighting).rejects.toMatchObject({ code: 'NOT_CONNECTED' });
+    });
+
+    it('rejects right away when the command queue drops the command', async () => {
+      const { client, receive } = createConnectedClient({ commandQueue: { burst: 1, maxSize: 1 } });
+      receive(DoorState.CLOSED);
+      client.lightOn();
+
+      // The open command waits for the rate limit, so the queue is full
+      const opening = client.openAndWait({ timeout: 60000 });
+      await expect(client.lightOffAndWait({ timeout: 60000 })).rejects.toMatchObject({ code: 'COMMAND_NOT_SENT', outcome: 'dropped' });
+
+      client.close();
+      await expect(opening).rejects.toBeInstanceOf(CommandNotSentError);
+      await client.disconnect();
+    });
+  });
+
+  describe('light state', () => {
+    it('parses the light and keeps unknown fields', () => {
+      const { client, receiveMessage } = createConnectedClient();
+      expect(client.getLightState()).toBeNull();
+
+      receiveMessage({ StoA_s: DoorState.CLOSED, StoA_l: 1, StoA_x: 'extra' });
+
+      expect(client.getLightState()).toBe(true);
+      expect(client.getCurrentStatus()).toMatchObject({ doorState: DoorState.CLOSED, lightOn: true, raw: { StoA_x: 'extra' } });
+    });
+
+    it('emits lightChanged only when the light changes', () => {
+      const { client, receiveMessage } = createConnectedClient();
+      const changes: boolean[] = [];
+      client.on('lightChanged', light => changes.push(light.lightOn));
+
+      receiveMessage({ StoA_l: 0 });
+      receiveMessage({ StoA_l: 0 });
+      receiveMessage({ StoA_l: 1 });
+
+      expect(changes).toEqual([false, true]);
+    });
+
+    it('updates the cached status on light-only messages', () => {
+      const { client, receive, receiveMessage } = createConnectedClient();
+      receive(DoorState.OPEN);
+
+      receiveMessage({ StoA_l: 1 });
+
+      expect(client.getCurrentStatus()).toMatchObject({ doorState: DoorState.OPEN, lightOn: true });
+    });
+
+    it('resolves lightOnAndWait once the device reports the light on', async () => {
+      const { client, mqtt, receiveMessage } = createConnectedClient();
+      receiveMessage({ StoA_l: 0 });
+
+      const promise = client.lightOnAndWait({ timeout: 1000 });
+      expect(mqtt.sendLightCommand).toHaveBeenCalledWith(LightCommand.ON, 'device123');
+      receiveMessage({ StoA_l: 1 });
+
+      await expect(promise).resolves.toEqual({ device: 'device123', lightOn: true });
+    });
+
+    it('rejects with LightTimeoutError if the light is not confirmed', async () => {
+      const { client } = createConnectedClient();
+      const listeners = client.listenerCount('lightChanged');
+
+      await expect(client.lightOffAndWait({ timeout: 10 })).rejects.toBeInstanceOf(LightTimeoutError);
+      expect(client.listenerCount('lightChanged')).toBe(listeners);
+    });
+  });
+
+  describe('status events', () => {
+    it('emits statusReceived for every status and stateChanged only on changes', () => {
+      const { client, receive } = createConnectedClient();
+      const received: DoorState[] = [];
+      const changes: StateChange[] = [];
+      client.on('statusReceived', status => received.push(status.doorState));
+      client.on('stateChanged', change => changes.push(change));
+
+      receive(DoorState.CLOSED);
+      receive(DoorState.CLOSED);
+      receive(DoorState.OPENING);
+      receive(DoorState.OPENING);
+
+      expect(received).toEqual([DoorState.CLOSED, DoorState.CLOSED, DoorState.OPENING, DoorState.OPENING]);
+      expect(changes.map(({ previous, current }) => [previous?.doorState ?? null, current.doorState])).toEqual([
+        [null, DoorState.CLOSED],
+        [DoorState.CLOSED, DoorState.OPENING],
+      ]);
+    });
+
+    it('emits transition events', () => {
+      const { client, receive } = createConnectedClient();
+      const events: string[] = [];
+      for (const event of ['movementStarted', 'movementStopped', 'opened', 'closed'] as const) {
+        client.on(event, status => events.push(`${event}:${DoorState[status.doorState]}`));
+      }
+
+      // The first status only makes the state known
+      receive(DoorState.OPEN);
+      receive(DoorState.CLOSING);
+      receive(DoorState.OPENING);
+      receive(DoorState.STOPPED);
+      receive(DoorState.CLOSING);
+      receive(DoorState.CLOSED);
+
+      expect(events).toEqual([
+        'movementStarted:CLOSING',
+        'movementStarted:OPENING',
+        'movementStopped:STOPPED',
+        'movementStarted:CLOSING',
+        'movementStopped:CLOSED',
+        'closed:CLOSED',
+      ]);
+    });
+
+    it('asks the device for a fresh status on request', async () => {
+      const { client, mqtt, receive } = createConnectedClient();
+      receive(DoorState.CLOSED);
+
+      const promise = client.getStatus({ fresh: true });
+      expect(mqtt.requestStatus).toHaveBeenCalledWith('device123');
+      receive(DoorState.OPEN);
+
+      await expect(promise).resolves.toMatchObject({ doorState: DoorState.OPEN });
+    });
+  });
+
+  describe('health monitoring', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('timestamps every status', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-05-01T12:00:00Z'));
+      const { client, receive } = createConnectedClient();
+
+      receive(DoorState.OPEN);
+
+      expect(client.getCurrentStatus()?.timestamp).toEqual(new Date('2024-05-01T12:00:00Z'));
+    });
+
+    it('re-queries a status older than maxStatusAge', async () => {
+      vi.useFakeTimers();
+      const { client, mqtt, receive } = createConnectedClient({ maxStatusAge: 5000 });
+      receive(DoorState.CLOSED);
+
+      await expect(client.getStatus()).resolves.toMatchObject({ doorState: DoorState.CLOSED });
+      expect(mqtt.requestStatus).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(6000);
+      const promise = client.getStatus();
+      expect(mqtt.requestStatus).toHaveBeenCalledWith('device123');
+      receive(DoorState.OPEN);
+
+      await expect(promise).resolves.toMatchObject({ doorState: DoorState.OPEN });
+    });
+
+    it('measures the round-trip latency of status requests', () => {
+      vi.useFakeTimers();
+      const { client, receive } = createConnectedClient();
+
+      client.requestStatus();
+      vi.advanceTimersByTime(250);
+      receive(DoorState.CLOSED);
+
+      expect(client.getHealth()).toMatchObject({ device: 'device123', latency: 250, lastMessageAt: new Date() });
+    });
+
+    it('emits deviceUnresponsive after unanswered polls and deviceResponsive on the next message', () => {
+      vi.useFakeTimers();
+      const { client, mqtt, receive } = createConnectedClient({
+        statusPollInterval: 30000,
+        statusTimeout: 5000,
+        maxMissedPolls: 2,
+      });
+      const events: Array<[string, DeviceHealth]> = [];
+      client.on('deviceUnresponsive', health => events.push(['unresponsive', health]));
+      client.on('deviceResponsive', health => events.push(['responsive', health]));
+      client.emit('connected');
+
+      vi.advanceTimersByTime(35000);
+      expect(mqtt.requestStatus).toHaveBeenCalledTimes(1);
+      expect(events).toEqual([]);
+
+      vi.advanceTimersByTime(30000);
+      expect(events).toEqual([['unresponsive', expect.objectContaining({ responsive: false, missedPolls: 2 })]]);
+      expect(client.getHealth().responsive).toBe(false);
+
+      receive(DoorState.CLOSED);
+      expect(events[1]).toEqual(['responsive', expect.objectContaining({ responsive: true, missedPolls: 0 })]);
+    });
+
+    it('counts reconnects and stops polling while disconnected', () => {
+      vi.useFakeTimers();
+      const { client, mqtt } = createConnectedClient({ statusPollInterval: 30000 });
+
+      client.emit('connected');
+      client.emit('disconnected');
+      client.emit('connected');
+      expect(client.getHealth().reconnects).toBe(1);
+
+      client.emit('disconnected');
+      vi.advanceTimersByTime(90000);
+      expect(mqtt.requestStatus).not.toHaveBeenCalled();
+    });
+  });
 });
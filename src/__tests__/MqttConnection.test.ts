@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import type { MqttClient } from 'mqtt';
+import { MqttConnection } from '../mqtt/MqttConnection';
+import { ExponentialBackoffStrategy } from '../mqtt/ReconnectStrategy';
+import { CognitoAuth } from '../auth/CognitoAuth';
+import { AuthError, MaveoError } from '../errors';
+
+const MINUTE = 60 * 1000;
+
+// A client that connects right away and accepts every subscription
+function createClientStub() {
+  const client = Object.assign(new EventEmitter(), {
+    connected: true,
+    subscribe: vi.fn(),
+    publish: vi.fn(),
+    end: vi.fn((_force?: boolean, _options?: object, callback?: () => void) => callback?.()),
+  });
+  Promise.resolve().then(() => client.emit('connect'));
+  return client as unknown as MqttClient;
+}
+
+function setup(refreshError: Error) {
+  const expiration = new Date(Date.now() + 60 * MINUTE);
+  const auth = {
+    getCredentials: () => ({ expiration }),
+    isCredentialsExpired: () => false,
+    refresh: vi.fn().mockRejectedValue(refreshError),
+  };
+  const connection = new MqttConnection(auth as unknown as CognitoAuth, 'device123', {
+    credentialRefreshMargin: 5 * MINUTE,
+    reconnectStrategy: new ExponentialBackoffStrategy({ baseDelay: 1000, maxAttempts: Infinity, jitter: 0, throttleDelay: 10 * MINUTE }),
+    transport: { createClient: createClientStub },
+  });
+  const errors: MaveoError[] = [];
+  connection.on('error', error => errors.push(error));
+
+  return { auth, connection, errors };
+}
+
+describe('MqttConnection', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('credential renewal', () => {
+    it('backs off after a failed renewal while the old socket is up', async () => {
+      vi.useFakeTimers();
+      const { auth, connection, errors } = setup(new AuthError('AUTH_FAILED', 'Network error'));
+      await connection.connect();
+
+      await vi.advanceTimersByTimeAsync(55 * MINUTE);
+      expect(auth.refresh).toHaveBeenCalledTimes(1);
+
+      const retries: number[] = [];
+      for (const delay of [999, 1, 1999, 1, 3999, 1]) {
+        await vi.advanceTimersByTimeAsync(delay);
+        retries.push(auth.refresh.mock.calls.length);
+      }
+
+      expect(retries).toEqual([1, 2, 2, 3, 3, 4]);
+      expect(errors).toHaveLength(4);
+      expect(connection.isConnected()).toBe(true);
+      await connection.disconnect();
+    });
+
+    it('stops renewing when throttled until the credentials expire', async () => {
+      vi.useFakeTimers();
+      const { auth, connection } = setup(new AuthError('AUTH_THROTTLED', 'Rate exceeded'));
+      await connection.connect();
+
+      await vi.advanceTimersByTimeAsync(55 * MINUTE);
+      // The throttle delay of 10 minutes ends after the credentials expire
+      await vi.advanceTimersByTimeAsync(30 * MINUTE);
+
+      expect(auth.refresh).toHaveBeenCalledTimes(1);
+      await connection.disconnect();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { NetworkInterfaceInfo } from 'os';
+import { NetworkWatcher } from '../mqtt/NetworkWatcher';
+import { ConfigError } from '../errors';
+
+const interfaces = vi.hoisted(() => ({ current: {} as Record<string, Partial<NetworkInterfaceInfo>[]> }));
+
+vi.mock('os', async importOriginal => ({
+  ...await importOriginal<typeof import('os')>(),
+  networkInterfaces: () => interfaces.current,
+}));
+
+function setAddresses(addresses: Record<string, string>) {
+  interfaces.current = { lo: [{ address: '127.0.0.1', internal: true }] };
+  for (const [name, address] of Object.entries(addresses)) {
+    interfaces.current[name] = [{ address, internal: false }];
+  }
+}
+
+describe('NetworkWatcher', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('emits networkChanged when an external address changes', () => {
+    vi.useFakeTimers();
+    setAddresses({ wlan0: '192.168.1.20' });
+    const watcher = new NetworkWatcher({ checkInterval: 1000 });
+    const changes: string[][] = [];
+    watcher.on('networkChanged', addresses => changes.push(addresses));
+    watcher.start();
+
+    vi.advanceTimersByTime(3000);
+    expect(changes).toEqual([]);
+
+    setAddresses({ eth0: '10.0.0.5' });
+    vi.advanceTimersByTime(1000);
+    expect(changes).toEqual([['eth0/10.0.0.5']]);
+
+    watcher.stop();
+  });
+
+  it('emits resumed when the clock jumps ahead', () => {
+    vi.useFakeTimers();
+    setAddresses({ wlan0: '192.168.1.20' });
+    const watcher = new NetworkWatcher({ checkInterval: 1000, clockJumpThreshold: 30000 });
+    const resumed = vi.fn();
+    const changed = vi.fn();
+    watcher.on('resumed', resumed);
+    watcher.on('networkChanged', changed);
+    watcher.start();
+
+    // The timer does not fire while the machine sleeps
+    vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+    setAddresses({ wlan0: '192.168.1.21' });
+    vi.advanceTimersByTime(1000);
+
+    expect(resumed).toHaveBeenCalledWith(60 * 60 * 1000);
+    expect(changed).not.toHaveBeenCalled();
+
+    watcher.stop();
+  });
+
+  it('ignores interfaces if disabled', () => {
+    vi.useFakeTimers();
+    setAddresses({ wlan0: '192.168.1.20' });
+    const watcher = new NetworkWatcher({ checkInterval: 1000, interfaces: false });
+    const changed = vi.fn();
+    watcher.on('networkChanged', changed);
+    watcher.start();
+
+    setAddresses({});
+    vi.advanceTimersByTime(5000);
+
+    expect(changed).not.toHaveBeenCalled();
+    watcher.stop();
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => new NetworkWatcher({ checkInterval: 0 })).toThrow(ConfigError);
+    expect(() => new NetworkWatcher({ clockJumpThreshold: -1 })).toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OpenDoorWatchdog, OpenDoorWatchdogOptions } from '../watchdog/OpenDoorWatchdog';
+import { ConfigError, DoorTimeoutError } from '../errors';
+import { DoorCommand, DoorState, LightCommand } from '../types';
+import { createConnectedClient } from './helpers/connectedClient';
+
+const MINUTE = 60 * 1000;
+
+describe('OpenDoorWatchdog', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function setup(options: Partial<OpenDoorWatchdogOptions> = {}) {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 4, 1, 12, 0));
+
+    const connected = createConnectedClient();
+    const watchdog = new OpenDoorWatchdog(connected.client, {
+      maxOpenDuration: 10 * MINUTE,
+      ...options
+    });
+    watchdog.start();
+
+    return { ...connected, watchdog };
+  }
+
+  it('should reject invalid options', () => {
+    const { client } = createConnectedClient();
+
+    expect(() => new OpenDoorWatchdog(client, { maxOpenDuration: 0 })).toThrow(ConfigError);
+    expect(() => new OpenDoorWatchdog(client, {
+      maxOpenDuration: MINUTE,
+      quietHours: [{ start: '22:00', end: '6:00' }]
+    })).toThrow(ConfigError);
+  });
+
+  it('should emit openTooLong once the door stayed open for maxOpenDuration', () => {
+    const { watchdog, receive } = setup();
+    const openTooLong = vi.fn();
+    watchdog.on('openTooLong', openTooLong);
+
+    receive(DoorState.OPEN);
+    vi.advanceTimersByTime(10 * MINUTE - 1);
+    expect(openTooLong).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(openTooLong).toHaveBeenCalledTimes(1);
+    expect(openTooLong.mock.calls[0][0]).toMatchObject({
+      device: 'device123',
+      openSince: new Date(2024, 4, 1, 12, 0),
+      status: { doorState: DoorState.OPEN }
+    });
+  });
+
+  it('should not alert when the door closes in time', () => {
+    const { watchdog, receive } = setup();
+    const openTooLong = vi.fn();
+    watchdog.on('openTooLong', openTooLong);
+
+    receive(DoorState.OPEN);
+    vi.advanceTimersByTime(5 * MINUTE);
+    receive(DoorState.CLOSED);
+    vi.advanceTimersByTime(20 * MINUTE);
+
+    expect(openTooLong).not.toHaveBeenCalled();
+  });
+
+  it('should flash the light and auto-close after the grace period', async () => {
+    const { watchdog, mqtt, receive } = setup({ autoClose: true, gracePeriod: MINUTE, warningFlashes: 2 });
+    const attempted = vi.fn();
+    watchdog.on('autoCloseAttempted', attempted);
+    mqtt.sendDoorCommand.mockImplementation(() => setTimeout(() => receive(DoorState.CLOSED), 0));
+
+    receive(DoorState.OPEN);
+    await vi.advanceTimersByTimeAsync(10 * MINUTE + 4000);
+
+    expect(mqtt.sendLightCommand.mock.calls.map(call => call[0])).toEqual([
+      LightCommand.ON, LightCommand.OFF, LightCommand.ON, LightCommand.OFF
+    ]);
+    expect(attempted).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(MINUTE);
+
+    expect(attempted).toHaveBeenCalledTimes(1);
+    expect(mqtt.sendDoorCommand).toHaveBeenCalledWith(DoorCommand.CLOSE, 'device123');
+  });
+
+  it('should report commands sent with the watchdog source', async () => {
+    const { client, watchdog, receive } = setup({ autoClose: true, gracePeriod: MINUTE, warningFlashes: 1 });
+    const command = vi.fn();
+    client.on('command', command);
+
+    receive(DoorState.OPEN);
+    await vi.advanceTimersByTimeAsync(11 * MINUTE);
+
+    expect(command).toHaveBeenCalledTimes(3);
+    expect(command.mock.calls.every(([event]) => event.source === 'watchdog')).toBe(true);
+    watchdog.stop();
+  });
+
+  it('should cancel a pending auto-close on a manual command', async () => {
+    const { client, watchdog, mqtt, receive } = setup({ autoClose: true, gracePeriod: MINUTE });
+    const cancelled = vi.fn();
+    const attempted = vi.fn();
+    watchdog.on('autoCloseCancelled', cancelled);
+    watchdog.on('autoCloseAttempted', attempted);
+
+    receive(DoorState.OPEN);
+    await vi.advanceTimersByTimeAsync(10 * MINUTE + 30000);
+    client.lightOn();
+    await vi.advanceTimersByTimeAsync(MINUTE);
+
+    expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ device: 'device123' }), 'command');
+    expect(attempted).not.toHaveBeenCalled();
+    expect(mqtt.sendDoorCommand).not.toHaveBeenCalled();
+
+    // The timer restarts with the manual command at 10:30
+    await vi.advanceTimersByTimeAsync(9 * MINUTE);
+    expect(attempted).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(attempted).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel a pending auto-close when the door state changes', async () => {
+    const { watchdog, receive } = setup({ autoClose: true, gracePeriod: MINUTE });
+    const cancelled = vi.fn();
+    const attempted = vi.fn();
+    watchdog.on('autoCloseCancelled', cancelled);
+    watchdog.on('autoCloseAttempted', attempted);
+
+    receive(DoorState.OPEN);
+    await vi.advanceTimersByTimeAsync(10 * MINUTE + 30000);
+    receive(DoorState.CLOSING);
+    receive(DoorState.STOPPED);
+    await vi.advanceTimersByTimeAsync(MINUTE);
+
+    expect(cancelled).toHaveBeenCalledWith(expect.anything(), 'stateChanged');
+    expect(attempted).not.toHaveBeenCalled();
+  });
+
+  it('should emit autoCloseFailed when the door does not close', async () => {
+    const { watchdog, receive } = setup({ autoClose: true, gracePeriod: MINUTE, warningFlashes: 0 });
+    const failed = vi.fn();
+    watchdog.on('autoCloseFailed', failed);
+
+    receive(DoorState.OPEN);
+    await vi.advanceTimersByTimeAsync(11 * MINUTE);
+    await vi.advanceTimersByTimeAsync(2 * MINUTE);
+
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(failed.mock.calls[0][1]).toBeInstanceOf(DoorTimeoutError);
+  });
+
+  it('should emit autoCloseFailed when the connection is down', async () => {
+    const { watchdog, mqtt, receive } = setup({ autoClose: true, gracePeriod: MINUTE, warningFlashes: 0 });
+    const failed = vi.fn();
+    watchdog.on('autoCloseFailed', failed);
+
+    receive(DoorState.OPEN);
+    mqtt.isConnected.mockReturnValue(false);
+    await vi.advanceTimersByTimeAsync(11 * MINUTE);
+
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(failed.mock.calls[0][1]).toMatchObject({ code: 'NOT_CONNECTED' });
+    expect(mqtt.sendDoorCommand).not.toHaveBeenCalled();
+
+    // Tries again once the door stayed open for another maxOpenDuration
+    mqtt.isConnected.mockReturnValue(true);
+    await vi.advanceTimersByTimeAsync(11 * MINUTE);
+    expect(mqtt.sendDoorCommand).toHaveBeenCalledWith(DoorCommand.CLOSE, 'device123');
+  });
+
+  it('should postpone warnings and auto-close until quiet hours end', async () => {
+    const { watchdog, mqtt, receive } = setup({
+      autoClose: true,
+      gracePeriod: MINUTE,
+      quietHours: [{ start: '12:05', end: '13:00' }]
+    });
+    const openTooLong = vi.fn();
+    const attempted = vi.fn();
+    watchdog.on('openTooLong', openTooLong);
+    watchdog.on('autoCloseAttempted', attempted);
+
+    receive(DoorState.OPEN);
+    await vi.advanceTimersByTimeAsync(10 * MINUTE);
+
+    expect(watchdog.isQuietTime()).toBe(true);
+    expect(openTooLong).toHaveBeenCalledTimes(1);
+    expect(mqtt.sendLightCommand).not.toHaveBeenCalled();
+
+    // 12:10 -> 13:00, then the grace period
+    await vi.advanceTimersByTimeAsync(50 * MINUTE + 1000);
+    expect(mqtt.sendLightCommand).toHaveBeenCalled();
+    expect(attempted).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(attempted).toHaveBeenCalledTimes(1);
+  });
+
+  it('should handle quiet hours spanning midnight', () => {
+    const { watchdog } = setup({ quietHours: [{ start: '22:00', end: '06:00' }] });
+
+    expect(watchdog.isQuietTime(new Date(2024, 4, 1, 23, 30))).toBe(true);
+    expect(watchdog.isQuietTime(new Date(2024, 4, 2, 5, 59))).toBe(true);
+    expect(watchdog.isQuietTime(new Date(2024, 4, 2, 6, 0))).toBe(false);
+    expect(watchdog.isQuietTime(new Date(2024, 4, 1, 12, 0))).toBe(false);
+  });
+
+  it('should stop watching after stop()', () => {
+    const { watchdog, receive } = setup();
+    const openTooLong = vi.fn();
+    watchdog.on('openTooLong', openTooLong);
+
+    receive(DoorState.OPEN);
+    watchdog.stop();
+    vi.advanceTimersByTime(20 * MINUTE);
+
+    expect(openTooLong).not.toHaveBeenCalled();
+  });
+});
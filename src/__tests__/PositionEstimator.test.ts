@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { PositionEstimator } from '../position/PositionEstimator';
+import { DoorState } from '../types';
+import { ConfigError } from '../errors';
+
+const calibration = { openTime: 10000, closeTime: 20000 };
+
+describe('PositionEstimator', () => {
+  it('knows open and closed without a calibration', () => {
+    const estimator = new PositionEstimator();
+
+    expect(estimator.getPosition()).toBeNull();
+    expect(estimator.update(DoorState.OPEN, 0)).toBe(100);
+    expect(estimator.update(DoorState.CLOSED, 1000)).toBe(0);
+    expect(estimator.update(DoorState.OPENING, 2000)).toBeNull();
+    expect(estimator.update(DoorState.STOPPED, 3000)).toBeNull();
+  });
+
+  it('follows a moving door with the calibrated travel times', () => {
+    const estimator = new PositionEstimator(calibration);
+    estimator.update(DoorState.CLOSED, 0);
+
+    expect(estimator.update(DoorState.OPENING, 1000)).toBe(0);
+    expect(estimator.getPosition(3500)).toBe(25);
+    // Repeated reports do not restart the movement
+    expect(estimator.update(DoorState.OPENING, 4000)).toBe(30);
+    expect(estimator.getPosition(60000)).toBe(100);
+  });
+
+  it('keeps the position after a stop and continues from there', () => {
+    const estimator = new PositionEstimator(calibration);
+    estimator.update(DoorState.OPEN, 0);
+    estimator.update(DoorState.CLOSING, 0);
+
+    expect(estimator.update(DoorState.STOPPED, 5000)).toBe(75);
+    expect(estimator.getPosition(100000)).toBe(75);
+
+    estimator.update(DoorState.OPENING, 100000);
+    expect(estimator.getPosition(101000)).toBe(85);
+  });
+
+  it('forgets the position on reset', () => {
+    const estimator = new PositionEstimator(calibration);
+    estimator.update(DoorState.OPEN, 0);
+
+    estimator.reset();
+
+    expect(estimator.getPosition()).toBeNull();
+    expect(estimator.update(DoorState.CLOSING, 0)).toBeNull();
+  });
+
+  it('rejects travel times that are not positive', () => {
+    expect(() => new PositionEstimator({ openTime: 0, closeTime: 1000 })).toThrow(ConfigError);
+    expect(() => new PositionEstimator(calibration).setCalibration({ openTime: 1000, closeTime: -1 })).toThrow(ConfigError);
+  });
+});
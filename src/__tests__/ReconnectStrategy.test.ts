@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ExponentialBackoffStrategy, isThrottlingError } from '../mqtt/ReconnectStrategy';
+import { AuthError, ConfigError, ConnectionError } from '../errors';
+
+const attempt = (n: number, throttled = false) => ({ attempt: n, error: null, throttled });
+
+describe('ExponentialBackoffStrategy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles the delay up to the cap', () => {
+    const strategy = new ExponentialBackoffStrategy({ baseDelay: 1000, maxDelay: 5000, jitter: 0 });
+
+    expect([1, 2, 3, 4, 5].map(n => strategy.nextDelay(attempt(n)))).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+
+  it('randomizes up to the jitter fraction of the delay', () => {
+    const strategy = new ExponentialBackoffStrategy({ baseDelay: 1000, jitter: 0.5 });
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(strategy.nextDelay(attempt(2))).toBe(2000);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(strategy.nextDelay(attempt(2))).toBe(1000);
+  });
+
+  it('gives up after maxAttempts', () => {
+    const strategy = new ExponentialBackoffStrategy({ maxAttempts: 2, jitter: 0 });
+
+    expect(strategy.nextDelay(attempt(2))).toBe(2000);
+    expect(strategy.nextDelay(attempt(3))).toBeNull();
+  });
+
+  it('retries forever with Infinity attempts', () => {
+    const strategy = new ExponentialBackoffStrategy({ maxAttempts: Infinity, maxDelay: 60000, jitter: 0 });
+
+    expect(strategy.nextDelay(attempt(10000))).toBe(60000);
+  });
+
+  it('waits at least the throttle delay after throttling', () => {
+    const strategy = new ExponentialBackoffStrategy({ jitter: 0, throttleDelay: 600000 });
+
+    expect(strategy.nextDelay(attempt(1, true))).toBe(600000);
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => new ExponentialBackoffStrategy({ baseDelay: -1 })).toThrow(ConfigError);
+    expect(() => new ExponentialBackoffStrategy({ baseDelay: 5000, maxDelay: 1000 })).toThrow(ConfigError);
+    expect(() => new ExponentialBackoffStrategy({ jitter: 2 })).toThrow(ConfigError);
+    expect(() => new ExponentialBackoffStrategy({ maxAttempts: NaN })).toThrow(ConfigError);
+  });
+});
+
+describe('isThrottlingError', () => {
+  it('detects Cognito throttling', () => {
+    expect(isThrottlingError(new AuthError('AUTH_THROTTLED', 'Rate exceeded'))).toBe(true);
+    expect(isThrottlingError(new AuthError('AUTH_FAILED', 'Failed', { awsErrorType: 'TooManyRequestsException' }))).toBe(true);
+  });
+
+  it('detects throttling in the cause of a connection error', () => {
+    const error = new ConnectionError('CONNECT_FAILED', 'Connection failed', { cause: new Error('Throttling: too many connects') });
+
+    expect(isThrottlingError(error)).toBe(true);
+  });
+
+  it('ignores other errors', () => {
+    expect(isThrottlingError(new ConnectionError('CONNECTION_ERROR', 'connect ECONNREFUSED'))).toBe(false);
+    expect(isThrottlingError(null)).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MaveoClient } from '../MaveoClient';
+import { MaveoSimulator } from '../simulator/MaveoSimulator';
+import { ReplayTransport } from '../capture/ReplayTransport';
+import { Capture, parseCapture, readCapture } from '../capture/format';
+import { DoorState, MaveoConfig, MaveoStatus, ProtocolAnomaly } from '../types';
+import { ConfigError, MaveoError, StatusTimeoutError } from '../errors';
+
+const DEVICE_ID = 'garage';
+
+const running: Array<{ stop: () => void | Promise<void> } | { disconnect: () => Promise<void> }> = [];
+
+// Sessions recorded with the sniffer, trimmed to the relevant part
+async function loadCapture(name: string): Promise<Capture> {
+  const [capture] = await readCapture(path.join(__dirname, 'fixtures', 'captures', `${name}.jsonl`));
+  return capture;
+}
+
+function replay(capture: Capture, config: Partial<MaveoConfig> = {}) {
+  const transport = new ReplayTransport(capture, { speed: 10 });
+  const client = new MaveoClient({
+    username: 'user@example.com',
+    password: 'password',
+    deviceId: DEVICE_ID,
+    connectTimeout: 1000,
+    statusTimeout: 200,
+    baseReconnectDelay: 10,
+    transport,
+    ...config,
+  });
+  running.push(transport, client);
+
+  const statuses: MaveoStatus[] = [];
+  const errors: MaveoError[] = [];
+  client.on('status', status => statuses.push(status));
+  client.on('error', error => errors.push(error));
+  return { transport, client, statuses, errors };
+}
+
+function waitForStatus(client: MaveoClient, doorState: DoorState): Promise<MaveoStatus> {
+  return new Promise(resolve => client.on('status', status => {
+    if (status.doorState === doorState) resolve(status);
+  }));
+}
+
+describe('parseCapture', () => {
+  it('splits a file into sessions and skips a partial last line', () => {
+    const captures = parseCapture([
+      '{"format":"maveo-capture","version":1,"startedAt":"2024-06-01T10:00:00.000Z"}',
+      '{"at":0,"type":"connected"}',
+      '{"format":"maveo-capture","version":1,"startedAt":"2024-06-01T11:00:00.000Z"}',
+      '{"at":0,"type":"received","topic":"garage/rsp","payload":"{\\"StoA_s\\":4}"}',
+      '{"at":20,"type":"rec',
+    ].join('\n'));
+
+    expect(captures.map(capture => capture.entries.map(entry => entry.type))).toEqual([['connected'], ['received']]);
+  });
+
+  it('rejects unknown formats and entries before the header', () => {
+    expect(() => parseCapture('{"format":"maveo-capture","version":2,"startedAt":""}')).toThrow(ConfigError);
+    expect(() => parseCapture('{"at":0,"type":"connected"}')).toThrow('entry before the header');
+  });
+});
+
+describe('ReplayTransport', () => {
+  afterEach(async () => {
+    for (const item of running.splice(0).reverse()) {
+      await ('disconnect' in item ? item.disconnect() : item.stop());
+    }
+  });
+
+  it('rejects an invalid speed', async () => {
+    const capture = await loadCapture('odd-states');
+    expect(() => new ReplayTransport(capture, { speed: 0 })).toThrow(ConfigError);
+  });
+
+  it('replays unknown state values and broken payloads', async () => {
+    const { transport, client, statuses, errors } = replay(await loadCapture('odd-states'));
+    const anomalies: ProtocolAnomaly[] = [];
+    client.on('protocolAnomaly', anomaly => anomalies.push(anomaly));
+    const finished = new Promise<void>(resolve => transport.once('finished', resolve));
+
+    await client.connect();
+    await finished;
+
+    expect(statuses.map(status => status.doorState)).toEqual([DoorState.CLOSED, DoorState.CLOSED, DoorState.OPEN]);
+    expect(anomalies.map(anomaly => `${anomaly.field}=${anomaly.value}`)).toEqual(['StoA_s=7', 'StoA_l=2', 'StoA_t=21']);
+    expect(errors.map(error => error.code)).toEqual(['PROTOCOL_PARSE']);
+    expect(transport.getPublished().map(message => message.topic)).toEqual([`${DEVICE_ID}/cmd`]);
+  });
+
+  it('replays a status request the device never answered', async () => {
+    const { client } = replay(await loadCapture('status-timeout'));
+    const initial = waitForStatus(client, DoorState.CLOSED);
+
+    await client.connect();
+    await initial;
+
+    await expect(client.getStatus({ fresh: true })).rejects.toBeInstanceOf(StatusTimeoutError);
+  });
+
+  it('replays refused reconnection attempts', async () => {
+    const { client, statuses } = replay(await loadCapture('reconnect-storm'));
+    let connected = 0;
+    let reconnecting = 0;
+    client.on('connected', () => connected++);
+    client.on('reconnecting', () => reconnecting++);
+    const reopened = waitForStatus(client, DoorState.OPEN);
+
+    await client.connect();
+    await reopened;
+
+    expect(statuses.map(status => status.doorState)).toEqual([DoorState.CLOSED, DoorState.OPEN]);
+    expect(connected).toBe(2);
+    expect(reconnecting).toBe(3);
+  });
+
+  it('replays a session recorded against the simulator', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'maveo-replay-'));
+    const captureFile = path.join(dir, 'session.jsonl');
+
+    try {
+      const simulator = new MaveoSimulator({ devices: [{ deviceId: DEVICE_ID, travelTime: 100 }] });
+      await simulator.start();
+      running.push(simulator);
+      const recording = new MaveoClient({
+        username: 'user@example.com',
+        password: 'password',
+        deviceId: DEVICE_ID,
+        endpoint: simulator.getEndpointProfile(),
+        sniffer: { topics: [], captureFile },
+      });
+      const recorded: Array<DoorState | null> = [];
+      recording.on('status', status => recorded.push(status.doorState));
+      await recording.connect();
+      await recording.openAndWait({ timeout: 1000 });
+      await recording.disconnect();
+
+      const [capture] = await readCapture(captureFile);
+      const { transport, client, statuses } = replay(capture);
+      const finished = new Promise<void>(resolve => transport.once('finished', resolve));
+      await client.connect();
+      await finished;
+
+      expect(capture.entries[0]).toMatchObject({ type: 'connected' });
+      expect(statuses.map(status => status.doorState)).toEqual(recorded);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Scheduler, ScheduleDefinition } from '../scheduler/Scheduler';
+import { CronExpression } from '../scheduler/cron';
+import { fromWallTime, getSunTimes, toWallTime } from '../scheduler/time';
+import { ConfigError } from '../errors';
+import { DoorCommand, DoorState, LightCommand } from '../types';
+import { createConnectedClient } from './helpers/connectedClient';
+
+const wall = (text: string) => new Date(`${text}Z`);
+
+describe('CronExpression', () => {
+  it('should find the next matching minute', () => {
+    const cron = new CronExpression('0 22 * * *');
+
+    expect(cron.next(wall('2024-05-01T12:00:00'))).toEqual(wall('2024-05-01T22:00:00'));
+    expect(cron.next(wall('2024-05-01T22:00:00'))).toEqual(wall('2024-05-02T22:00:00'));
+  });
+
+  it('should support lists, ranges, steps and names', () => {
+    const cron = new CronExpression('*/15 8-10 * JAN,DEC mon-fri');
+
+    // 2024-01-06 is a Saturday
+    expect(cron.next(wall('2024-01-05T10:50:00'))).toEqual(wall('2024-01-08T08:00:00'));
+    expect(cron.next(wall('2024-01-08T08:00:00'))).toEqual(wall('2024-01-08T08:15:00'));
+    expect(cron.next(wall('2024-02-01T00:00:00'))).toEqual(wall('2024-12-02T08:00:00'));
+  });
+
+  it('should match either day of month or day of week when both are restricted', () => {
+    const cron = new CronExpression('0 12 13 * 5');
+
+    // 2024-05-10 is a Friday, the 13th is a Monday
+    expect(cron.next(wall('2024-05-09T00:00:00'))).toEqual(wall('2024-05-10T12:00:00'));
+    expect(cron.next(wall('2024-05-10T12:00:00'))).toEqual(wall('2024-05-13T12:00:00'));
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => new CronExpression('0 22 * *')).toThrow(ConfigError);
+    expect(() => new CronExpression('60 * * * *')).toThrow(ConfigError);
+    expect(() => new CronExpression('*/0 * * * *')).toThrow(ConfigError);
+    expect(() => new CronExpression('0 0 * FOO *')).toThrow(ConfigError);
+  });
+
+  it('should return null for dates that never exist', () => {
+    expect(new CronExpression('0 0 31 2 *').next(wall('2024-01-01T00:00:00'))).toBeNull();
+  });
+});
+
+describe('time zones and sun times', () => {
+  it('should convert between instants and wall-clock times', () => {
+    expect(toWallTime(new Date('2024-07-01T20:00:00Z'), 'Europe/Berlin')).toEqual(wall('2024-07-01T22:00:00'));
+    expect(fromWallTime(wall('2024-01-15T22:00:00'), 'Europe/Berlin')).toEqual(new Date('2024-01-15T21:00:00Z'));
+    expect(fromWallTime(wall('2024-07-01T18:00:00'), 'America/New_York')).toEqual(new Date('2024-07-01T22:00:00Z'));
+  });
+
+  it('should return null for wall-clock times skipped by daylight saving time', () => {
+    expect(fromWallTime(wall('2024-03-31T02:30:00'), 'Europe/Berlin')).toBeNull();
+  });
+
+  it('should calculate sunrise and sunset', () => {
+    const { sunrise, sunset } = getSunTimes(2024, 6, 21, { latitude: 52.52, longitude: 13.405 });
+
+    // Berlin: 04:43 and 21:33 CEST
+    expect(Math.abs(sunrise!.getTime() - Date.parse('2024-06-21T02:43:00Z'))).toBeLessThan(3 * 60000);
+    expect(Math.abs(sunset!.getTime() - Date.parse('2024-06-21T19:33:00Z'))).toBeLessThan(3 * 60000);
+  });
+
+  it('should return null during polar day', () => {
+    expect(getSunTimes(2024, 6, 21, { latitude: 78.2, longitude: 15.6 })).toEqual({ sunrise: null, sunset: null });
+  });
+});
+
+describe('Scheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function setup(now: string, schedules: ScheduleDefinition[], options = {}) {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(now));
+
+    const connected = createConnectedClient();
+    const scheduler = new Scheduler(connected.client, schedules, { timezone: 'Europe/Berlin', ...options });
+    return { ...connected, scheduler };
+  }
+
+  const closeAtNight: ScheduleDefinition = {
+    id: 'close-at-night',
+    trigger: { type: 'cron', expression: '0 22 * * *' },
+    action: { type: 'door', command: 'close' },
+    conditions: { doorState: ['OPEN', 'STOPPED'] },
+  };
+
+  it('should run cron schedules in their time zone', () => {
+    const { scheduler, mqtt, receive } = setup('2024-05-01T12:00:00Z', [closeAtNight]);
+    const executed = vi.fn();
+    scheduler.on('executed', executed);
+    receive(DoorState.OPEN);
+    scheduler.start();
+
+    // 22:00 CEST
+    expect(scheduler.getNextRun('close-at-night')).toEqual(new Date('2024-05-01T20:00:00Z'));
+
+    vi.advanceTimersByTime(8 * 3600000);
+
+    expect(mqtt.sendDoorCommand).toHaveBeenCalledWith(DoorCommand.CLOSE, 'device123');
+    expect(executed).toHaveBeenCalledWith(expect.objectContaining({
+      scheduleId: 'close-at-night',
+      scheduledAt: new Date('2024-05-01T20:00:00Z'),
+    }));
+    expect(scheduler.getNextRun('close-at-night')).toEqual(new Date('2024-05-02T20:00:00Z'));
+    expect(scheduler.getLastRuns()).toEqual({ 'close-at-night': '2024-05-01T20:00:00.000Z' });
+  });
+
+  it('should skip runs whose door state condition does not match', () => {
+    const { scheduler, mqtt, receive } = setup('2024-05-01T12:00:00Z', [closeAtNight]);
+    const skipped = vi.fn();
+    scheduler.on('skipped', skipped);
+    receive(DoorState.CLOSED);
+    scheduler.start();
+
+    vi.advanceTimersByTime(8 * 3600000);
+
+    expect(mqtt.sendDoorCommand).not.toHaveBeenCalled();
+    expect(skipped).toHaveBeenCalledWith(expect.objectContaining({ scheduleId: 'close-at-night' }), 'condition');
+  });
+
+  it('should report failed commands', async () => {
+    const { scheduler, client } = setup('2024-05-01T12:00:00Z', [{
+      id: 'light',
+      trigger: { type: 'once', at: '2024-05-01T15:00' },
+      action: { type: 'light', command: 'on' },
+    }]);
+    const account = (client as unknown as { account: { getConnection: () => unknown } }).account;
+    account.getConnection = () => null;
+    const executed = vi.fn();
+    const failed = vi.fn();
+    scheduler.on('executed', executed);
+    scheduler.on('failed', failed);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(3 * 3600000);
+
+    expect(executed).toHaveBeenCalledTimes(1);
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(failed.mock.calls[0][1].code).toBe('NOT_CONNECTED');
+  });
+
+  it('should turn the light off after the duration', () => {
+    const { scheduler, mqtt } = setup('2024-06-21T12:00:00Z', [{
+      id: 'sunset-light',
+      trigger: { type: 'sun', event: 'sunset' },
+      action: { type: 'light', command: 'on', duration: 10 * 60000 },
+    }], { location: { latitude: 52.52, longitude: 13.405 } });
+    scheduler.start();
+
+    const sunset = scheduler.getNextRun('sunset-light')!;
+    expect(Math.abs(sunset.getTime() - Date.parse('2024-06-21T19:33:00Z'))).toBeLessThan(3 * 60000);
+
+    vi.advanceTimersByTime(sunset.getTime() - Date.now());
+    expect(mqtt.sendLightCommand.mock.calls.map(call => call[0])).toEqual([LightCommand.ON]);
+
+    vi.advanceTimersByTime(10 * 60000);
+    expect(mqtt.sendLightCommand.mock.calls.map(call => call[0])).toEqual([LightCommand.ON, LightCommand.OFF]);
+  });
+
+  it('should skip runs missed during downtime by default', () => {
+    const { scheduler, mqtt, receive } = setup('2024-05-02T08:00:00Z', [closeAtNight], {
+      lastRuns: { 'close-at-night': '2024-04-30T20:00:00.000Z' }
+    });
+    const skipped = vi.fn();
+    scheduler.on('skipped', skipped);
+    receive(DoorState.OPEN);
+    scheduler.start();
+
+    expect(mqtt.sendDoorCommand).not.toHaveBeenCalled();
+    expect(skipped).toHaveBeenCalledTimes(1);
+    expect(skipped).toHaveBeenCalledWith(
+      expect.objectContaining({ scheduledAt: new Date('2024-05-01T20:00:00Z') }),
+      'missed'
+    );
+  });
+
+  it('should run the latest missed run once with runLatest', () => {
+    const { scheduler, mqtt, receive } = setup('2024-05-03T08:00:00Z', [{ ...closeAtNight, missedRuns: 'runLatest' }], {
+      lastRuns: { 'close-at-night': '2024-04-30T20:00:00.000Z' }
+    });
+    const executed = vi.fn();
+    scheduler.on('executed', executed);
+    receive(DoorState.OPEN);
+    scheduler.start();
+
+    expect(mqtt.sendDoorCommand).toHaveBeenCalledTimes(1);
+    expect(executed).toHaveBeenCalledWith(expect.objectContaining({ scheduledAt: new Date('2024-05-02T20:00:00Z') }));
+  });
+
+  it('should catch up when a timer fires late', () => {
+    const { scheduler, mqtt, receive } = setup('2024-05-01T19:59:00Z', [{ ...closeAtNight, missedRuns: 'runLatest' }]);
+    const executed = vi.fn();
+    scheduler.on('executed', executed);
+    receive(DoorState.OPEN);
+    scheduler.start();
+
+    // Like a laptop waking up two days later
+    vi.setSystemTime(new Date('2024-05-03T21:00:00Z'));
+    vi.advanceTimersByTime(60000);
+
+    expect(mqtt.sendDoorCommand).toHaveBeenCalledTimes(1);
+    expect(executed.mock.calls[0][0].scheduledAt).toEqual(new Date('2024-05-03T20:00:00Z'));
+    expect(scheduler.getNextRun('close-at-night')).toEqual(new Date('2024-05-04T20:00:00Z'));
+  });
+
+  it('should round-trip definitions through JSON', () => {
+    const definitions: ScheduleDefinition[] = [
+      closeAtNight,
+      { id: 'vent', name: 'Ventilation', trigger: { type: 'cron', expression: '0 10 * * 1-5' }, action: { type: 'door', command: 'intermediate' } },
+      { id: 'once', enabled: false, trigger: { type: 'once', at: '2024-06-01T08:00:00Z' }, action: { type: 'light', command: 'off' } },
+    ];
+    const { scheduler, client } = setup('2024-05-01T12:00:00Z', definitions);
+
+    const json = JSON.stringify(scheduler.getSchedules());
+    const restored = new Scheduler(client, JSON.parse(json), { timezone: 'Europe/Berlin' });
+
+    expect(restored.getSchedules()).toEqual(definitions);
+  });
+
+  it('should reject invalid schedules', () => {
+    const { scheduler } = setup('2024-05-01T12:00:00Z', [closeAtNight]);
+
+    expect(() => scheduler.add(closeAtNight)).toThrow(ConfigError);
+    expect(() => scheduler.add({ ...closeAtNight, id: 'tz', timezone: 'Mars/Olympus' })).toThrow(ConfigError);
+    expect(() => scheduler.add({ ...closeAtNight, id: 'sun', trigger: { type: 'sun', event: 'sunset' } })).toThrow(ConfigError);
+    expect(() => scheduler.add({ ...closeAtNight, id: 'at', trigger: { type: 'once', at: 'tomorrow' } })).toThrow(ConfigError);
+    expect(() => scheduler.add({
+      ...closeAtNight,
+      id: 'state',
+      conditions: { doorState: ['AJAR' as 'OPEN'] }
+    })).toThrow(ConfigError);
+  });
+
+  it('should stop running schedules after stop()', () => {
+    const { scheduler, mqtt, receive } = setup('2024-05-01T12:00:00Z', [closeAtNight]);
+    receive(DoorState.OPEN);
+    scheduler.start();
+    scheduler.stop();
+
+    vi.advanceTimersByTime(24 * 3600000);
+
+    expect(mqtt.sendDoorCommand).not.toHaveBeenCalled();
+    expect(scheduler.getNextRun('close-at-night')).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSessionStore } from '../auth/SessionStore';
+
+describe('FileSessionStore', () => {
+  let dir: string;
+
+  const session = {
+    identityId: 'eu-central-1:identity',
+    refreshToken: 'refresh-token',
+    credentials: {
+      accessKeyId: 'AKIA',
+      secretAccessKey: 'secret',
+      sessionToken: 'token',
+      expiration: new Date('2030-01-01T00:00:00.000Z')
+    }
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'maveo-session-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns null if the file does not exist', async () => {
+    const store = new FileSessionStore(path.join(dir, 'missing.json'));
+    expect(await store.load('user@example.com')).toBeNull();
+  });
+
+  it('round-trips sessions including the expiration date', async () => {
+    const filePath = path.join(dir, 'nested', 'session.json');
+    await new FileSessionStore(filePath).save('user@example.com', session);
+
+    const loaded = await new FileSessionStore(filePath).load('user@example.com');
+
+    expect(loaded).toEqual(session);
+    expect(loaded?.credentials.expiration).toBeInstanceOf(Date);
+  });
+
+  it('writes the file readable by the owner only', async () => {
+    const filePath = path.join(dir, 'session.json');
+    await new FileSessionStore(filePath).save('user@example.com', session);
+
+    const stats = await fs.stat(filePath);
+    expect(stats.mode & 0o777).toBe(0o600);
+  });
+
+  it('clears a single key', async () => {
+    const store = new FileSessionStore(path.join(dir, 'session.json'));
+    await store.save('a@example.com', session);
+    await store.save('b@example.com', session);
+
+    await store.clear('a@example.com');
+
+    expect(await store.load('a@example.com')).toBeNull();
+    expect(await store.load('b@example.com')).not.toBeNull();
+  });
+});
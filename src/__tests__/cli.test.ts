@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PassThrough } from 'stream';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCliArgs } from '../cli/args';
+import { loadCliConfig } from '../cli/config';
+import { FileSessionStore } from '../auth/SessionStore';
+import { run, getExitCode, formatStatus, EXIT_CODES } from '../cli';
+import { MaveoClient } from '../MaveoClient';
+import { ConfigError, ConnectionError, DoorStoppedError, DoorTimeoutError, AuthError, CommandVetoedError } from '../errors';
+import { DoorCommand, DoorState } from '../types';
+
+const status = {
+  device: 'garage',
+  doorState: DoorState.OPEN,
+  isOpening: false,
+  isClosing: false,
+  isOpen: true,
+  isClosed: false,
+  isStopped: false,
+  rawValue: 3,
+  lightOn: null,
+  raw: {},
+  timestamp: new Date('2024-05-01T12:00:00Z'),
+  position: 0,
+};
+
+describe('cli', () => {
+  describe('parseCliArgs', () => {
+    it('parses door commands with wait options', () => {
+      expect(parseCliArgs(['close', '--wait', '--timeout', '30000', '--json'])).toEqual({
+        command: 'close',
+        light: undefined,
+        wait: true,
+        timeout: 30000,
+        json: true,
+        configPath: undefined,
+        deviceId: undefined,
+      });
+    });
+
+    it('parses the light state', () => {
+      expect(parseCliArgs(['light', 'on'])).toMatchObject({ command: 'light', light: 'on' });
+      expect(() => parseCliArgs(['light', 'dim'])).toThrow('light requires "on" or "off"');
+    });
+
+    it('defaults to help', () => {
+      expect(parseCliArgs([]).command).toBe('help');
+      expect(parseCliArgs(['open', '-h']).command).toBe('help');
+    });
+
+    it('rejects unknown commands and options', () => {
+      expect(() => parseCliArgs(['explode'])).toThrow('Unknown command: explode');
+      expect(() => parseCliArgs(['open', '--force'])).toThrow(ConfigError);
+      expect(() => parseCliArgs(['open', '-t', 'soon'])).toThrow('Invalid timeout: soon');
+    });
+  });
+
+  describe('loadCliConfig', () => {
+    let dir: string;
+    let configPath: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'maveo-cli-'));
+      configPath = path.join(dir, 'config.json');
+      await fs.writeFile(configPath, JSON.stringify({
+        username: 'file@example.com',
+        password: 'file-pass',
+        deviceId: 'from-file',
+        sessionFile: path.join(dir, 'session.json'),
+      }));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('reads the config file', async () => {
+      const config = await loadCliConfig(parseCliArgs(['status', '-c', configPath]), {});
+
+      expect(config).toMatchObject({ username: 'file@example.com', password: 'file-pass', deviceId: 'from-file' });
+      expect(config.sessionStore).toBeInstanceOf(FileSessionStore);
+    });
+
+    it('prefers the command line over the environment over the file', async () => {
+      const env = { MAVEO_USERNAME: 'env@example.com', MAVEO_DEVICE_ID: 'from-env' };
+
+      expect(await loadCliConfig(parseCliArgs(['status', '-c', configPath]), env))
+        .toMatchObject({ username: 'env@example.com', password: 'file-pass', deviceId: 'from-env' });
+      expect(await loadCliConfig(parseCliArgs(['status', '-c', configPath, '-d', 'from-args']), env))
+        .toMatchObject({ deviceId: 'from-args' });
+    });
+
+    it('requires an explicitly configured file to exist', async () => {
+      await expect(loadCliConfig(parseCliArgs(['status']), { MAVEO_CONFIG: path.join(dir, 'missing.json') }))
+        .rejects.toThrow('Cannot read config file');
+    });
+
+    it('requires credentials', async () => {
+      await fs.writeFile(configPath, JSON.stringify({ deviceId: 'from-file' }));
+
+      await expect(loadCliConfig(parseCliArgs(['status', '-c', configPath]), {}))
+        .rejects.toThrow('Missing credentials');
+    });
+  });
+
+  describe('exit codes', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('maps errors to exit codes', () => {
+      expect(getExitCode(new ConfigError('bad'))).toBe(EXIT_CODES.USAGE);
+      expect(getExitCode(new AuthError('AUTH_THROTTLED', 'slow down'))).toBe(EXIT_CODES.AUTH);
+      expect(getExitCode(new DoorTimeoutError(DoorState.OPEN, null, 10))).toBe(EXIT_CODES.TIMEOUT);
+      expect(getExitCode(new DoorStoppedError(DoorState.OPEN, status))).toBe(EXIT_CODES.DOOR_STOPPED);
+      const request = { device: 'garage', command: DoorCommand.OPEN, source: 'cli', status, timestamp: new Date() };
+      expect(getExitCode(new CommandVetoedError('quiet-hours', 'Too late', request))).toBe(EXIT_CODES.VETOED);
+      expect(getExitCode(new Error('boom'))).toBe(EXIT_CODES.ERROR);
+    });
+
+    it('exits with USAGE and a JSON error if credentials are missing', async () => {
+      const stdout = new PassThrough();
+      const stderr = new PassThrough();
+
+      const code = await run(['status', '--json'], { stdout, stderr, env: { MAVEO_CONFIG: path.join(os.tmpdir(), 'maveo-missing.json') } });
+
+      expect(code).toBe(EXIT_CODES.USAGE);
+      expect(JSON.parse(stdout.read().toString())).toMatchObject({ error: { code: 'CONFIG_INVALID' } });
+    });
+
+    it('exits with CONNECTION if the connection fails during a command', async () => {
+      vi.spyOn(MaveoClient.prototype, 'connect').mockImplementation(async function (this: MaveoClient) {
+        setTimeout(() => this.emit('error', new ConnectionError('CONNECTION_ERROR', 'socket hang up')), 10);
+      });
+      // The status never arrives since the connection failed
+      vi.spyOn(MaveoClient.prototype, 'getStatus').mockReturnValue(new Promise(() => undefined));
+      vi.spyOn(MaveoClient.prototype, 'disconnect').mockResolvedValue();
+      const stderr = new PassThrough();
+      const env = { MAVEO_USERNAME: 'user@example.com', MAVEO_PASSWORD: 'pass', MAVEO_DEVICE_ID: 'garage' };
+
+      const code = await run(['status'], { stdout: new PassThrough(), stderr, env });
+
+      expect(code).toBe(EXIT_CODES.CONNECTION);
+      expect(stderr.read().toString()).toContain('socket hang up');
+    });
+
+    it('prints the usage for help', async () => {
+      const stdout = new PassThrough();
+
+      const code = await run(['--help'], { stdout, stderr: new PassThrough(), env: {} });
+
+      expect(code).toBe(EXIT_CODES.OK);
+      expect(stdout.read().toString()).toContain('Usage: maveo <command>');
+    });
+  });
+
+  describe('formatStatus', () => {
+    it('formats text and JSON', () => {
+      expect(formatStatus(status, false)).toBe('garage: Open');
+      expect(JSON.parse(formatStatus(status, true))).toEqual({ device: 'garage', state: 'open', doorState: 3, rawValue: 3, lightOn: null });
+    });
+
+    it('includes the light once it is known', () => {
+      expect(formatStatus({ ...status, lightOn: true }, false)).toBe('garage: Open, light on');
+    });
+  });
+});
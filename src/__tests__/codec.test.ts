@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { decodeCommand, decodeDoorState, decodeLightState, decodeResponse, encodeCommand } from '../protocol/codec';
+import { CommandMessage, DoorState } from '../types';
+import { ProtocolError } from '../errors';
+
+interface GoldenCase {
+  description: string;
+  payload: string;
+  message?: Record<string, unknown>;
+  anomalies?: unknown[];
+  error?: { code: string; field?: string };
+}
+
+// Payloads captured from Maveo sticks, with the expected decoding
+function loadGolden(name: string): GoldenCase[] {
+  return JSON.parse(readFileSync(path.join(__dirname, 'fixtures', 'protocol', name), 'utf8'));
+}
+
+const responses = loadGolden('responses.json');
+const commands = loadGolden('commands.json');
+
+function catchError(fn: () => unknown): ProtocolError {
+  try {
+    fn();
+  } catch (error) {
+    return error as ProtocolError;
+  }
+  throw new Error('Expected an error');
+}
+
+describe('protocol codec', () => {
+  describe('decodeResponse', () => {
+    it.each(responses.filter(golden => !golden.error))('decodes $description', golden => {
+      expect(decodeResponse(golden.payload)).toEqual({ message: golden.message, anomalies: golden.anomalies });
+    });
+
+    it.each(responses.filter(golden => golden.error))('rejects $description', golden => {
+      const error = catchError(() => decodeResponse(Buffer.from(golden.payload)));
+
+      expect(error).toBeInstanceOf(ProtocolError);
+      expect(error).toMatchObject({ ...golden.error, payload: golden.payload });
+    });
+  });
+
+  describe('commands', () => {
+    it.each(commands.filter(golden => !golden.error))('encodes and decodes $description', golden => {
+      expect(encodeCommand(golden.message as CommandMessage)).toBe(golden.payload);
+      expect(decodeCommand(golden.payload)).toEqual(golden.message);
+    });
+
+    it.each(commands.filter(golden => golden.error))('rejects $description', golden => {
+      const decodeError = catchError(() => decodeCommand(golden.payload));
+      expect(decodeError).toBeInstanceOf(ProtocolError);
+      expect(decodeError).toMatchObject({ ...golden.error, payload: golden.payload });
+
+      const encodeError = catchError(() => encodeCommand(JSON.parse(golden.payload)));
+      expect(encodeError).toMatchObject({ code: golden.error?.code, payload: golden.payload });
+    });
+
+    it('ignores undefined fields when encoding', () => {
+      expect(encodeCommand({ AtoS_g: undefined, AtoS_l: 1 })).toBe('{"AtoS_l":1}');
+    });
+
+    it('rejects several fields at compile time as well', () => {
+      // @ts-expect-error A command has exactly one field
+      expect(() => encodeCommand({ AtoS_g: 1, AtoS_l: 1 })).toThrow(ProtocolError);
+    });
+  });
+
+  it('maps known state values and nothing else', () => {
+    expect(decodeDoorState(DoorState.CLOSED)).toBe(DoorState.CLOSED);
+    expect(decodeDoorState(7)).toBeNull();
+    expect(decodeLightState(1)).toBe(true);
+    expect(decodeLightState(0)).toBe(false);
+    expect(decodeLightState(2)).toBeNull();
+  });
+});
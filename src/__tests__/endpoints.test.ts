@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { ENDPOINT_PROFILES, resolveEndpointProfile } from '../endpoints';
+import { ConfigError } from '../errors';
+
+describe('resolveEndpointProfile', () => {
+  it('defaults to the EU profile', () => {
+    expect(resolveEndpointProfile()).toEqual({
+      ...ENDPOINT_PROFILES.eu,
+      iotUrl: 'wss://eu-central-1.iot-prod.marantec-cloud.de:443/mqtt',
+      cognitoIdpEndpoint: 'https://cognito-idp.eu-central-1.amazonaws.com',
+      cognitoIdentityEndpoint: 'https://cognito-identity.eu-central-1.amazonaws.com',
+    });
+  });
+
+  it('derives the endpoints of the US profile with a client ID', () => {
+    const profile = resolveEndpointProfile({ ...ENDPOINT_PROFILES.us, clientId: 'us-client' });
+
+    expect(profile.cognitoIdpEndpoint).toBe('https://cognito-idp.us-west-2.amazonaws.com');
+    expect(profile.iotUrl).toBe('wss://us-west-2.iot.prod.marantec-cloud.de:443/mqtt');
+  });
+
+  it('requires a client ID override for the US profile', () => {
+    expect(() => resolveEndpointProfile('us')).toThrow(ConfigError);
+    expect(() => resolveEndpointProfile('us')).toThrow("The 'us' endpoint profile has no clientId");
+  });
+
+  it('requires a client ID', () => {
+    expect(() => resolveEndpointProfile({ ...ENDPOINT_PROFILES.eu, clientId: '' })).toThrow('Endpoint profile is missing clientId');
+  });
+
+  it('keeps custom endpoints', () => {
+    const profile = resolveEndpointProfile({
+      region: 'local-1',
+      userPoolId: 'local-1_pool',
+      clientId: 'client',
+      identityPoolId: 'local-1:pool',
+      iotHost: 'localhost',
+      iotUrl: 'ws://127.0.0.1:1884/mqtt',
+      cognitoIdpEndpoint: 'http://127.0.0.1:9229',
+      cognitoIdentityEndpoint: 'http://127.0.0.1:9229',
+    });
+
+    expect(profile).toMatchObject({
+      iotPort: 443,
+      iotUrl: 'ws://127.0.0.1:1884/mqtt',
+      cognitoIdpEndpoint: 'http://127.0.0.1:9229',
+    });
+  });
+
+  it('throws on unknown regions', () => {
+    expect(() => resolveEndpointProfile('ap' as 'eu')).toThrow('Unknown Maveo region: ap');
+  });
+});
@@ -0,0 +1,35 @@
+import { vi } from 'vitest';
+import { MaveoClient } from '../../MaveoClient';
+import { DoorState, MaveoConfig, StatusResponse } from '../../types';
+
+/**
+ * Creates a client whose MQTT connection is a stub, so tests can check the
+ * commands it sends and feed it device messages without a broker.
+ * @param options - Config overrides
+ * @returns The client, the connection stub and functions to feed messages
+ */
+export function createConnectedClient(options: Partial<MaveoConfig> = {}) {
+  const client = new MaveoClient({
+    username: 'user@example.com',
+    password: 'pass',
+    deviceId: 'device123',
+    ...options,
+  });
+
+  const mqtt = {
+    isConnected: vi.fn(() => true),
+    sendDoorCommand: vi.fn(),
+    sendLightCommand: vi.fn(),
+    requestStatus: vi.fn(),
+  };
+  // The account is private, the stub only has to cover what the devices use
+  const account = (client as unknown as { account: { getConnection: () => unknown; isConnected: () => boolean } }).account;
+  account.getConnection = () => mqtt;
+  account.isConnected = () => mqtt.isConnected();
+
+  const internal = client as unknown as { handleStatusMessage: (payload: StatusResponse) => void };
+  const receive = (state: DoorState) => internal.handleStatusMessage({ StoA_s: state });
+  const receiveMessage = (payload: StatusResponse) => internal.handleStatusMessage(payload);
+
+  return { client, mqtt, receive, receiveMessage };
+}
@@ -11,10 +11,10 @@ describe('parseStatus', () => {
   });
 
   // Access private method via type assertion for testing
-  const parseStatus = (client as unknown as { parseStatus: (raw: number) => unknown }).parseStatus.bind(client);
+  const parseStatus = (client as unknown as { parseStatus: (raw: number, previous: unknown) => unknown }).parseStatus.bind(client);
 
   it('parses STOPPED state correctly', () => {
-    const status = parseStatus(DoorState.STOPPED);
+    const status = parseStatus(DoorState.STOPPED, null);
     expect(status).toMatchObject({
       doorState: DoorState.STOPPED,
       isStopped: true,
@@ -27,7 +27,7 @@ describe('parseStatus', () => {
   });
 
   it('parses OPENING state correctly', () => {
-    const status = parseStatus(DoorState.OPENING);
+    const status = parseStatus(DoorState.OPENING, null);
     expect(status).toMatchObject({
       doorState: DoorState.OPENING,
       isStopped: false,
@@ -40,7 +40,7 @@ describe('parseStatus', () => {
   });
 
   it('parses CLOSING state correctly', () => {
-    const status = parseStatus(DoorState.CLOSING);
+    const status = parseStatus(DoorState.CLOSING, null);
     expect(status).toMatchObject({
       doorState: DoorState.CLOSING,
       isStopped: false,
@@ -53,7 +53,7 @@ describe('parseStatus', () => {
   });
 
   it('parses OPEN state correctly', () => {
-    const status = parseStatus(DoorState.OPEN);
+    const status = parseStatus(DoorState.OPEN, null);
     expect(status).toMatchObject({
       doorState: DoorState.OPEN,
       isStopped: false,
@@ -66,7 +66,7 @@ describe('parseStatus', () => {
   });
 
   it('parses CLOSED state correctly', () => {
-    const status = parseStatus(DoorState.CLOSED);
+    const status = parseStatus(DoorState.CLOSED, null);
     expect(status).toMatchObject({
       doorState: DoorState.CLOSED,
       isStopped: false,
@@ -78,16 +78,20 @@ describe('parseStatus', () => {
     });
   });
 
-  it('handles unknown state value by defaulting to STOPPED', () => {
-    const status = parseStatus(99);
+  it('keeps the previous state for an unknown state value', () => {
+    const status = parseStatus(99, parseStatus(DoorState.CLOSING, null));
     expect(status).toMatchObject({
-      doorState: DoorState.STOPPED,
-      isStopped: true,
+      doorState: DoorState.CLOSING,
+      isStopped: false,
       isOpening: false,
-      isClosing: false,
+      isClosing: true,
       isOpen: false,
       isClosed: false,
       rawValue: 99,
     });
   });
+
+  it('ignores an unknown state value without a previous state', () => {
+    expect(parseStatus(99, null)).toBeNull();
+  });
 });
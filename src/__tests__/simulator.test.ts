@@ -0,0 +1,278 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MaveoClient } from '../MaveoClient';
+import { MaveoSimulator } from '../simulator/MaveoSimulator';
+import { MaveoConfig, DoorState, ProtocolAnomaly, RawMessage } from '../types';
+import { ConfigError, MaveoError } from '../errors';
+
+const DEVICE_ID = 'garage';
+
+const running: Array<{ stop: () => Promise<void> } | { disconnect: () => Promise<void> }> = [];
+
+async function startSimulator() {
+  const simulator = new MaveoSimulator({ devices: [{ deviceId: DEVICE_ID, travelTime: 100 }] });
+  await simulator.start();
+  running.push(simulator);
+  return simulator;
+}
+
+function createClient(simulator: MaveoSimulator, config: Partial<MaveoConfig> = {}) {
+  const client = new MaveoClient({
+    username: 'user@example.com',
+    password: 'password',
+    deviceId: DEVICE_ID,
+    endpoint: simulator.getEndpointProfile(),
+    connectTimeout: 2000,
+    statusTimeout: 1000,
+    baseReconnectDelay: 10,
+    ...config,
+  });
+  running.push(client);
+  return client;
+}
+
+describe('MaveoSimulator', () => {
+  afterEach(async () => {
+    // Clients first, so they do not try to reconnect to a stopped simulator
+    for (const item of running.splice(0).reverse()) {
+      await ('disconnect' in item ? item.disconnect() : item.stop());
+    }
+  });
+
+  it('connects a client and reports the initial status', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator);
+
+    await client.connect();
+
+    expect(client.isConnected()).toBe(true);
+    expect(client.getCurrentStatus()).toMatchObject({ device: DEVICE_ID, doorState: DoorState.CLOSED, lightOn: false });
+    expect(simulator.getConnectedClients()).toEqual([DEVICE_ID]);
+  });
+
+  it('moves the door through its transitions', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator);
+    await client.connect();
+
+    const states: DoorState[] = [];
+    client.on('status', status => states.push(status.doorState));
+
+    await expect(client.openAndWait({ timeout: 1000 })).resolves.toMatchObject({ doorState: DoorState.OPEN });
+    expect(states).toEqual([DoorState.OPENING, DoorState.OPEN]);
+    expect(simulator.door(DEVICE_ID).getPosition()).toBe(1);
+  });
+
+  it('stops at the intermediate position', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator);
+    await client.connect();
+
+    await client.moveToIntermediateAndWait({ timeout: 1000 });
+
+    expect(simulator.door(DEVICE_ID).getPosition()).toBe(0.5);
+  });
+
+  it('calibrates the travel times and moves the door to a position', async () => {
+    const simulator = new MaveoSimulator({ devices: [{ deviceId: DEVICE_ID, travelTime: 400 }] });
+    await simulator.start();
+    running.push(simulator);
+    const client = createClient(simulator);
+    await client.connect();
+
+    const calibration = await client.calibrate({ timeout: 2000 });
+    expect(calibration.openTime).toBeGreaterThan(300);
+    expect(calibration.closeTime).toBeGreaterThan(300);
+
+    const status = await client.setPosition(50, { timeout: 2000 });
+
+    expect(status.doorState).toBe(DoorState.STOPPED);
+    expect(status.position).toBeGreaterThan(35);
+    expect(status.position).toBeLessThan(65);
+    expect(simulator.door(DEVICE_ID).getPosition()).toBeCloseTo(0.5, 0);
+  });
+
+  it('switches the light', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator);
+    await client.connect();
+
+    await expect(client.lightOnAndWait()).resolves.toEqual({ device: DEVICE_ID, lightOn: true });
+    expect(simulator.door(DEVICE_ID).isLightOn()).toBe(true);
+  });
+
+  it('reconnects after the connection drops', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator);
+    await client.connect();
+
+    const reconnected = new Promise<void>(resolve => client.once('connected', resolve));
+    simulator.dropConnections();
+    await reconnected;
+
+    expect(client.isConnected()).toBe(true);
+  });
+
+  it('waits for reconnectNow() while reconnecting is paused', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator);
+    await client.connect();
+    const reconnecting = vi.fn();
+    client.on('reconnecting', reconnecting);
+
+    client.pauseReconnect();
+    const disconnected = new Promise<void>(resolve => client.once('disconnected', resolve));
+    simulator.dropConnections();
+    await disconnected;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(reconnecting).not.toHaveBeenCalled();
+    expect(client.isConnected()).toBe(false);
+
+    await client.reconnectNow();
+    expect(client.isConnected()).toBe(true);
+  });
+
+  it('emits reconnectFailed when the reconnect strategy gives up', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator, {
+      reconnectStrategy: { maxAttempts: 0, nextDelay: () => null },
+    });
+    await client.connect();
+    client.on('error', () => undefined);
+
+    const failed = new Promise<[number, MaveoError]>(resolve => client.once('reconnectFailed', (...args) => resolve(args)));
+    simulator.dropConnections();
+
+    await expect(failed).resolves.toEqual([0, expect.objectContaining({ code: 'RECONNECT_EXHAUSTED' })]);
+  });
+
+  it('reconnects and requests the status right after resuming from sleep', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator, { networkWatch: { interfaces: false } });
+    await client.connect();
+
+    const events: string[] = [];
+    client.on('disconnected', () => events.push('disconnected'));
+    client.on('connected', () => events.push('connected'));
+    const status = new Promise<void>(resolve => client.once('status', () => resolve()));
+
+    const account = (client as unknown as { account: { networkWatcher: { emit: (event: 'resumed', sleptMs: number) => void } } }).account;
+    account.networkWatcher.emit('resumed', 60000);
+    await status;
+
+    expect(events).toEqual(['disconnected', 'connected']);
+    expect(client.isConnected()).toBe(true);
+  });
+
+  it('sends queued commands after reconnecting', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator, { commandQueue: { ttl: 2000 } });
+    await client.connect();
+
+    const disconnected = new Promise<void>(resolve => client.once('disconnected', resolve));
+    simulator.dropConnections();
+    await disconnected;
+
+    expect(client.isConnected()).toBe(false);
+    await expect(client.open()).resolves.toBe('sent');
+    await expect(client.waitForState(DoorState.OPEN, { timeout: 1000 })).resolves.toMatchObject({ doorState: DoorState.OPEN });
+  });
+
+  it('reports garbage payloads as protocol errors', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator);
+    await client.connect();
+
+    const error = new Promise<MaveoError>(resolve => client.once('error', resolve));
+    simulator.sendGarbage(DEVICE_ID);
+
+    await expect(error).resolves.toMatchObject({ code: 'PROTOCOL_PARSE' });
+  });
+
+  it('reports unknown fields as protocol anomalies and still processes the status', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator);
+    await client.connect();
+
+    const anomaly = new Promise<ProtocolAnomaly>(resolve => client.once('protocolAnomaly', resolve));
+    simulator.sendGarbage(DEVICE_ID, '{"StoA_s":3,"StoA_t":21}');
+
+    await expect(anomaly).resolves.toEqual({
+      device: DEVICE_ID,
+      topic: `${DEVICE_ID}/rsp`,
+      kind: 'unknownField',
+      field: 'StoA_t',
+      value: 21,
+      payload: '{"StoA_s":3,"StoA_t":21}',
+    });
+    expect(client.getCurrentStatus()).toMatchObject({ doorState: DoorState.OPEN, raw: { StoA_t: 21 } });
+  });
+
+  it('sniffs the device topics, sends raw commands and records a capture', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'maveo-sniffer-'));
+    const captureFile = path.join(dir, 'session.jsonl');
+
+    try {
+      const simulator = await startSimulator();
+      const client = createClient(simulator, { sniffer: { allowRawCommands: true, captureFile } });
+      const messages: RawMessage[] = [];
+      client.on('rawMessage', message => messages.push(message));
+      await client.connect();
+
+      const echoed = new Promise<RawMessage>(resolve => client.on('rawMessage', message => {
+        if (message.direction === 'received' && message.topic === `${DEVICE_ID}/cmd`) resolve(message);
+      }));
+      client.sendRaw({ AtoS_v: 0 });
+      expect((await echoed).payload.toString()).toBe('{"AtoS_v":0}');
+
+      expect(() => client.sendRaw({ AtoS_g: 1 })).toThrow(ConfigError);
+      await client.disconnect();
+
+      expect(messages.map(message => `${message.direction} ${message.topic}`)).toEqual(expect.arrayContaining([
+        `published ${DEVICE_ID}/cmd`,
+        `received ${DEVICE_ID}/rsp`,
+        `received ${DEVICE_ID}/cmd`,
+      ]));
+      const lines = (await fs.readFile(captureFile, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(lines[0]).toMatchObject({ format: 'maveo-capture', version: 1 });
+      expect(lines.filter(line => line.type === 'received' || line.type === 'published')).toHaveLength(messages.length);
+      expect(lines.map(line => line.type)).toContain('connected');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses raw commands unless enabled', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator);
+    await client.connect();
+
+    expect(() => client.sendRaw({ AtoS_v: 0 })).toThrow('sendRaw() is disabled');
+  });
+
+  it('fails to connect while Cognito is throttling', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator);
+    simulator.throttleAuth();
+
+    await expect(client.connect()).rejects.toMatchObject({ code: 'AUTH_THROTTLED' });
+  });
+
+  it('rejects a wrong password', async () => {
+    const simulator = await startSimulator();
+    const client = createClient(simulator, { password: 'wrong' });
+
+    await expect(client.connect()).rejects.toMatchObject({ code: 'AUTH_INVALID_CREDENTIALS' });
+  });
+
+  it('times out if the device does not answer', async () => {
+    const simulator = await startSimulator();
+    simulator.door(DEVICE_ID).setResponsive(false);
+    const client = createClient(simulator, { statusTimeout: 100 });
+
+    await expect(client.connect()).rejects.toMatchObject({ code: 'STATUS_TIMEOUT' });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import * as crypto from 'crypto';
+import {
+  SrpClient,
+  SRP_N,
+  SRP_G,
+  SRP_K,
+  modPow,
+  padHex,
+  computeX,
+  computeHkdf,
+  formatTimestamp
+} from '../auth/srp';
+
+const hashHex = (hex: string) =>
+  BigInt(`0x${crypto.createHash('sha256').update(Buffer.from(hex, 'hex')).digest('hex')}`);
+
+describe('srp', () => {
+  it('pads hex so values stay positive', () => {
+    expect(padHex(BigInt(0xf))).toBe('0f');
+    expect(padHex(BigInt(0x7f))).toBe('7f');
+    expect(padHex(BigInt(0x80))).toBe('0080');
+  });
+
+  it('formats timestamps like Cognito', () => {
+    expect(formatTimestamp(new Date('2024-09-03T09:04:05Z'))).toBe('Tue Sep 3 09:04:05 UTC 2024');
+  });
+
+  it('produces a signature the server can verify', () => {
+    const userPoolId = 'eu-central-1_pool';
+    const userIdForSrp = 'user-id';
+    const password = 'secret';
+    const salt = crypto.randomBytes(16).toString('hex');
+    const secretBlock = crypto.randomBytes(32).toString('base64');
+    const now = new Date('2024-09-03T09:04:05Z');
+
+    // Server side: verifier and ephemeral key pair
+    const x = computeX('pool', userIdForSrp, password, salt);
+    const v = modPow(SRP_G, x, SRP_N);
+    const b = BigInt(`0x${crypto.randomBytes(32).toString('hex')}`);
+    const B = (SRP_K * v + modPow(SRP_G, b, SRP_N)) % SRP_N;
+
+    const client = new SrpClient(userPoolId);
+    const { timestamp, signature } = client.computePasswordClaim({
+      userIdForSrp,
+      password,
+      srpB: B.toString(16),
+      salt,
+      secretBlock
+    }, now);
+
+    const A = BigInt(`0x${client.getPublicValue()}`);
+    const u = hashHex(padHex(A) + padHex(B));
+    const S = modPow(A * modPow(v, u, SRP_N), b, SRP_N);
+    const expected = crypto.createHmac('sha256', computeHkdf(S, u))
+      .update(Buffer.concat([
+        Buffer.from('pool'),
+        Buffer.from(userIdForSrp),
+        Buffer.from(secretBlock, 'base64'),
+        Buffer.from(timestamp)
+      ]))
+      .digest('base64');
+
+    expect(timestamp).toBe('Tue Sep 3 09:04:05 UTC 2024');
+    expect(signature).toBe(expected);
+  });
+
+  it('rejects an invalid server value', () => {
+    const client = new SrpClient('eu-central-1_pool');
+    expect(() => client.computePasswordClaim({
+      userIdForSrp: 'user',
+      password: 'secret',
+      srpB: SRP_N.toString(16),
+      salt: '00',
+      secretBlock: ''
+    })).toThrow('Invalid SRP_B from server');
+  });
+});
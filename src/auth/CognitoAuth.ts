@@ -1,141 +1,401 @@
+import { resolveEndpointProfile, ResolvedEndpointProfile } from '../endpoints';
 import {
-  AWS_REGION,
-  USER_POOL_ID,
-  CLIENT_ID,
-  IDENTITY_POOL_ID,
-  COGNITO_IDP_ENDPOINT,
-  COGNITO_IDENTITY_ENDPOINT
-} from '../constants';
-import { AWSCredentials, AuthResult } from '../types';
+  AWSCredentials,
+  AuthResult,
+  SessionStore,
+  MaveoEndpointProfile,
+  MaveoRegion,
+  AuthFlow,
+  AuthChallengeName,
+  ChallengeHandler
+} from '../types';
+import { AuthError, AuthChallengeError, MaveoErrorCode } from '../errors';
+import { SrpClient } from './srp';
 import { debug } from '../utils/logger';
 
+// Stored credentials that expire sooner than this are renewed instead of reused
+const SESSION_REUSE_MARGIN = 60 * 1000;
+
+// Guards against a misbehaving server sending challenges forever
+const MAX_CHALLENGE_ROUNDS = 5;
+
+// Key of the answer in ChallengeResponses for each supported challenge
+const CHALLENGE_RESPONSE_KEYS: Record<AuthChallengeName, string> = {
+  NEW_PASSWORD_REQUIRED: 'NEW_PASSWORD',
+  SMS_MFA: 'SMS_MFA_CODE',
+  SOFTWARE_TOKEN_MFA: 'SOFTWARE_TOKEN_MFA_CODE'
+};
+
+// Cognito error types that mean the credentials or tokens were rejected
+const INVALID_CREDENTIAL_ERRORS = ['NotAuthorizedException', 'UserNotFoundException', 'PasswordResetRequiredException'];
+
+// Cognito error type of an invalid, expired or revoked refresh token
+const REJECTED_REFRESH_TOKEN_ERROR = 'NotAuthorizedException';
+
+// Cognito error types that mean the account is rate-limited
+const THROTTLING_ERRORS = ['TooManyRequestsException', 'LimitExceededException', 'TooManyFailedAttemptsException'];
+
+interface CognitoTokens {
+  IdToken: string;
+  RefreshToken?: string;
+}
+
+interface CognitoAuthResponse {
+  AuthenticationResult?: { IdToken?: string; RefreshToken?: string };
+  ChallengeName?: string;
+  ChallengeParameters?: Record<string, string>;
+  Session?: string;
+}
+
+/**
+ * Options for CognitoAuth.
+ */
+export interface CognitoAuthOptions {
+  /** Persists the session between restarts. Default: none */
+  sessionStore?: SessionStore;
+  /** Maveo Cloud region or custom endpoints. Default: 'eu' */
+  endpoint?: MaveoRegion | MaveoEndpointProfile;
+  /** Cognito login flow. Default: 'USER_PASSWORD_AUTH' */
+  authFlow?: AuthFlow;
+  /** Answers NEW_PASSWORD_REQUIRED and MFA challenges. Default: none */
+  challengeHandler?: ChallengeHandler;
+}
+
 export class CognitoAuth {
   private username: string;
   private password: string;
   private credentials: AWSCredentials | null = null;
   private identityId: string | null = null;
+  private refreshToken: string | null = null;
+  private readonly sessionStore: SessionStore | null;
+  private readonly sessionKey: string;
+  private readonly endpoint: ResolvedEndpointProfile;
+  private readonly authFlow: AuthFlow;
+  private readonly challengeHandler: ChallengeHandler | null;
 
-  constructor(username: string, password: string) {
+  constructor(username: string, password: string, options: CognitoAuthOptions = {}) {
     this.username = username;
     this.password = password;
+    this.sessionStore = options.sessionStore ?? null;
+    this.endpoint = resolveEndpointProfile(options.endpoint);
+    // A session is only valid for the pools that issued it
+    this.sessionKey = `${this.endpoint.userPoolId}/${this.endpoint.identityPoolId}/${username}`;
+    this.authFlow = options.authFlow ?? 'USER_PASSWORD_AUTH';
+    this.challengeHandler = options.challengeHandler ?? null;
   }
 
+  /**
+   * Obtains AWS credentials for the user.
+   * With a session store, a stored session is reused while its credentials are valid
+   * or renewed with its refresh token. A password login is only done if that fails.
+   */
   async authenticate(): Promise<AuthResult> {
+    if (await this.restoreSession()) {
+      if (!this.isCredentialsExpired(SESSION_REUSE_MARGIN)) {
+        debug.auth('Reusing stored session');
+        return {
+          credentials: this.credentials!,
+          identityId: this.identityId!
+        };
+      }
+
+      if (this.refreshToken) {
+        return this.refresh();
+      }
+    }
+
+    return this.loginWithPassword();
+  }
+
+  private async loginWithPassword(): Promise<AuthResult> {
     // Step 1: Get ID token from User Pool
-    const idToken = await this.initiateAuth();
+    const tokens = await this.requestTokens();
     debug.auth('Got ID token');
 
+    if (tokens.RefreshToken) {
+      this.refreshToken = tokens.RefreshToken;
+    }
+
     // Step 2: Get Identity ID from Identity Pool
-    this.identityId = await this.getId(idToken);
+    this.identityId = await this.getId(tokens.IdToken);
     debug.auth('Got Identity ID: %s', this.identityId);
 
     // Step 3: Get AWS credentials
-    this.credentials = await this.getCredentialsForIdentity(idToken, this.identityId);
+    this.credentials = await this.getCredentialsForIdentity(tokens.IdToken, this.identityId);
     debug.auth('Got AWS credentials');
 
+    await this.persistSession();
+
     return {
       credentials: this.credentials,
       identityId: this.identityId
     };
   }
 
-  private async initiateAuth(): Promise<string> {
-    const response = await fetch(COGNITO_IDP_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-amz-json-1.1',
-        'X-Amz-Target': 'AWSCognitoIdentityProviderService.InitiateAuth'
-      },
-      body: JSON.stringify({
-        AuthFlow: 'USER_PASSWORD_AUTH',
-        ClientId: CLIENT_ID,
-        AuthParameters: {
-          USERNAME: this.username,
-          PASSWORD: this.password
-        }
-      })
-    });
+  /**
+   * Renews the AWS credentials using the stored refresh token.
+   * Falls back to a full username/password login if there is no refresh token
+   * or Cognito rejects it as invalid or expired.
+   * @throws {AuthError} If the refresh fails for any other reason, e.g. throttling
+   */
+  async refresh(): Promise<AuthResult> {
+    if (!this.refreshToken) {
+      debug.auth('No refresh token, authenticating with password');
+      return this.loginWithPassword();
+    }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`InitiateAuth failed: ${error}`);
+    let idToken: string;
+    try {
+      const response = await this.initiateAuth('REFRESH_TOKEN_AUTH', {
+        REFRESH_TOKEN: this.refreshToken
+      });
+      idToken = this.extractTokens(response).IdToken;
+      debug.auth('Refreshed ID token');
+    } catch (error) {
+      // A password login would only add to a throttled or unreachable Cognito
+      if (!(error instanceof AuthError) || error.awsErrorType !== REJECTED_REFRESH_TOKEN_ERROR) {
+        throw error;
+      }
+      debug.auth('Refresh token rejected, authenticating with password: %O', error);
+      this.refreshToken = null;
+      return this.loginWithPassword();
     }
 
-    const data = await response.json() as {
-      AuthenticationResult?: { IdToken?: string };
+    if (!this.identityId) {
+      this.identityId = await this.getId(idToken);
+      debug.auth('Got Identity ID: %s', this.identityId);
+    }
+
+    this.credentials = await this.getCredentialsForIdentity(idToken, this.identityId);
+    debug.auth('Refreshed AWS credentials, expiring at %s', this.credentials.expiration.toISOString());
+
+    await this.persistSession();
+
+    return {
+      credentials: this.credentials,
+      identityId: this.identityId
     };
+  }
+
+  private async restoreSession(): Promise<boolean> {
+    if (!this.sessionStore) return false;
+
+    try {
+      const session = await this.sessionStore.load(this.sessionKey);
+      if (!session) return false;
 
-    if (!data.AuthenticationResult?.IdToken) {
-      throw new Error('No IdToken in authentication response');
+      this.identityId = session.identityId;
+      this.refreshToken = session.refreshToken;
+      this.credentials = session.credentials;
+      return true;
+    } catch (error) {
+      debug.auth('Failed to load stored session: %O', error);
+      return false;
     }
+  }
+
+  private async persistSession(): Promise<void> {
+    if (!this.sessionStore || !this.credentials || !this.identityId) return;
 
-    return data.AuthenticationResult.IdToken;
+    try {
+      await this.sessionStore.save(this.sessionKey, {
+        identityId: this.identityId,
+        refreshToken: this.refreshToken,
+        credentials: this.credentials
+      });
+    } catch (error) {
+      // A failing store must not break the login itself
+      debug.auth('Failed to save session: %O', error);
+    }
   }
 
-  private async getId(idToken: string): Promise<string> {
-    const logins = {
-      [`cognito-idp.${AWS_REGION}.amazonaws.com/${USER_POOL_ID}`]: idToken
-    };
+  /**
+   * Runs the configured login flow including any challenges.
+   */
+  private async requestTokens(): Promise<CognitoTokens> {
+    let response: CognitoAuthResponse;
+
+    if (this.authFlow === 'USER_SRP_AUTH') {
+      const srp = new SrpClient(this.endpoint.userPoolId);
+      response = await this.initiateAuth('USER_SRP_AUTH', {
+        USERNAME: this.username,
+        SRP_A: srp.getPublicValue()
+      });
+
+      if (response.ChallengeName === 'PASSWORD_VERIFIER') {
+        response = await this.answerPasswordVerifier(srp, response);
+      }
+    } else {
+      response = await this.initiateAuth('USER_PASSWORD_AUTH', {
+        USERNAME: this.username,
+        PASSWORD: this.password
+      });
+    }
+
+    for (let round = 0; response.ChallengeName; round++) {
+      if (round >= MAX_CHALLENGE_ROUNDS) {
+        throw new AuthError('AUTH_FAILED', `Too many authentication challenges, last: ${response.ChallengeName}`);
+      }
+      response = await this.answerChallenge(response);
+    }
+
+    return this.extractTokens(response);
+  }
 
-    const response = await fetch(COGNITO_IDENTITY_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-amz-json-1.1',
-        'X-Amz-Target': 'AWSCognitoIdentityService.GetId'
-      },
-      body: JSON.stringify({
-        IdentityPoolId: IDENTITY_POOL_ID,
-        Logins: logins
-      })
+  private async answerPasswordVerifier(srp: SrpClient, response: CognitoAuthResponse): Promise<CognitoAuthResponse> {
+    const params = response.ChallengeParameters ?? {};
+    const userIdForSrp = params.USER_ID_FOR_SRP ?? this.username;
+
+    const { timestamp, signature } = srp.computePasswordClaim({
+      userIdForSrp,
+      password: this.password,
+      srpB: params.SRP_B,
+      salt: params.SALT,
+      secretBlock: params.SECRET_BLOCK
     });
+    debug.auth('Answering PASSWORD_VERIFIER challenge');
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`GetId failed: ${error}`);
+    return this.respondToAuthChallenge('PASSWORD_VERIFIER', {
+      USERNAME: userIdForSrp,
+      PASSWORD_CLAIM_SECRET_BLOCK: params.SECRET_BLOCK,
+      PASSWORD_CLAIM_SIGNATURE: signature,
+      TIMESTAMP: timestamp
+    }, response.Session);
+  }
+
+  private async answerChallenge(response: CognitoAuthResponse): Promise<CognitoAuthResponse> {
+    const name = response.ChallengeName as AuthChallengeName;
+    const parameters = response.ChallengeParameters ?? {};
+    const responseKey = CHALLENGE_RESPONSE_KEYS[name];
+
+    if (!responseKey) {
+      throw new AuthChallengeError(name, parameters, `Unsupported authentication challenge: ${name}`);
+    }
+    if (!this.challengeHandler) {
+      throw new AuthChallengeError(name, parameters);
     }
 
-    const data = await response.json() as { IdentityId?: string };
+    debug.auth('Answering %s challenge', name);
+    const answer = await this.challengeHandler({ name, parameters });
 
-    if (!data.IdentityId) {
-      throw new Error('No IdentityId in response');
+    const result = await this.respondToAuthChallenge(name, {
+      USERNAME: parameters.USER_ID_FOR_SRP ?? this.username,
+      [responseKey]: answer
+    }, response.Session);
+
+    // Later password logins have to use the new password
+    if (name === 'NEW_PASSWORD_REQUIRED') {
+      this.password = answer;
     }
 
-    return data.IdentityId;
+    return result;
   }
 
-  private async getCredentialsForIdentity(idToken: string, identityId: string): Promise<AWSCredentials> {
-    const logins = {
-      [`cognito-idp.${AWS_REGION}.amazonaws.com/${USER_POOL_ID}`]: idToken
+  private extractTokens(response: CognitoAuthResponse): CognitoTokens {
+    if (!response.AuthenticationResult?.IdToken) {
+      throw new AuthError('AUTH_FAILED', 'No IdToken in authentication response');
+    }
+
+    return {
+      IdToken: response.AuthenticationResult.IdToken,
+      RefreshToken: response.AuthenticationResult.RefreshToken
     };
+  }
 
-    const response = await fetch(COGNITO_IDENTITY_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-amz-json-1.1',
-        'X-Amz-Target': 'AWSCognitoIdentityService.GetCredentialsForIdentity'
-      },
-      body: JSON.stringify({
-        IdentityId: identityId,
-        Logins: logins
-      })
+  private initiateAuth(
+    authFlow: AuthFlow | 'REFRESH_TOKEN_AUTH',
+    authParameters: Record<string, string>
+  ): Promise<CognitoAuthResponse> {
+    return this.callIdentityProvider('InitiateAuth', {
+      AuthFlow: authFlow,
+      ClientId: this.endpoint.clientId,
+      AuthParameters: authParameters
     });
+  }
+
+  private respondToAuthChallenge(
+    challengeName: string,
+    challengeResponses: Record<string, string>,
+    session?: string
+  ): Promise<CognitoAuthResponse> {
+    return this.callIdentityProvider('RespondToAuthChallenge', {
+      ChallengeName: challengeName,
+      ClientId: this.endpoint.clientId,
+      ChallengeResponses: challengeResponses,
+      Session: session
+    });
+  }
+
+  private callIdentityProvider(action: string, body: object): Promise<CognitoAuthResponse> {
+    return this.callCognito(
+      this.endpoint.cognitoIdpEndpoint,
+      `AWSCognitoIdentityProviderService.${action}`,
+      body
+    );
+  }
+
+  private async callCognito<T>(url: string, target: string, body: object): Promise<T> {
+    const action = target.split('.')[1];
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-amz-json-1.1',
+          'X-Amz-Target': target
+        },
+        body: JSON.stringify(body)
+      });
+    } catch (error) {
+      throw new AuthError('AUTH_FAILED', `${action} request failed: ${error instanceof Error ? error.message : error}`, { cause: error });
+    }
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`GetCredentialsForIdentity failed: ${error}`);
+      const awsErrorType = parseAwsErrorType(error);
+      throw new AuthError(getAuthErrorCode(awsErrorType), `${action} failed: ${error}`, { awsErrorType });
+    }
+
+    return await response.json() as T;
+  }
+
+  private async getId(idToken: string): Promise<string> {
+    const data = await this.callCognito<{ IdentityId?: string }>(
+      this.endpoint.cognitoIdentityEndpoint,
+      'AWSCognitoIdentityService.GetId',
+      {
+        IdentityPoolId: this.endpoint.identityPoolId,
+        Logins: this.getLogins(idToken)
+      }
+    );
+
+    if (!data.IdentityId) {
+      throw new AuthError('AUTH_FAILED', 'No IdentityId in response');
     }
 
-    const data = await response.json() as {
+    return data.IdentityId;
+  }
+
+  private async getCredentialsForIdentity(idToken: string, identityId: string): Promise<AWSCredentials> {
+    const data = await this.callCognito<{
       Credentials?: {
         AccessKeyId: string;
         SecretKey: string;
         SessionToken: string;
         Expiration: number;
       };
-    };
+    }>(
+      this.endpoint.cognitoIdentityEndpoint,
+      'AWSCognitoIdentityService.GetCredentialsForIdentity',
+      {
+        IdentityId: identityId,
+        Logins: this.getLogins(idToken)
+      }
+    );
 
     if (!data.Credentials) {
-      throw new Error('No credentials in response');
+      throw new AuthError('AUTH_FAILED', 'No credentials in response');
     }
 
     return {
@@ -146,9 +406,20 @@ export class CognitoAuth {
     };
   }
 
-  isCredentialsExpired(): boolean {
+  private getLogins(idToken: string): Record<string, string> {
+    const { region, userPoolId } = this.endpoint;
+    return {
+      [`cognito-idp.${region}.amazonaws.com/${userPoolId}`]: idToken
+    };
+  }
+
+  /**
+   * Checks whether the credentials are missing or expire within the given margin.
+   * @param marginMs - Treat credentials as expired this many milliseconds early. Default: 0
+   */
+  isCredentialsExpired(marginMs = 0): boolean {
     if (!this.credentials) return true;
-    return new Date() >= this.credentials.expiration;
+    return Date.now() + marginMs >= this.credentials.expiration.getTime();
   }
 
   getCredentials(): AWSCredentials | null {
@@ -158,4 +429,35 @@ export class CognitoAuth {
   getIdentityId(): string | null {
     return this.identityId;
   }
+
+  getEndpoint(): ResolvedEndpointProfile {
+    return this.endpoint;
+  }
+
+  getRefreshToken(): string | null {
+    return this.refreshToken;
+  }
+}
+
+/**
+ * Extracts the Cognito error type from an error response body.
+ * Identity Pool errors are prefixed with a namespace, e.g. `com.amazon...#NotAuthorizedException`.
+ */
+function parseAwsErrorType(body: string): string | undefined {
+  try {
+    const type = (JSON.parse(body) as { __type?: string }).__type;
+    return type?.split('#').pop();
+  } catch {
+    return undefined;
+  }
+}
+
+function getAuthErrorCode(awsErrorType: string | undefined): Extract<MaveoErrorCode, `AUTH_${string}`> {
+  if (awsErrorType && INVALID_CREDENTIAL_ERRORS.includes(awsErrorType)) {
+    return 'AUTH_INVALID_CREDENTIALS';
+  }
+  if (awsErrorType && THROTTLING_ERRORS.includes(awsErrorType)) {
+    return 'AUTH_THROTTLED';
+  }
+  return 'AUTH_FAILED';
 }
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SessionStore, StoredSession } from '../types';
+
+/**
+ * Keeps sessions in memory for the lifetime of the process.
+ * Useful to share one login between several clients.
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, StoredSession>();
+
+  async load(key: string): Promise<StoredSession | null> {
+    return this.sessions.get(key) ?? null;
+  }
+
+  async save(key: string, session: StoredSession): Promise<void> {
+    this.sessions.set(key, session);
+  }
+
+  async clear(key: string): Promise<void> {
+    this.sessions.delete(key);
+  }
+}
+
+type SerializedSession = Omit<StoredSession, 'credentials'> & {
+  credentials: Omit<StoredSession['credentials'], 'expiration'> & { expiration: string };
+};
+
+/**
+ * Persists sessions as JSON in a file that is only readable by the current user.
+ * The file contains the refresh token and AWS credentials, so keep it private.
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly filePath: string;
+
+  /**
+   * @param filePath - Path of the JSON file, created on first save
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(key: string): Promise<StoredSession | null> {
+    const sessions = await this.readFile();
+    const session = sessions[key];
+    if (!session) return null;
+
+    return {
+      ...session,
+      credentials: {
+        ...session.credentials,
+        expiration: new Date(session.credentials.expiration)
+      }
+    };
+  }
+
+  async save(key: string, session: StoredSession): Promise<void> {
+    const sessions = await this.readFile();
+    sessions[key] = {
+      ...session,
+      credentials: {
+        ...session.credentials,
+        expiration: session.credentials.expiration.toISOString()
+      }
+    };
+    await this.writeFile(sessions);
+  }
+
+  async clear(key: string): Promise<void> {
+    const sessions = await this.readFile();
+    if (!(key in sessions)) return;
+
+    delete sessions[key];
+    await this.writeFile(sessions);
+  }
+
+  private async readFile(): Promise<Record<string, SerializedSession>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async writeFile(sessions: Record<string, SerializedSession>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a truncated file behind
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(sessions, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,165 @@
+import * as crypto from 'crypto';
+import { AuthError } from '../errors';
+
+// Cognito uses the 3072-bit group from RFC 5054 with generator 2
+const N_HEX =
+  'FFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B' +
+  '0A6DF25F14374FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7EDEE386BFB5A899FA5AE9F24117C4B1FE649286651' +
+  'ECE45B3DC2007CB8A163BF0598DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB9ED529077096966D670C354E4ABC' +
+  '9804F1746C08CA18217C32905E462E36CE3BE39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF6955817183995497CEA956AE5' +
+  '15D2261898FA051015728E5A8AAAC42DAD33170D04507A33A85521ABDF1CBA64ECFB850458DBEF0A8AEA71575D060C7DB3970F85A6E1E4C7ABF5' +
+  'AE8CDB0933D71E8C94E04A25619DCEE3D2261AD2EE6BF12FFA06D98A0864D87602733EC86A64521F2B18177B200CBBE117577A615D6C770988C0' +
+  'BAD946E208E24FA074E5AB3143DB5BFCE0FD108E4B82D120A93AD2CAFFFFFFFFFFFFFFFF';
+
+export const SRP_N = BigInt(`0x${N_HEX}`);
+export const SRP_G = BigInt(2);
+export const SRP_K = hashHex(padHex(SRP_N) + padHex(SRP_G));
+
+const WEEK_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Parameters of the PASSWORD_VERIFIER challenge.
+ */
+export interface PasswordVerifierParameters {
+  userIdForSrp: string;
+  password: string;
+  srpB: string;
+  salt: string;
+  secretBlock: string;
+}
+
+/**
+ * Client side of the Cognito USER_SRP_AUTH flow.
+ */
+export class SrpClient {
+  private readonly poolName: string;
+  private readonly a: bigint;
+  private readonly A: bigint;
+
+  /**
+   * @param userPoolId - Cognito User Pool ID, e.g. eu-central-1_abc
+   */
+  constructor(userPoolId: string) {
+    this.poolName = userPoolId.split('_')[1];
+
+    let a: bigint;
+    let A: bigint;
+    do {
+      a = BigInt(`0x${crypto.randomBytes(128).toString('hex')}`);
+      A = modPow(SRP_G, a, SRP_N);
+    } while (A % SRP_N === BigInt(0));
+
+    this.a = a;
+    this.A = A;
+  }
+
+  /**
+   * Gets the public value sent as SRP_A.
+   */
+  getPublicValue(): string {
+    return this.A.toString(16);
+  }
+
+  /**
+   * Computes the responses to the PASSWORD_VERIFIER challenge.
+   * @param params - Challenge parameters and password
+   * @param now - Time used for the signed timestamp
+   * @returns Timestamp and signature to send back
+   * @throws {AuthError} If the server sent invalid SRP values
+   */
+  computePasswordClaim(params: PasswordVerifierParameters, now = new Date()): { timestamp: string; signature: string } {
+    const B = BigInt(`0x${params.srpB}`);
+    if (B % SRP_N === BigInt(0)) {
+      throw new AuthError('AUTH_FAILED', 'Invalid SRP_B from server');
+    }
+
+    const u = hashHex(padHex(this.A) + padHex(B));
+    if (u === BigInt(0)) {
+      throw new AuthError('AUTH_FAILED', 'Invalid SRP scrambling parameter');
+    }
+
+    const x = computeX(this.poolName, params.userIdForSrp, params.password, params.salt);
+    const base = mod(B - SRP_K * modPow(SRP_G, x, SRP_N), SRP_N);
+    const S = modPow(base, this.a + u * x, SRP_N);
+
+    const key = computeHkdf(S, u);
+    const timestamp = formatTimestamp(now);
+    const message = Buffer.concat([
+      Buffer.from(this.poolName, 'utf8'),
+      Buffer.from(params.userIdForSrp, 'utf8'),
+      Buffer.from(params.secretBlock, 'base64'),
+      Buffer.from(timestamp, 'utf8')
+    ]);
+    const signature = crypto.createHmac('sha256', key).update(message).digest('base64');
+
+    return { timestamp, signature };
+  }
+}
+
+/**
+ * Computes the private key x = H(salt | H(poolName | userId | ":" | password)).
+ */
+export function computeX(poolName: string, userIdForSrp: string, password: string, salt: string): bigint {
+  const identityHash = crypto
+    .createHash('sha256')
+    .update(`${poolName}${userIdForSrp}:${password}`, 'utf8')
+    .digest('hex');
+  return hashHex(padHex(BigInt(`0x${salt}`)) + identityHash);
+}
+
+/**
+ * Derives the 16 byte signing key from the shared secret S and scrambler u.
+ */
+export function computeHkdf(S: bigint, u: bigint): Buffer {
+  const prk = crypto.createHmac('sha256', Buffer.from(padHex(u), 'hex'))
+    .update(Buffer.from(padHex(S), 'hex'))
+    .digest();
+  const info = Buffer.concat([Buffer.from('Caldera Derived Key', 'utf8'), Buffer.from([1])]);
+  return crypto.createHmac('sha256', prk).update(info).digest().subarray(0, 16);
+}
+
+/**
+ * Formats a date the way Cognito expects it, e.g. "Tue Sep 3 09:04:05 UTC 2024".
+ */
+export function formatTimestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${WEEK_DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} UTC ${date.getUTCFullYear()}`;
+}
+
+/**
+ * Hex encodes a positive integer so that it is read back as positive
+ * (even length, leading 00 if the high bit is set).
+ */
+export function padHex(value: bigint): string {
+  let hex = value.toString(16);
+  if (hex.length % 2 === 1) {
+    hex = `0${hex}`;
+  } else if ('89abcdef'.includes(hex[0])) {
+    hex = `00${hex}`;
+  }
+  return hex;
+}
+
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = BigInt(1);
+  let b = mod(base, modulus);
+  let e = exponent;
+  while (e > BigInt(0)) {
+    if (e & BigInt(1)) {
+      result = (result * b) % modulus;
+    }
+    e >>= BigInt(1);
+    b = (b * b) % modulus;
+  }
+  return result;
+}
+
+function mod(value: bigint, modulus: bigint): bigint {
+  return ((value % modulus) + modulus) % modulus;
+}
+
+function hashHex(hex: string): bigint {
+  return BigInt(`0x${crypto.createHash('sha256').update(Buffer.from(hex, 'hex')).digest('hex')}`);
+}
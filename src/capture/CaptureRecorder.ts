@@ -0,0 +1,115 @@
+import type { MqttConnection } from '../mqtt/MqttConnection';
+import { MaveoError } from '../errors';
+import { RawMessage } from '../types';
+import { debug } from '../utils/logger';
+import { appendJsonLines, WriteQueue } from '../utils/jsonl';
+import { CAPTURE_FORMAT, CAPTURE_VERSION, Capture, CaptureEntry, CaptureHeader, CaptureMessageEntry } from './format';
+
+// An entry before its time is known, for each entry type
+type Untimed<E> = E extends CaptureEntry ? Omit<E, 'at'> : never;
+type UntimedEntry = Untimed<CaptureEntry>;
+
+/**
+ * Records a session: messages and connection events with their time relative
+ * to the first entry. With a file path the session is appended to a capture file
+ * in JSON Lines, a header line followed by one entry per line; an existing file
+ * is never truncated.
+ */
+export class CaptureRecorder {
+  private readonly filePath: string | null;
+  private header: CaptureHeader | null = null;
+  private startedAt = 0;
+  private entries: CaptureEntry[] = [];
+  private readonly writes = new WriteQueue(error => debug.capture('Failed to write capture entry: %O', error));
+
+  /**
+   * @param filePath - Path of the capture file, created on first write. Default: keep the session in memory only
+   */
+  constructor(filePath: string | null = null) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Records the messages and connection events of a connection.
+   * @param connection - The connection
+   * @returns A function that stops recording the connection
+   */
+  attach(connection: MqttConnection): () => void {
+    const handlers = {
+      rawMessage: (message: RawMessage) => this.recordMessage(message),
+      connected: () => this.record(Date.now(), { type: 'connected' }),
+      disconnected: () => this.record(Date.now(), { type: 'disconnected' }),
+      reconnecting: (attempt: number, maxAttempts: number, delay: number) => this.record(Date.now(), { type: 'reconnecting', attempt, maxAttempts, delay }),
+      reconnectFailed: (attempts: number) => this.record(Date.now(), { type: 'reconnectFailed', attempts }),
+      error: (error: MaveoError) => this.record(Date.now(), { type: 'error', code: error.code, message: error.message })
+    };
+
+    connection.on('rawMessage', handlers.rawMessage);
+    connection.on('connected', handlers.connected);
+    connection.on('disconnected', handlers.disconnected);
+    connection.on('reconnecting', handlers.reconnecting);
+    connection.on('reconnectFailed', handlers.reconnectFailed);
+    connection.on('error', handlers.error);
+
+    return () => {
+      connection.removeListener('rawMessage', handlers.rawMessage);
+      connection.removeListener('connected', handlers.connected);
+      connection.removeListener('disconnected', handlers.disconnected);
+      connection.removeListener('reconnecting', handlers.reconnecting);
+      connection.removeListener('reconnectFailed', handlers.reconnectFailed);
+      connection.removeListener('error', handlers.error);
+    };
+  }
+
+  /**
+   * Records a raw message.
+   * @param message - The message
+   */
+  recordMessage(message: RawMessage): void {
+    this.record(message.timestamp.getTime(), {
+      type: message.direction,
+      topic: message.topic,
+      ...encodePayload(message.payload)
+    });
+  }
+
+  /**
+   * Gets the session recorded so far.
+   * @returns The session, or null if nothing was recorded yet
+   */
+  getCapture(): Capture | null {
+    return this.header ? { header: this.header, entries: [...this.entries] } : null;
+  }
+
+  /**
+   * Waits until all entries have been written.
+   */
+  flush(): Promise<void> {
+    return this.writes.flush();
+  }
+
+  private record(timestamp: number, untimed: UntimedEntry): void {
+    const lines: Array<CaptureHeader | CaptureEntry> = [];
+    if (!this.header) {
+      this.startedAt = timestamp;
+      this.header = { format: CAPTURE_FORMAT, version: CAPTURE_VERSION, startedAt: new Date(timestamp).toISOString() };
+      lines.push(this.header);
+    }
+
+    const entry = { at: timestamp - this.startedAt, ...untimed } as CaptureEntry;
+    this.entries.push(entry);
+    lines.push(entry);
+
+    const filePath = this.filePath;
+    if (filePath) {
+      this.writes.push(() => appendJsonLines(filePath, lines));
+    }
+  }
+}
+
+function encodePayload(payload: Buffer): Pick<CaptureMessageEntry, 'payload' | 'encoding'> {
+  const text = payload.toString('utf8');
+  return Buffer.from(text, 'utf8').equals(payload)
+    ? { payload: text }
+    : { payload: payload.toString('base64'), encoding: 'base64' };
+}
@@ -0,0 +1,230 @@
+import TypedEmitter from 'typed-emitter';
+import { EventEmitter } from 'events';
+import { Duplex } from 'stream';
+import { IClientOptions, MqttClient } from 'mqtt';
+import * as mqttPacket from 'mqtt-packet';
+import { MqttTransport } from '../mqtt/MqttTransport';
+import { ConfigError } from '../errors';
+import { debug } from '../utils/logger';
+import { Capture, decodeCapturePayload } from './format';
+
+/**
+ * Options for ReplayTransport.
+ */
+export interface ReplayTransportOptions {
+  /** Playback speed, 2 plays twice as fast. Default: 1 */
+  speed?: number;
+}
+
+/**
+ * Events emitted by ReplayTransport.
+ */
+export type ReplayTransportEvents = {
+  /** The client published a message */
+  published: (topic: string, payload: Buffer) => void;
+  /** Everything of the last recorded connection attempt was played */
+  finished: () => void;
+}
+
+type ReplayAction =
+  | { delay: number; action: 'message'; topic: string; payload: Buffer }
+  | { delay: number; action: 'close' };
+
+interface ReplayAttempt {
+  /** Whether the broker accepted the connection */
+  accepted: boolean;
+  /** Whether the recorded attempt failed with an error rather than timing out */
+  refused: boolean;
+  connectedAt: number;
+  actions: ReplayAction[];
+}
+
+/**
+ * Plays a recorded session back to a MaveoClient without network, e.g. in
+ * regression tests. Every connection attempt of the client gets the next
+ * recorded attempt: refused, left unanswered, or accepted with the received
+ * messages and the disconnect at their recorded times. Commands the client
+ * publishes are reported, not checked.
+ *
+ * @example
+ * ```typescript
+ * const [capture] = await readCapture('./captures/garage.jsonl');
+ * const client = new MaveoClient({ ...config, transport: new ReplayTransport(capture) });
+ * ```
+ */
+export class ReplayTransport extends (EventEmitter as new () => TypedEmitter<ReplayTransportEvents>) implements MqttTransport {
+  private readonly attempts: ReplayAttempt[];
+  private readonly speed: number;
+  private readonly published: Array<{ topic: string; payload: Buffer }> = [];
+  private readonly streams = new Set<Duplex>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private nextAttempt = 0;
+
+  /**
+   * @param capture - The recorded session
+   * @param options - Playback options
+   * @throws {ConfigError} If the speed is not positive
+   */
+  constructor(capture: Capture, options: ReplayTransportOptions = {}) {
+    super();
+    this.speed = options.speed ?? 1;
+    if (!(this.speed > 0)) {
+      throw new ConfigError(`Invalid replay speed: ${this.speed}`);
+    }
+    this.attempts = toAttempts(capture);
+  }
+
+  createClient(options: IClientOptions): MqttClient {
+    const attempt = this.attempts[this.nextAttempt++] ?? null;
+    if (!attempt) {
+      debug.capture('No recorded connection attempt left, refusing');
+    }
+    return new MqttClient(() => this.createStream(attempt), options);
+  }
+
+  /**
+   * Gets the messages the client published so far.
+   */
+  getPublished(): Array<{ topic: string; payload: Buffer }> {
+    return [...this.published];
+  }
+
+  /**
+   * Stops playing and closes all open connections.
+   */
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.streams.forEach(stream => stream.destroy());
+    this.streams.clear();
+  }
+
+  private createStream(attempt: ReplayAttempt | null): Duplex {
+    const parser = mqttPacket.parser({ protocolVersion: 4 });
+    const stream = new Duplex({
+      read: () => undefined,
+      write: (chunk: Buffer, _encoding, callback) => {
+        parser.parse(chunk);
+        callback();
+      }
+    });
+    const send = (packet: mqttPacket.Packet) => {
+      if (!stream.destroyed) {
+        stream.push(mqttPacket.generate(packet));
+      }
+    };
+
+    this.streams.add(stream);
+    stream.on('close', () => this.streams.delete(stream));
+
+    parser.on('packet', (packet: mqttPacket.Packet) => {
+      switch (packet.cmd) {
+        case 'connect':
+          if (attempt?.accepted) {
+            send({ cmd: 'connack', returnCode: 0, sessionPresent: false });
+            this.play(attempt, stream, send);
+          } else if (!attempt || attempt.refused) {
+            // Not authorized, like AWS IoT with invalid credentials
+            send({ cmd: 'connack', returnCode: 5, sessionPresent: false });
+            this.finishIfLast(attempt);
+          } else {
+            // The recorded attempt timed out
+            this.finishIfLast(attempt);
+          }
+          break;
+        case 'subscribe':
+          send({ cmd: 'suback', messageId: packet.messageId, granted: packet.subscriptions.map(subscription => Math.min(subscription.qos, 1)) });
+          break;
+        case 'unsubscribe':
+          send({ cmd: 'unsuback', messageId: packet.messageId, granted: [] });
+          break;
+        case 'publish': {
+          if (packet.qos > 0) {
+            send({ cmd: 'puback', messageId: packet.messageId });
+          }
+          const payload = Buffer.from(packet.payload);
+          this.published.push({ topic: packet.topic, payload });
+          this.emit('published', packet.topic, payload);
+          break;
+        }
+        case 'pingreq':
+          send({ cmd: 'pingresp' });
+          break;
+        case 'disconnect':
+          stream.push(null);
+          break;
+      }
+    });
+
+    return stream;
+  }
+
+  private play(attempt: ReplayAttempt, stream: Duplex, send: (packet: mqttPacket.Packet) => void): void {
+    attempt.actions.forEach(action => this.schedule(action.delay, () => {
+      if (action.action === 'message') {
+        send({ cmd: 'publish', topic: action.topic, payload: action.payload, qos: 0, retain: false, dup: false });
+      } else {
+        stream.destroy();
+      }
+    }));
+
+    const end = attempt.actions.reduce((latest, action) => Math.max(latest, action.delay), 0);
+    this.schedule(end, () => this.finishIfLast(attempt));
+  }
+
+  private schedule(delay: number, callback: () => void): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, delay / this.speed);
+    this.timers.add(timer);
+  }
+
+  private finishIfLast(attempt: ReplayAttempt | null): void {
+    if (attempt === this.attempts[this.attempts.length - 1]) {
+      debug.capture('Replay finished');
+      this.emit('finished');
+    }
+  }
+}
+
+// Every reconnecting entry starts another connection attempt
+function toAttempts(capture: Capture): ReplayAttempt[] {
+  const attempts: ReplayAttempt[] = [];
+  const startAttempt = () => {
+    const attempt: ReplayAttempt = { accepted: false, refused: false, connectedAt: 0, actions: [] };
+    attempts.push(attempt);
+    return attempt;
+  };
+
+  let current = startAttempt();
+  capture.entries.forEach((entry, index) => {
+    switch (entry.type) {
+      case 'reconnecting':
+        current = startAttempt();
+        break;
+      case 'connected':
+        current.accepted = true;
+        current.connectedAt = entry.at;
+        break;
+      case 'error':
+        current.refused ||= !current.accepted;
+        break;
+      case 'received':
+        if (current.accepted) {
+          current.actions.push({ delay: entry.at - current.connectedAt, action: 'message', topic: entry.topic, payload: decodeCapturePayload(entry) });
+        }
+        break;
+      case 'disconnected': {
+        // A session ending with a disconnect was ended by the client, which the replayed client does itself
+        const endsSession = !capture.entries.slice(index + 1).some(next => next.type === 'reconnecting');
+        if (current.accepted && !endsSession) {
+          current.actions.push({ delay: entry.at - current.connectedAt, action: 'close' });
+        }
+        break;
+      }
+    }
+  });
+
+  return attempts;
+}
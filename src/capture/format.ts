@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import { ConfigError } from '../errors';
+import { debug } from '../utils/logger';
+import { parseJsonLines } from '../utils/jsonl';
+
+export const CAPTURE_FORMAT = 'maveo-capture';
+export const CAPTURE_VERSION = 1;
+
+/**
+ * First line of every recorded session.
+ */
+export interface CaptureHeader {
+  format: typeof CAPTURE_FORMAT;
+  version: number;
+  /** When the first entry was recorded, ISO 8601 */
+  startedAt: string;
+}
+
+/**
+ * A message received or published during a recorded session.
+ */
+export interface CaptureMessageEntry {
+  /** Milliseconds since startedAt */
+  at: number;
+  type: 'received' | 'published';
+  topic: string;
+  /** The payload as UTF-8 text, or base64 if it is not valid UTF-8 */
+  payload: string;
+  encoding?: 'base64';
+}
+
+/**
+ * A connection event during a recorded session.
+ */
+export type CaptureConnectionEntry =
+  | { at: number; type: 'connected' }
+  | { at: number; type: 'disconnected' }
+  | { at: number; type: 'reconnecting'; attempt: number; maxAttempts: number; delay: number }
+  | { at: number; type: 'reconnectFailed'; attempts: number }
+  | { at: number; type: 'error'; code: string; message: string };
+
+/**
+ * A line of a capture file after the header.
+ */
+export type CaptureEntry = CaptureMessageEntry | CaptureConnectionEntry;
+
+/**
+ * A recorded session.
+ */
+export interface Capture {
+  header: CaptureHeader;
+  entries: CaptureEntry[];
+}
+
+/**
+ * Parses the sessions of a capture file.
+ * @param content - The JSON Lines content
+ * @returns The sessions in the order they were recorded
+ * @throws {ConfigError} If the content does not start with a header or has an unsupported version
+ */
+export function parseCapture(content: string): Capture[] {
+  const captures: Capture[] = [];
+
+  const lines = parseJsonLines<CaptureHeader | CaptureEntry>(content, line => debug.capture('Skipping invalid capture line: %s', line));
+
+  for (const parsed of lines) {
+    if ('format' in parsed) {
+      if (parsed.format !== CAPTURE_FORMAT || parsed.version > CAPTURE_VERSION) {
+        throw new ConfigError(`Unsupported capture format: ${parsed.format} version ${parsed.version}`);
+      }
+      captures.push({ header: parsed, entries: [] });
+      continue;
+    }
+
+    const current = captures[captures.length - 1];
+    if (!current) {
+      throw new ConfigError('Invalid capture: entry before the header');
+    }
+    current.entries.push(parsed);
+  }
+
+  return captures;
+}
+
+/**
+ * Reads the sessions of a capture file.
+ * @param filePath - Path of the capture file
+ * @returns The sessions in the order they were recorded
+ * @throws {ConfigError} If the file does not start with a header or has an unsupported version
+ */
+export async function readCapture(filePath: string): Promise<Capture[]> {
+  return parseCapture(await fs.readFile(filePath, 'utf8'));
+}
+
+/**
+ * Gets the bytes of a recorded message.
+ * @param entry - The entry
+ */
+export function decodeCapturePayload(entry: CaptureMessageEntry): Buffer {
+  return Buffer.from(entry.payload, entry.encoding === 'base64' ? 'base64' : 'utf8');
+}
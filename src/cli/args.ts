@@ -0,0 +1,116 @@
+import { parseArgs } from 'util';
+import { ConfigError } from '../errors';
+
+/**
+ * Subcommands of the maveo CLI.
+ */
+export type CliCommand = 'status' | 'open' | 'close' | 'stop' | 'intermediate' | 'light' | 'watch' | 'help';
+
+/**
+ * Parsed command line.
+ */
+export interface CliArgs {
+  command: CliCommand;
+  /** Light state for the light command */
+  light?: 'on' | 'off';
+  /** Wait until the door reached the target state */
+  wait: boolean;
+  /** Timeout in milliseconds for --wait */
+  timeout?: number;
+  /** Print machine-readable JSON */
+  json: boolean;
+  /** Path of the JSON config file */
+  configPath?: string;
+  /** Device ID overriding config and environment */
+  deviceId?: string;
+}
+
+const COMMANDS: CliCommand[] = ['status', 'open', 'close', 'stop', 'intermediate', 'light', 'watch', 'help'];
+
+export const USAGE = `Usage: maveo <command> [options]
+
+Commands:
+  status                Print the current door status
+  open                  Open the door
+  close                 Close the door
+  stop                  Stop the door
+  intermediate          Move the door to the intermediate position
+  light on|off          Switch the light
+  watch                 Print status changes until interrupted
+
+Options:
+  -w, --wait            Wait until the door or light reached the target state
+  -t, --timeout <ms>    Timeout for --wait in milliseconds
+      --json            Print JSON instead of text
+  -c, --config <path>   Config file (default: ~/.config/maveo/config.json)
+  -d, --device <id>     Device ID (overrides config and MAVEO_DEVICE_ID)
+  -h, --help            Show this help
+
+Environment:
+  MAVEO_USERNAME, MAVEO_PASSWORD, MAVEO_DEVICE_ID, MAVEO_REGION,
+  MAVEO_CONFIG, MAVEO_SESSION_FILE`;
+
+/**
+ * Parses the command line arguments (without node and script path).
+ * @param argv - Arguments to parse
+ * @returns The parsed arguments
+ * @throws {ConfigError} On unknown commands or invalid options
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+  let parsed: ReturnType<typeof parseOptions>;
+  try {
+    parsed = parseOptions(argv);
+  } catch (error) {
+    throw new ConfigError(error instanceof Error ? error.message : String(error), { cause: error });
+  }
+
+  const { values, positionals } = parsed;
+  const [name = 'help', ...rest] = positionals;
+  const command = values.help ? 'help' : name as CliCommand;
+
+  if (!COMMANDS.includes(command)) {
+    throw new ConfigError(`Unknown command: ${name}`);
+  }
+
+  let light: CliArgs['light'];
+  if (command === 'light') {
+    if (rest[0] !== 'on' && rest[0] !== 'off') {
+      throw new ConfigError('light requires "on" or "off"');
+    }
+    light = rest[0];
+  }
+
+  let timeout: number | undefined;
+  if (values.timeout !== undefined) {
+    timeout = Number(values.timeout);
+    if (!Number.isInteger(timeout) || timeout <= 0) {
+      throw new ConfigError(`Invalid timeout: ${values.timeout}`);
+    }
+  }
+
+  return {
+    command,
+    light,
+    wait: values.wait ?? false,
+    timeout,
+    json: values.json ?? false,
+    configPath: values.config,
+    deviceId: values.device
+  };
+}
+
+function parseOptions(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      wait: { type: 'boolean', short: 'w' },
+      timeout: { type: 'string', short: 't' },
+      json: { type: 'boolean' },
+      config: { type: 'string', short: 'c' },
+      device: { type: 'string', short: 'd' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+}
@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSessionStore } from '../auth/SessionStore';
+import { ConfigError } from '../errors';
+import { MaveoConfig, MaveoEndpointProfile, MaveoRegion } from '../types';
+import { CliArgs } from './args';
+
+/**
+ * Contents of the CLI config file.
+ */
+export interface CliConfigFile {
+  username?: string;
+  password?: string;
+  deviceId?: string;
+  endpoint?: MaveoRegion | MaveoEndpointProfile;
+  /** Persist the login in this file to avoid rate limits */
+  sessionFile?: string;
+}
+
+export const DEFAULT_CONFIG_PATH = path.join(os.homedir(), '.config', 'maveo', 'config.json');
+
+/**
+ * Builds the client config from command line, environment and config file,
+ * in that order of precedence.
+ * @param args - Parsed command line
+ * @param env - Environment variables
+ * @returns Config for MaveoClient
+ * @throws {ConfigError} If the config file is invalid or credentials are missing
+ */
+export async function loadCliConfig(args: CliArgs, env: NodeJS.ProcessEnv = process.env): Promise<MaveoConfig> {
+  const explicitPath = args.configPath ?? env.MAVEO_CONFIG;
+  const file = await readConfigFile(explicitPath ?? DEFAULT_CONFIG_PATH, explicitPath !== undefined);
+
+  const username = env.MAVEO_USERNAME ?? file.username;
+  const password = env.MAVEO_PASSWORD ?? file.password;
+  const deviceId = args.deviceId ?? env.MAVEO_DEVICE_ID ?? file.deviceId;
+  const endpoint = (env.MAVEO_REGION as MaveoRegion | undefined) ?? file.endpoint;
+  const sessionFile = env.MAVEO_SESSION_FILE ?? file.sessionFile;
+
+  if (!username || !password) {
+    throw new ConfigError('Missing credentials: set MAVEO_USERNAME and MAVEO_PASSWORD or use a config file');
+  }
+  if (!deviceId) {
+    throw new ConfigError('Missing device: set MAVEO_DEVICE_ID, use --device or a config file');
+  }
+
+  return {
+    username,
+    password,
+    deviceId,
+    endpoint,
+    sessionStore: sessionFile ? new FileSessionStore(sessionFile) : undefined
+  };
+}
+
+async function readConfigFile(filePath: string, required: boolean): Promise<CliConfigFile> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if (!required && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new ConfigError(`Cannot read config file ${filePath}`, { cause: error });
+  }
+
+  try {
+    return JSON.parse(content) as CliConfigFile;
+  } catch (error) {
+    throw new ConfigError(`Invalid JSON in config file ${filePath}`, { cause: error });
+  }
+}
@@ -0,0 +1,260 @@
+#!/usr/bin/env node
+import { MaveoClient } from '../MaveoClient';
+import { MaveoError } from '../errors';
+import { MaveoStatus, WaitOptions } from '../types';
+import { CliArgs, parseCliArgs, USAGE } from './args';
+import { loadCliConfig } from './config';
+
+// Reported as the source of commands sent from the command line
+const COMMAND_SOURCE = 'cli';
+
+/**
+ * Process exit codes of the CLI.
+ */
+export const EXIT_CODES = {
+  /** Command succeeded, door reached the target state with --wait */
+  OK: 0,
+  /** Unexpected error */
+  ERROR: 1,
+  /** Invalid arguments or config */
+  USAGE: 2,
+  /** Login failed */
+  AUTH: 3,
+  /** Connection failed or dropped */
+  CONNECTION: 4,
+  /** Door or status did not respond in time */
+  TIMEOUT: 5,
+  /** Door stopped before reaching the target state */
+  DOOR_STOPPED: 6,
+  /** A command guard refused the door command */
+  VETOED: 7
+} as const;
+
+/**
+ * Output streams and environment used by the CLI.
+ */
+export interface CliIo {
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Maps an error to the process exit code.
+ * @param error - The error that ended the command
+ */
+export function getExitCode(error: unknown): number {
+  if (!(error instanceof MaveoError)) {
+    return EXIT_CODES.ERROR;
+  }
+
+  switch (error.code) {
+    case 'CONFIG_INVALID':
+      return EXIT_CODES.USAGE;
+    case 'AUTH_INVALID_CREDENTIALS':
+    case 'AUTH_THROTTLED':
+    case 'AUTH_CHALLENGE':
+    case 'AUTH_FAILED':
+      return EXIT_CODES.AUTH;
+    case 'STATUS_TIMEOUT':
+    case 'DOOR_TIMEOUT':
+    case 'LIGHT_TIMEOUT':
+      return EXIT_CODES.TIMEOUT;
+    case 'DOOR_STOPPED':
+      return EXIT_CODES.DOOR_STOPPED;
+    case 'COMMAND_VETOED':
+      return EXIT_CODES.VETOED;
+    case 'CONNECT_TIMEOUT':
+    case 'CONNECT_FAILED':
+    case 'CONNECTION_ERROR':
+    case 'NOT_CONNECTED':
+    case 'SUBSCRIBE_FAILED':
+    case 'PUBLISH_FAILED':
+    case 'RECONNECT_EXHAUSTED':
+    case 'DOOR_DISCONNECTED':
+      return EXIT_CODES.CONNECTION;
+    default:
+      return EXIT_CODES.ERROR;
+  }
+}
+
+/**
+ * Formats a status as a line of text or JSON.
+ */
+export function formatStatus(status: MaveoStatus, json: boolean): string {
+  const state = MaveoClient.getDoorStateString(status.doorState);
+  if (json) {
+    return JSON.stringify({
+      device: status.device,
+      state: state.toLowerCase(),
+      doorState: status.doorState,
+      rawValue: status.rawValue,
+      lightOn: status.lightOn
+    });
+  }
+  if (status.lightOn !== null) {
+    return `${status.device}: ${state}, light ${status.lightOn ? 'on' : 'off'}`;
+  }
+  return `${status.device}: ${state}`;
+}
+
+/**
+ * Runs the CLI.
+ * @param argv - Arguments without node and script path
+ * @param io - Output streams and environment
+ * @returns The process exit code
+ */
+export async function run(argv: string[], io: CliIo = process): Promise<number> {
+  const print = (line: string) => io.stdout.write(`${line}\n`);
+  let args: CliArgs | null = null;
+  let client: MaveoClient | null = null;
+
+  try {
+    args = parseCliArgs(argv);
+
+    if (args.command === 'help') {
+      print(USAGE);
+      return EXIT_CODES.OK;
+    }
+
+    const connected = new MaveoClient(await loadCliConfig(args, io.env));
+    client = connected;
+
+    // Without a listener an error event would crash the process instead of ending the command.
+    // watch reports errors itself and only gives up once reconnecting has failed.
+    const command = args.command;
+    const failed = new Promise<never>((_, reject) => connected.on('error', error => {
+      if (command !== 'watch') reject(error);
+    }));
+
+    await Promise.race([failed, connectAndRun(connected, args, io)]);
+    return EXIT_CODES.OK;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (args?.json) {
+      const code = error instanceof MaveoError ? error.code : 'UNKNOWN';
+      print(JSON.stringify({ error: { code, message } }));
+    } else {
+      io.stderr.write(`Error: ${message}\n`);
+      if (!args) {
+        io.stderr.write(`\n${USAGE}\n`);
+      }
+    }
+
+    return getExitCode(error);
+  } finally {
+    await client?.disconnect();
+  }
+}
+
+async function connectAndRun(client: MaveoClient, args: CliArgs, io: CliIo): Promise<void> {
+  await client.connect();
+  await runCommand(client, args, io);
+}
+
+async function runCommand(client: MaveoClient, args: CliArgs, io: CliIo): Promise<void> {
+  const print = (line: string) => io.stdout.write(`${line}\n`);
+  const waitOptions: WaitOptions = { timeout: args.timeout, source: COMMAND_SOURCE };
+
+  const sendDoorCommand = async (send: () => Promise<unknown>, sendAndWait: (options: WaitOptions) => Promise<MaveoStatus>) => {
+    if (args.wait) {
+      print(formatStatus(await sendAndWait(waitOptions), args.json));
+      return;
+    }
+
+    await send();
+    print(args.json ? JSON.stringify({ command: args.command, sent: true }) : `Sent ${args.command} command`);
+  };
+
+  switch (args.command) {
+    case 'status':
+      print(formatStatus(await client.getStatus(), args.json));
+      break;
+    case 'open':
+      await sendDoorCommand(() => client.open({ source: COMMAND_SOURCE }), options => client.openAndWait(options));
+      break;
+    case 'close':
+      await sendDoorCommand(() => client.close({ source: COMMAND_SOURCE }), options => client.closeAndWait(options));
+      break;
+    case 'stop':
+      await sendDoorCommand(() => client.stop({ source: COMMAND_SOURCE }), options => client.stopAndWait(options));
+      break;
+    case 'intermediate':
+      await sendDoorCommand(() => client.moveToIntermediate({ source: COMMAND_SOURCE }), options => client.moveToIntermediateAndWait(options));
+      break;
+    case 'light':
+      if (args.wait) {
+        const light = args.light === 'on'
+          ? await client.lightOnAndWait(waitOptions)
+          : await client.lightOffAndWait(waitOptions);
+        print(args.json ? JSON.stringify(light) : `${light.device}: light ${light.lightOn ? 'on' : 'off'}`);
+        break;
+      }
+      await (args.light === 'on'
+        ? client.lightOn({ source: COMMAND_SOURCE })
+        : client.lightOff({ source: COMMAND_SOURCE }));
+      print(args.json ? JSON.stringify({ command: 'light', light: args.light, sent: true }) : `Sent light ${args.light} command`);
+      break;
+    case 'watch':
+      await watch(client, args, io);
+      break;
+  }
+}
+
+function watch(client: MaveoClient, args: CliArgs, io: CliIo): Promise<void> {
+  const print = (line: string) => io.stdout.write(`${line}\n`);
+  const event = (name: string, text: string) => print(args.json ? JSON.stringify({ event: name }) : text);
+
+  const current = client.getCurrentStatus();
+  if (current) {
+    print(formatStatus(current, args.json));
+  }
+
+  client.on('status', status => print(formatStatus(status, args.json)));
+  client.on('lightChanged', light => {
+    print(args.json
+      ? JSON.stringify({ event: 'lightChanged', lightOn: light.lightOn })
+      : `${light.device}: light ${light.lightOn ? 'on' : 'off'}`);
+  });
+  client.on('connected', () => event('connected', 'Connected'));
+  client.on('disconnected', () => event('disconnected', 'Disconnected'));
+  client.on('reconnecting', (attempt, max, delay) => {
+    print(args.json
+      ? JSON.stringify({ event: 'reconnecting', attempt, maxAttempts: max, delayMs: delay })
+      : `Reconnecting in ${delay}ms (attempt ${attempt}/${max})`);
+  });
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      process.removeListener('SIGINT', stop);
+      process.removeListener('SIGTERM', stop);
+    };
+
+    const stop = () => {
+      cleanup();
+      resolve();
+    };
+
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+
+    // Only give up once reconnecting has failed for good
+    client.on('error', error => {
+      if (error.code === 'RECONNECT_EXHAUSTED') {
+        cleanup();
+        reject(error);
+      } else if (args.json) {
+        print(JSON.stringify({ event: 'error', code: error.code, message: error.message }));
+      } else {
+        io.stderr.write(`Error: ${error.message}\n`);
+      }
+    });
+  });
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -7,11 +7,7 @@ export const AWS_REGION = 'eu-central-1';
 export const USER_POOL_ID = 'eu-central-1_ozbW8rTAj';
 export const CLIENT_ID = '34eruqhvvnniig5bccrre6s0ck';
 
-// potential UR blufi endpoints
-//export const AWS_REGION = 'us-west-2';
-//export const USER_POOL_ID = '"us-west-2_me1sJlGXO"';
-//export const IDENTITY_POOL_ID = 'us-west-2:91b51fae-6590-4452-9154-b5daf4ca745e;
-//export const IOT_HOST = 'us-west-2.iot.prod.marantec-cloud.de';
+// Other regions (e.g. US blufi) are configured via endpoint profiles, see endpoints.ts
 
 // Cognito Identity Pool - for AWS credentials
 export const IDENTITY_POOL_ID = 'eu-central-1:b3ebe605-53c9-463e-8738-70ae01b042ee';
@@ -29,4 +25,11 @@ export const DEFAULT_CONNECT_TIMEOUT = 30000;
 export const DEFAULT_STATUS_TIMEOUT = 10000;
 export const DEFAULT_MAX_RECONNECT_ATTEMPTS = 10;
 export const DEFAULT_BASE_RECONNECT_DELAY = 1000;
+export const DEFAULT_MAX_RECONNECT_DELAY = 5 * 60 * 1000;
 export const DEFAULT_KEEPALIVE = 60;
+export const DEFAULT_MOVE_TIMEOUT = 60000;
+export const DEFAULT_CREDENTIAL_REFRESH_MARGIN = 5 * 60 * 1000;
+export const DEFAULT_MAX_MISSED_POLLS = 2;
+
+// Source reported for commands sent without CommandOptions.source
+export const DEFAULT_COMMAND_SOURCE = 'api';
@@ -0,0 +1,72 @@
+import {
+  AWS_REGION,
+  USER_POOL_ID,
+  CLIENT_ID,
+  IDENTITY_POOL_ID,
+  IOT_HOST,
+  IOT_PORT
+} from './constants';
+import { MaveoEndpointProfile, MaveoRegion } from './types';
+import { ConfigError } from './errors';
+
+/**
+ * Endpoint profile with all defaults filled in.
+ */
+export type ResolvedEndpointProfile = Required<MaveoEndpointProfile>;
+
+/**
+ * Built-in endpoint profiles.
+ *
+ * The app client ID of the US cloud (used by maveo blufi sticks) is not known
+ * yet, so that profile needs it as an override: `{ ...ENDPOINT_PROFILES.us, clientId: '...' }`.
+ */
+export const ENDPOINT_PROFILES: Readonly<Record<MaveoRegion, Readonly<MaveoEndpointProfile>>> = {
+  eu: {
+    region: AWS_REGION,
+    userPoolId: USER_POOL_ID,
+    clientId: CLIENT_ID,
+    identityPoolId: IDENTITY_POOL_ID,
+    iotHost: IOT_HOST,
+    iotPort: IOT_PORT
+  },
+  us: {
+    region: 'us-west-2',
+    userPoolId: 'us-west-2_me1sJlGXO',
+    clientId: '',
+    identityPoolId: 'us-west-2:91b51fae-6590-4452-9154-b5daf4ca745e',
+    iotHost: 'us-west-2.iot.prod.marantec-cloud.de',
+    iotPort: IOT_PORT
+  }
+};
+
+/**
+ * Resolves a region name or custom profile and fills in derived endpoints.
+ * @param endpoint - Region name or custom profile. Default: 'eu'
+ * @returns The profile with all fields set
+ * @throws {ConfigError} If the region is unknown or a required field is empty, e.g. the clientId of 'us'
+ */
+export function resolveEndpointProfile(endpoint: MaveoRegion | MaveoEndpointProfile = 'eu'): ResolvedEndpointProfile {
+  const profile = typeof endpoint === 'string' ? ENDPOINT_PROFILES[endpoint] : endpoint;
+  if (!profile) {
+    throw new ConfigError(`Unknown Maveo region: ${endpoint}`);
+  }
+
+  const required = ['region', 'userPoolId', 'clientId', 'identityPoolId', 'iotHost'] as const;
+  for (const field of required) {
+    if (!profile[field]?.trim()) {
+      throw new ConfigError(typeof endpoint === 'string'
+        ? `The '${endpoint}' endpoint profile has no ${field}, pass { ...ENDPOINT_PROFILES.${endpoint}, ${field}: '...' } as endpoint`
+        : `Endpoint profile is missing ${field}`);
+    }
+  }
+
+  const iotPort = profile.iotPort ?? IOT_PORT;
+
+  return {
+    ...profile,
+    iotPort,
+    iotUrl: profile.iotUrl ?? `wss://${profile.iotHost}:${iotPort}/mqtt`,
+    cognitoIdpEndpoint: profile.cognitoIdpEndpoint ?? `https://cognito-idp.${profile.region}.amazonaws.com`,
+    cognitoIdentityEndpoint: profile.cognitoIdentityEndpoint ?? `https://cognito-identity.${profile.region}.amazonaws.com`
+  };
+}
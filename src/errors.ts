@@ -0,0 +1,272 @@
+import { DoorCommand, DoorState, MaveoStatus, AuthChallengeName, CommandRequest } from './types';
+
+/**
+ * Machine-readable error codes of MaveoError.
+ */
+export type MaveoErrorCode =
+  /** Invalid configuration or arguments */
+  | 'CONFIG_INVALID'
+  /** Cognito rejected the username, password or refresh token */
+  | 'AUTH_INVALID_CREDENTIALS'
+  /** Cognito rate-limited the request */
+  | 'AUTH_THROTTLED'
+  /** Cognito requires a challenge that was not answered */
+  | 'AUTH_CHALLENGE'
+  /** Any other authentication failure */
+  | 'AUTH_FAILED'
+  /** The MQTT connection was not established in time */
+  | 'CONNECT_TIMEOUT'
+  /** The MQTT connection could not be established */
+  | 'CONNECT_FAILED'
+  /** The established MQTT connection reported an error */
+  | 'CONNECTION_ERROR'
+  /** A command was sent without an open connection */
+  | 'NOT_CONNECTED'
+  /** Subscribing to a device topic failed */
+  | 'SUBSCRIBE_FAILED'
+  /** Publishing a command failed */
+  | 'PUBLISH_FAILED'
+  /** All reconnection attempts failed */
+  | 'RECONNECT_EXHAUSTED'
+  /** The device did not answer a status request in time */
+  | 'STATUS_TIMEOUT'
+  /** A device message could not be parsed */
+  | 'PROTOCOL_PARSE'
+  /** A message is valid JSON but does not follow the protocol */
+  | 'PROTOCOL_INVALID'
+  /** The door did not reach the expected state in time */
+  | 'DOOR_TIMEOUT'
+  /** The door stopped before reaching the expected state */
+  | 'DOOR_STOPPED'
+  /** The connection dropped while waiting for the door */
+  | 'DOOR_DISCONNECTED'
+  /** The light did not report the expected state in time */
+  | 'LIGHT_TIMEOUT'
+  /** The command queue expired or dropped a command before it was sent */
+  | 'COMMAND_NOT_SENT'
+  /** A command guard refused a door command */
+  | 'COMMAND_VETOED'
+  /** The door travel times could not be measured */
+  | 'CALIBRATION_FAILED';
+
+/**
+ * Additional error details.
+ */
+export interface MaveoErrorOptions {
+  /** The underlying error */
+  cause?: unknown;
+  /** Cognito error type (`__type`), e.g. NotAuthorizedException */
+  awsErrorType?: string;
+}
+
+/**
+ * Base class of all errors thrown or emitted by this library.
+ * Use `code` to tell failures apart instead of matching on the message.
+ */
+export class MaveoError extends Error {
+  readonly code: MaveoErrorCode;
+  readonly cause?: unknown;
+  readonly awsErrorType?: string;
+
+  constructor(code: MaveoErrorCode, message: string, options: MaveoErrorOptions = {}) {
+    super(message);
+    this.name = 'MaveoError';
+    this.code = code;
+    this.cause = options.cause;
+    this.awsErrorType = options.awsErrorType;
+  }
+}
+
+/**
+ * Thrown for invalid configuration or arguments.
+ */
+export class ConfigError extends MaveoError {
+  constructor(message: string, options: MaveoErrorOptions = {}) {
+    super('CONFIG_INVALID', message, options);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Thrown when authentication with Cognito fails.
+ */
+export class AuthError extends MaveoError {
+  constructor(
+    code: 'AUTH_INVALID_CREDENTIALS' | 'AUTH_THROTTLED' | 'AUTH_CHALLENGE' | 'AUTH_FAILED',
+    message: string,
+    options: MaveoErrorOptions = {}
+  ) {
+    super(code, message, options);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Thrown when Cognito requires a challenge that cannot be answered.
+ * Set a challengeHandler in the config to answer it.
+ */
+export class AuthChallengeError extends AuthError {
+  constructor(
+    public readonly challengeName: AuthChallengeName | string,
+    public readonly parameters: Record<string, string>,
+    message = `Authentication requires the ${challengeName} challenge, but no challengeHandler is configured`
+  ) {
+    super('AUTH_CHALLENGE', message);
+    this.name = 'AuthChallengeError';
+  }
+}
+
+/**
+ * Thrown or emitted for MQTT connection failures.
+ */
+export class ConnectionError extends MaveoError {
+  constructor(
+    code: 'CONNECT_TIMEOUT' | 'CONNECT_FAILED' | 'CONNECTION_ERROR' | 'NOT_CONNECTED' | 'SUBSCRIBE_FAILED' | 'PUBLISH_FAILED' | 'RECONNECT_EXHAUSTED',
+    message: string,
+    options: MaveoErrorOptions = {}
+  ) {
+    super(code, message, options);
+    this.name = 'ConnectionError';
+  }
+}
+
+/**
+ * Thrown when the device does not answer a status request in time.
+ */
+export class StatusTimeoutError extends MaveoError {
+  constructor(message: string, options: MaveoErrorOptions = {}) {
+    super('STATUS_TIMEOUT', message, options);
+    this.name = 'StatusTimeoutError';
+  }
+}
+
+/**
+ * Additional details of a ProtocolError.
+ */
+export interface ProtocolErrorOptions extends MaveoErrorOptions {
+  /** PROTOCOL_INVALID for valid JSON breaking the protocol. Default: PROTOCOL_PARSE */
+  code?: 'PROTOCOL_PARSE' | 'PROTOCOL_INVALID';
+  /** The offending field, if one */
+  field?: string;
+}
+
+/**
+ * Emitted when a device message cannot be parsed or does not follow the protocol,
+ * and thrown when encoding an invalid command.
+ */
+export class ProtocolError extends MaveoError {
+  readonly field?: string;
+
+  constructor(
+    message: string,
+    public readonly payload: string,
+    options: ProtocolErrorOptions = {}
+  ) {
+    super(options.code ?? 'PROTOCOL_PARSE', message, options);
+    this.name = 'ProtocolError';
+    this.field = options.field;
+  }
+}
+
+/**
+ * Thrown when the door does not reach the expected state in time.
+ */
+export class DoorTimeoutError extends MaveoError {
+  constructor(
+    public readonly expectedState: DoorState,
+    public readonly lastStatus: MaveoStatus | null,
+    timeoutMs: number
+  ) {
+    super('DOOR_TIMEOUT', `Timeout after ${timeoutMs}ms waiting for door state ${DoorState[expectedState]}`);
+    this.name = 'DoorTimeoutError';
+  }
+}
+
+/**
+ * Thrown when the door stops before reaching the expected state.
+ */
+export class DoorStoppedError extends MaveoError {
+  constructor(
+    public readonly expectedState: DoorState,
+    public readonly lastStatus: MaveoStatus
+  ) {
+    super('DOOR_STOPPED', `Door stopped before reaching state ${DoorState[expectedState]}`);
+    this.name = 'DoorStoppedError';
+  }
+}
+
+/**
+ * Thrown when the connection drops while waiting for the door.
+ */
+export class DoorDisconnectedError extends MaveoError {
+  constructor(
+    public readonly expectedState: DoorState,
+    public readonly lastStatus: MaveoStatus | null
+  ) {
+    super('DOOR_DISCONNECTED', `Disconnected while waiting for door state ${DoorState[expectedState]}`);
+    this.name = 'DoorDisconnectedError';
+  }
+}
+
+/**
+ * Thrown when the light does not report the expected state in time.
+ */
+export class LightTimeoutError extends MaveoError {
+  constructor(
+    public readonly expectedLightOn: boolean,
+    timeoutMs: number
+  ) {
+    super('LIGHT_TIMEOUT', `Timeout after ${timeoutMs}ms waiting for light ${expectedLightOn ? 'on' : 'off'}`);
+    this.name = 'LightTimeoutError';
+  }
+}
+
+/**
+ * Thrown by the *AndWait() methods when the command queue expired or dropped
+ * the command, so the device never got it.
+ */
+export class CommandNotSentError extends MaveoError {
+  constructor(public readonly outcome: 'expired' | 'dropped') {
+    super('COMMAND_NOT_SENT', `Command was ${outcome} by the command queue`);
+    this.name = 'CommandNotSentError';
+  }
+}
+
+/**
+ * Thrown when a command guard refuses a door command.
+ */
+export class CommandVetoedError extends MaveoError {
+  constructor(
+    public readonly guard: string,
+    public readonly reason: string,
+    public readonly request: CommandRequest
+  ) {
+    super('COMMAND_VETOED', `${DoorCommand[request.command]} command vetoed by ${guard}: ${reason}`);
+    this.name = 'CommandVetoedError';
+  }
+}
+
+/**
+ * Thrown when calibrate() cannot measure a travel time, e.g. because the
+ * movement was not reported.
+ */
+export class CalibrationError extends MaveoError {
+  constructor(message: string, options: MaveoErrorOptions = {}) {
+    super('CALIBRATION_FAILED', message, options);
+    this.name = 'CalibrationError';
+  }
+}
+
+/**
+ * Wraps an unknown error in a MaveoError, keeping MaveoErrors as they are.
+ * @param error - The error to wrap
+ * @param code - Code used if the error is not a MaveoError yet
+ * @param message - Message prefix used if the error is not a MaveoError yet
+ */
+export function toMaveoError(error: unknown, code: MaveoErrorCode, message: string): MaveoError {
+  if (error instanceof MaveoError) {
+    return error;
+  }
+  const detail = error instanceof Error ? error.message : String(error);
+  return new MaveoError(code, `${message}: ${detail}`, { cause: error });
+}
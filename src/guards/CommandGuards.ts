@@ -0,0 +1,145 @@
+import { CommandDecision, CommandGuard, CommandRequest, DoorCommand } from '../types';
+import { ConfigError } from '../errors';
+import { getMinuteOfDay, isInTimeWindow, parseTimeWindow, TimeWindow } from '../utils/timeWindow';
+
+const DEFAULT_CONFIRMATION_TIMEOUT = 60000;
+const DEFAULT_REMOTE_SOURCES = ['http', 'homeassistant'];
+
+// The built-in guards never block STOP, which is what stops a door in an emergency
+
+/**
+ * Refuses to close the door unless its last reported state is stationary:
+ * open, closed or stopped in between.
+ * @returns The guard, named `stationaryBeforeClose`
+ */
+export function requireStationaryBeforeClose(): CommandGuard {
+  return {
+    name: 'stationaryBeforeClose',
+    check: ({ command, status }) => {
+      if (command !== DoorCommand.CLOSE) {
+        return { allowed: true };
+      }
+      if (!status) {
+        return { allowed: false, reason: 'Door state unknown' };
+      }
+      if (status.isOpening || status.isClosing) {
+        return { allowed: false, reason: 'Door is moving' };
+      }
+      return { allowed: true, reason: 'Door is stationary' };
+    }
+  };
+}
+
+/**
+ * Options for requireConfirmation().
+ */
+export interface ConfirmationGuardOptions {
+  /** Asks whether the command may be sent, e.g. with a push notification */
+  confirm: (request: CommandRequest) => boolean | Promise<boolean>;
+  /** Commands that need confirmation. Default: [DoorCommand.OPEN] */
+  commands?: DoorCommand[];
+  /** Command sources that need confirmation. Default: ['http', 'homeassistant'] */
+  sources?: string[];
+  /** How long to wait for the answer in milliseconds before vetoing. Default: 60000 */
+  timeout?: number;
+}
+
+/**
+ * Holds back commands from remote sources until a confirmation callback agrees.
+ * @param options - The callback and what needs confirmation
+ * @returns The guard, named `confirmation`
+ * @throws {ConfigError} If the timeout is not positive
+ */
+export function requireConfirmation(options: ConfirmationGuardOptions): CommandGuard {
+  const commands = options.commands ?? [DoorCommand.OPEN];
+  const sources = options.sources ?? DEFAULT_REMOTE_SOURCES;
+  const timeout = options.timeout ?? DEFAULT_CONFIRMATION_TIMEOUT;
+
+  if (!(timeout > 0)) {
+    throw new ConfigError(`requireConfirmation: invalid timeout ${timeout}`);
+  }
+
+  return {
+    name: 'confirmation',
+    check: async request => {
+      if (request.command === DoorCommand.STOP || !commands.includes(request.command) || !sources.includes(request.source)) {
+        return { allowed: true };
+      }
+
+      let timer: NodeJS.Timeout | undefined;
+      const timedOut = new Promise<CommandDecision>(resolve => {
+        timer = setTimeout(() => resolve({ allowed: false, reason: 'Confirmation timed out' }), timeout);
+      });
+
+      try {
+        return await Promise.race([
+          Promise.resolve(options.confirm(request)).then((confirmed): CommandDecision => confirmed
+            ? { allowed: true, reason: 'Confirmed' }
+            : { allowed: false, reason: 'Not confirmed' }),
+          timedOut
+        ]);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+}
+
+/**
+ * Refuses to open the door during daily time windows in local time.
+ * @param windows - Blocked windows, e.g. { start: '23:00', end: '06:00' }; may span midnight
+ * @returns The guard, named `openingHours`
+ * @throws {ConfigError} If a time is not HH:MM
+ */
+export function blockOpenDuring(windows: TimeWindow[]): CommandGuard {
+  const parsed = windows.map(window => ({
+    label: `${window.start}-${window.end}`,
+    ...parseTimeWindow(window, 'blockOpenDuring')
+  }));
+
+  return {
+    name: 'openingHours',
+    check: ({ command, timestamp }) => {
+      if (command !== DoorCommand.OPEN && command !== DoorCommand.INTERMEDIATE) {
+        return { allowed: true };
+      }
+
+      const minute = getMinuteOfDay(timestamp);
+      const blocked = parsed.find(window => isInTimeWindow(window, minute));
+
+      return blocked
+        ? { allowed: false, reason: `Opening is blocked ${blocked.label}` }
+        : { allowed: true };
+    }
+  };
+}
+
+/**
+ * Refuses commands while the last status is missing or older than maxAge,
+ * since the door may have moved without the library knowing.
+ * @param maxAge - Oldest acceptable status in milliseconds
+ * @returns The guard, named `freshStatus`
+ * @throws {ConfigError} If maxAge is not positive
+ */
+export function refuseStaleStatus(maxAge: number): CommandGuard {
+  if (!(maxAge > 0)) {
+    throw new ConfigError(`refuseStaleStatus: invalid maxAge ${maxAge}`);
+  }
+
+  return {
+    name: 'freshStatus',
+    check: ({ command, status, timestamp }) => {
+      if (command === DoorCommand.STOP) {
+        return { allowed: true };
+      }
+      if (!status) {
+        return { allowed: false, reason: 'No status received yet' };
+      }
+
+      const age = timestamp.getTime() - status.timestamp.getTime();
+      return age > maxAge
+        ? { allowed: false, reason: `Status is ${Math.round(age / 1000)}s old` }
+        : { allowed: true };
+    }
+  };
+}
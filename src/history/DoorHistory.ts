@@ -0,0 +1,319 @@
+import TypedEmitter from 'typed-emitter';
+import { CommandEvent, DoorCommand, DoorState, LightCommand, MaveoClientEvents, MaveoStatus } from '../types';
+import { ConfigError } from '../errors';
+import { debug } from '../utils/logger';
+import { WriteQueue } from '../utils/jsonl';
+
+/**
+ * A door state transition.
+ */
+export interface StatusHistoryEntry {
+  type: 'status';
+  /** Device serial number */
+  device: string;
+  /** When the status was received */
+  timestamp: Date;
+  /** New door state */
+  doorState: DoorState;
+  /** Door state before the transition, null for the first status seen */
+  previousState: DoorState | null;
+}
+
+/**
+ * A command sent to a device.
+ */
+export interface CommandHistoryEntry {
+  type: 'command';
+  /** Device serial number */
+  device: string;
+  /** When the command was sent */
+  timestamp: Date;
+  /** Whether a door or light command was sent */
+  target: 'door' | 'light';
+  /** DoorCommand or LightCommand value */
+  command: DoorCommand | LightCommand;
+  /** Who sent the command */
+  source: string;
+}
+
+export type HistoryEntry = StatusHistoryEntry | CommandHistoryEntry;
+
+/**
+ * Persistent storage for history entries.
+ */
+export interface HistoryBackend {
+  /** Appends an entry */
+  append(entry: HistoryEntry): Promise<void>;
+  /** Loads the most recent entries, oldest first */
+  load(limit: number): Promise<HistoryEntry[]>;
+}
+
+/**
+ * Time range and device filter for history queries.
+ */
+export interface HistoryQuery {
+  /** Only entries of this device. Default: all devices */
+  device?: string;
+  /** Start of the range. Default: no limit */
+  since?: Date;
+  /** End of the range. Default: now */
+  until?: Date;
+}
+
+/**
+ * Options for DoorHistory.
+ */
+export interface DoorHistoryOptions {
+  /** Number of entries kept in memory. Default: 1000 */
+  capacity?: number;
+  /** Backend every entry is also written to. Default: none */
+  backend?: HistoryBackend;
+}
+
+/**
+ * Average travel times in milliseconds, null if no complete movement was recorded.
+ */
+export interface TravelTimes {
+  opening: number | null;
+  closing: number | null;
+}
+
+/**
+ * Anything emitting status and command events: a MaveoClient, MaveoDevice or MaveoAccount.
+ */
+export type HistorySource = TypedEmitter<Pick<MaveoClientEvents, 'status' | 'command'>>;
+
+const DEFAULT_CAPACITY = 1000;
+
+/**
+ * Records door state transitions and commands in a bounded buffer,
+ * optionally persisted to a backend, and answers usage questions.
+ *
+ * @example
+ * ```typescript
+ * const history = new DoorHistory({ backend: new JsonlHistoryBackend('./history.jsonl') });
+ * await history.restore();
+ * history.attach(client);
+ *
+ * console.log(history.getOpenDuration() / 60000, 'minutes open today');
+ * ```
+ */
+export class DoorHistory {
+  private readonly capacity: number;
+  private readonly backend: HistoryBackend | null;
+  private entries: HistoryEntry[] = [];
+  private lastStates = new Map<string, DoorState>();
+  private readonly writes = new WriteQueue(error => debug.history('Failed to write history entry: %O', error));
+
+  /**
+   * @param options - Capacity and backend
+   * @throws {ConfigError} If the capacity is not a positive integer
+   */
+  constructor(options: DoorHistoryOptions = {}) {
+    const capacity = options.capacity ?? DEFAULT_CAPACITY;
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new ConfigError(`Invalid history capacity: ${capacity}`);
+    }
+
+    this.capacity = capacity;
+    this.backend = options.backend ?? null;
+  }
+
+  /**
+   * Loads the most recent entries from the backend into memory.
+   * Call before attach() so new entries are not mixed with old ones.
+   */
+  async restore(): Promise<void> {
+    if (!this.backend) return;
+
+    const entries = await this.backend.load(this.capacity);
+    this.entries = [...entries, ...this.entries].slice(-this.capacity);
+    this.lastStates.clear();
+    for (const entry of this.entries) {
+      if (entry.type === 'status') {
+        this.lastStates.set(entry.device, entry.doorState);
+      }
+    }
+  }
+
+  /**
+   * Starts recording status transitions and commands of a client, device or account.
+   * @param source - The client, device or account to record
+   * @returns Function that stops recording
+   */
+  attach(source: HistorySource): () => void {
+    const onStatus = (status: MaveoStatus) => this.recordStatus(status);
+    const onCommand = (command: CommandEvent) => this.record({
+      type: 'command',
+      device: command.device,
+      timestamp: command.timestamp,
+      target: command.target,
+      command: command.command,
+      source: command.source
+    });
+
+    source.on('status', onStatus);
+    source.on('command', onCommand);
+
+    return () => {
+      source.removeListener('status', onStatus);
+      source.removeListener('command', onCommand);
+    };
+  }
+
+  /**
+   * Adds an entry, dropping the oldest one if the buffer is full.
+   * @param entry - The entry to add
+   */
+  record(entry: HistoryEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.shift();
+    }
+    if (entry.type === 'status') {
+      this.lastStates.set(entry.device, entry.doorState);
+    }
+
+    const backend = this.backend;
+    if (backend) {
+      this.writes.push(() => backend.append(entry));
+    }
+  }
+
+  /**
+   * Waits until all entries have been written to the backend.
+   */
+  flush(): Promise<void> {
+    return this.writes.flush();
+  }
+
+  /**
+   * Gets the recorded entries, oldest first.
+   * @param query - Device and time range filter
+   */
+  getEntries(query: HistoryQuery = {}): HistoryEntry[] {
+    const since = query.since?.getTime() ?? -Infinity;
+    const until = query.until?.getTime() ?? Infinity;
+
+    return this.entries.filter(entry =>
+      (query.device === undefined || entry.device === query.device) &&
+      entry.timestamp.getTime() >= since &&
+      entry.timestamp.getTime() <= until
+    );
+  }
+
+  /**
+   * Gets how long the door was not fully closed, summed over all matching devices.
+   * @param query - Device and time range. `since` defaults to the start of today
+   * @returns Duration in milliseconds
+   */
+  getOpenDuration(query: HistoryQuery = {}): number {
+    const since = (query.since ?? startOfDay(new Date())).getTime();
+    const until = (query.until ?? new Date()).getTime();
+    let total = 0;
+
+    this.getStatusEntriesByDevice(query.device).forEach(entries => {
+      let state: DoorState | null = null;
+      let stateSince = since;
+
+      for (const entry of entries) {
+        const time = entry.timestamp.getTime();
+        if (time > until) break;
+
+        if (time > since && state !== null && state !== DoorState.CLOSED) {
+          total += time - Math.max(stateSince, since);
+        }
+        state = entry.doorState;
+        stateSince = time;
+      }
+
+      if (state !== null && state !== DoorState.CLOSED) {
+        total += until - Math.max(stateSince, since);
+      }
+    });
+
+    return total;
+  }
+
+  /**
+   * Counts how often the door left the closed position, per local calendar day.
+   * @param query - Device and time range
+   * @returns Days with at least one cycle, oldest first, dates as YYYY-MM-DD
+   */
+  getOpenCyclesPerDay(query: HistoryQuery = {}): Array<{ date: string; cycles: number }> {
+    const counts = new Map<string, number>();
+
+    for (const entry of this.getEntries(query)) {
+      if (entry.type === 'status' && entry.previousState === DoorState.CLOSED && entry.doorState !== DoorState.CLOSED) {
+        const date = formatLocalDate(entry.timestamp);
+        counts.set(date, (counts.get(date) ?? 0) + 1);
+      }
+    }
+
+    return [...counts].map(([date, cycles]) => ({ date, cycles }));
+  }
+
+  /**
+   * Gets the average time of uninterrupted movements from OPENING to OPEN and from CLOSING to CLOSED.
+   * @param query - Device and time range
+   */
+  getAverageTravelTime(query: HistoryQuery = {}): TravelTimes {
+    const opening: number[] = [];
+    const closing: number[] = [];
+
+    this.getStatusEntriesByDevice(query.device, query).forEach(entries => {
+      for (let i = 1; i < entries.length; i++) {
+        const previous = entries[i - 1];
+        const current = entries[i];
+        const duration = current.timestamp.getTime() - previous.timestamp.getTime();
+
+        if (previous.doorState === DoorState.OPENING && current.doorState === DoorState.OPEN) {
+          opening.push(duration);
+        } else if (previous.doorState === DoorState.CLOSING && current.doorState === DoorState.CLOSED) {
+          closing.push(duration);
+        }
+      }
+    });
+
+    return { opening: average(opening), closing: average(closing) };
+  }
+
+  private recordStatus(status: MaveoStatus): void {
+    const previousState = this.lastStates.get(status.device) ?? null;
+    if (previousState === status.doorState) return;
+
+    this.record({
+      type: 'status',
+      device: status.device,
+      timestamp: status.timestamp,
+      doorState: status.doorState,
+      previousState
+    });
+  }
+
+  private getStatusEntriesByDevice(device?: string, query: HistoryQuery = {}): Map<string, StatusHistoryEntry[]> {
+    const byDevice = new Map<string, StatusHistoryEntry[]>();
+
+    for (const entry of this.getEntries({ ...query, device })) {
+      if (entry.type !== 'status') continue;
+      const entries = byDevice.get(entry.device) ?? [];
+      entries.push(entry);
+      byDevice.set(entry.device, entries);
+    }
+
+    return byDevice;
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function formatLocalDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
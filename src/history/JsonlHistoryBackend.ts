@@ -0,0 +1,38 @@
+import { promises as fs } from 'fs';
+import { HistoryBackend, HistoryEntry } from './DoorHistory';
+import { debug } from '../utils/logger';
+import { appendJsonLines, parseJsonLines } from '../utils/jsonl';
+
+/**
+ * Appends history entries to a JSON Lines file, one entry per line.
+ * The file is never truncated; rotate it externally if it grows too large.
+ */
+export class JsonlHistoryBackend implements HistoryBackend {
+  private readonly filePath: string;
+
+  /**
+   * @param filePath - Path of the JSONL file, created on first write
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async append(entry: HistoryEntry): Promise<void> {
+    await appendJsonLines(this.filePath, [entry]);
+  }
+
+  async load(limit: number): Promise<HistoryEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries = parseJsonLines<HistoryEntry>(content, line => debug.history('Skipping invalid history line: %s', line));
+    return entries.slice(-limit).map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }));
+  }
+}
@@ -0,0 +1,370 @@
+import TypedEmitter from 'typed-emitter';
+import { EventEmitter } from 'events';
+import mqtt, { MqttClient, IClientOptions } from 'mqtt';
+import { MaveoDevice } from '../MaveoDevice';
+import { CommandOutcome, DoorState, LightStatus, MaveoStatus } from '../types';
+import { ConfigError, ConnectionError, MaveoError, toMaveoError } from '../errors';
+import { debug } from '../utils/logger';
+
+/**
+ * Options for HomeAssistantBridge.
+ */
+export interface HomeAssistantBridgeOptions {
+  /** URL of the local broker, e.g. mqtt://localhost:1883. Required unless client is set */
+  brokerUrl?: string;
+  /** Username for the local broker */
+  username?: string;
+  /** Password for the local broker */
+  password?: string;
+  /** Existing connection to the local broker, used instead of brokerUrl */
+  client?: MqttClient;
+  /** Home Assistant discovery prefix. Default: homeassistant */
+  discoveryPrefix?: string;
+  /** Prefix of the state and command topics. Default: maveo */
+  baseTopic?: string;
+  /** Device name shown in Home Assistant. Default: Maveo <deviceId> */
+  name?: string;
+}
+
+/**
+ * Events emitted by HomeAssistantBridge.
+ */
+export type HomeAssistantBridgeEvents = {
+  /** Local broker or command failure */
+  error: (error: MaveoError) => void;
+};
+
+/**
+ * Topics used for one device.
+ */
+export interface HomeAssistantTopics {
+  availability: string;
+  coverState: string;
+  coverCommand: string;
+  lightState: string;
+  lightCommand: string;
+  coverDiscovery: string;
+  lightDiscovery: string;
+  homeAssistantStatus: string;
+}
+
+const DEFAULT_DISCOVERY_PREFIX = 'homeassistant';
+const DEFAULT_BASE_TOPIC = 'maveo';
+
+// Reported as the source of commands from Home Assistant
+const COMMAND_SOURCE = 'homeassistant';
+
+const PAYLOAD_ONLINE = 'online';
+const PAYLOAD_OFFLINE = 'offline';
+
+/**
+ * Home Assistant cover states for each door state.
+ */
+const COVER_STATES: Record<DoorState, string> = {
+  [DoorState.STOPPED]: 'stopped',
+  [DoorState.OPENING]: 'opening',
+  [DoorState.CLOSING]: 'closing',
+  [DoorState.OPEN]: 'open',
+  [DoorState.CLOSED]: 'closed'
+};
+
+/**
+ * Maps a door state to the Home Assistant cover state.
+ * @param state - Door state
+ * @returns One of open, opening, closed, closing or stopped
+ */
+export function toCoverState(state: DoorState): string {
+  return COVER_STATES[state];
+}
+
+/**
+ * Builds the topics used for a device.
+ * @param deviceId - Device serial number
+ * @param discoveryPrefix - Home Assistant discovery prefix
+ * @param baseTopic - Prefix of the state and command topics
+ */
+export function getHomeAssistantTopics(
+  deviceId: string,
+  discoveryPrefix = DEFAULT_DISCOVERY_PREFIX,
+  baseTopic = DEFAULT_BASE_TOPIC
+): HomeAssistantTopics {
+  const base = `${baseTopic}/${deviceId}`;
+  const objectId = toObjectId(deviceId);
+  return {
+    availability: `${base}/availability`,
+    coverState: `${base}/cover/state`,
+    coverCommand: `${base}/cover/set`,
+    lightState: `${base}/light/state`,
+    lightCommand: `${base}/light/set`,
+    coverDiscovery: `${discoveryPrefix}/cover/${objectId}/config`,
+    lightDiscovery: `${discoveryPrefix}/light/${objectId}/config`,
+    homeAssistantStatus: `${discoveryPrefix}/status`
+  };
+}
+
+/**
+ * Builds the discovery configs of the cover and light entities.
+ * @param deviceId - Device serial number
+ * @param topics - Topics of the device
+ * @param name - Device name shown in Home Assistant
+ */
+export function buildDiscoveryConfigs(
+  deviceId: string,
+  topics: HomeAssistantTopics,
+  name = `Maveo ${deviceId}`
+): { cover: Record<string, unknown>; light: Record<string, unknown> } {
+  const objectId = toObjectId(deviceId);
+  const device = {
+    identifiers: [objectId],
+    name,
+    manufacturer: 'Marantec',
+    model: 'Maveo'
+  };
+  const availability = {
+    availability_topic: topics.availability,
+    payload_available: PAYLOAD_ONLINE,
+    payload_not_available: PAYLOAD_OFFLINE
+  };
+
+  return {
+    cover: {
+      // A null name uses the device name
+      name: null,
+      unique_id: `${objectId}_cover`,
+      device_class: 'garage',
+      state_topic: topics.coverState,
+      command_topic: topics.coverCommand,
+      payload_open: 'OPEN',
+      payload_close: 'CLOSE',
+      payload_stop: 'STOP',
+      ...availability,
+      device
+    },
+    light: {
+      name: 'Light',
+      unique_id: `${objectId}_light`,
+      state_topic: topics.lightState,
+      command_topic: topics.lightCommand,
+      payload_on: 'ON',
+      payload_off: 'OFF',
+      ...availability,
+      device
+    }
+  };
+}
+
+function toObjectId(deviceId: string): string {
+  return `maveo_${deviceId.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+}
+
+/**
+ * Republishes a device to a local MQTT broker as Home Assistant cover and light entities
+ * using MQTT Discovery, and forwards Home Assistant commands to the device.
+ *
+ * @example
+ * ```typescript
+ * const bridge = new HomeAssistantBridge(client, { brokerUrl: 'mqtt://localhost:1883' });
+ * bridge.on('error', (error) => console.error(error));
+ * await bridge.start();
+ * ```
+ */
+export class HomeAssistantBridge extends (EventEmitter as new () => TypedEmitter<HomeAssistantBridgeEvents>) {
+  private readonly device: MaveoDevice;
+  private readonly options: HomeAssistantBridgeOptions;
+  private readonly topics: HomeAssistantTopics;
+  private client: MqttClient | null = null;
+  private ownsClient = false;
+
+  /**
+   * @param device - The client or device handle to bridge
+   * @param options - Local broker and topic options
+   * @throws {ConfigError} If neither brokerUrl nor client is set
+   */
+  constructor(device: MaveoDevice, options: HomeAssistantBridgeOptions) {
+    super();
+
+    if (!options.client && !options.brokerUrl?.trim()) {
+      throw new ConfigError('HomeAssistantBridge: brokerUrl or client is required');
+    }
+
+    this.device = device;
+    this.options = options;
+    this.topics = getHomeAssistantTopics(device.deviceId, options.discoveryPrefix, options.baseTopic);
+  }
+
+  /**
+   * Connects to the local broker, publishes the discovery configs and the
+   * current state, and subscribes to the command topics.
+   * @throws {ConnectionError} If the local broker cannot be reached
+   */
+  async start(): Promise<void> {
+    if (this.client) return;
+
+    const client = this.options.client ?? await this.connectToBroker();
+    this.client = client;
+    this.ownsClient = !this.options.client;
+
+    client.on('message', this.handleMessage);
+    // Home Assistant drops discovered entities when it restarts
+    client.on('connect', this.publishAll);
+
+    this.device.on('status', this.handleStatus);
+    this.device.on('lightChanged', this.handleLightChanged);
+    this.device.on('connected', this.handleConnected);
+    this.device.on('disconnected', this.handleDisconnected);
+
+    const topics = [this.topics.coverCommand, this.topics.lightCommand, this.topics.homeAssistantStatus];
+    client.subscribe(topics, { qos: 1 }, (error) => {
+      if (error) {
+        this.emitError(new ConnectionError('SUBSCRIBE_FAILED', `Failed to subscribe to ${topics.join(', ')}: ${error.message}`, { cause: error }));
+      }
+    });
+
+    this.publishAll();
+  }
+
+  /**
+   * Marks the entities unavailable and disconnects from the local broker.
+   * A client passed in the options is left connected.
+   */
+  async stop(): Promise<void> {
+    const client = this.client;
+    if (!client) return;
+    this.client = null;
+
+    this.device.removeListener('status', this.handleStatus);
+    this.device.removeListener('lightChanged', this.handleLightChanged);
+    this.device.removeListener('connected', this.handleConnected);
+    this.device.removeListener('disconnected', this.handleDisconnected);
+    client.removeListener('message', this.handleMessage);
+    client.removeListener('connect', this.publishAll);
+
+    client.publish(this.topics.availability, PAYLOAD_OFFLINE, { qos: 1, retain: true });
+
+    if (this.ownsClient) {
+      await new Promise<void>(resolve => client.end(false, {}, () => resolve()));
+    } else {
+      client.unsubscribe([this.topics.coverCommand, this.topics.lightCommand, this.topics.homeAssistantStatus]);
+    }
+  }
+
+  private connectToBroker(): Promise<MqttClient> {
+    const options: IClientOptions = {
+      username: this.options.username,
+      password: this.options.password,
+      will: {
+        topic: this.topics.availability,
+        payload: Buffer.from(PAYLOAD_OFFLINE),
+        qos: 1,
+        retain: true
+      }
+    };
+
+    debug.homeassistant('Connecting to local broker: %s', this.options.brokerUrl);
+    const client = mqtt.connect(this.options.brokerUrl!, options);
+
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        client.removeListener('error', onError);
+        client.on('error', (error: Error) => {
+          this.emitError(new ConnectionError('CONNECTION_ERROR', `Local broker: ${error.message}`, { cause: error }));
+        });
+        resolve(client);
+      };
+      const onError = (error: Error) => {
+        client.removeListener('connect', onConnect);
+        client.end(true);
+        reject(new ConnectionError('CONNECT_FAILED', `Failed to connect to local broker: ${error.message}`, { cause: error }));
+      };
+
+      client.once('connect', onConnect);
+      client.once('error', onError);
+    });
+  }
+
+  private publishAll = (): void => {
+    const configs = buildDiscoveryConfigs(this.device.deviceId, this.topics, this.options.name);
+    this.publish(this.topics.coverDiscovery, JSON.stringify(configs.cover));
+    this.publish(this.topics.lightDiscovery, JSON.stringify(configs.light));
+    this.publishAvailability(this.device.isConnected());
+
+    const status = this.device.getCurrentStatus();
+    if (status) {
+      this.handleStatus(status);
+    }
+
+    const lightOn = this.device.getLightState();
+    if (lightOn !== null) {
+      this.handleLightChanged({ device: this.device.deviceId, lightOn });
+    }
+  };
+
+  private handleStatus = (status: MaveoStatus): void => {
+    this.publish(this.topics.coverState, toCoverState(status.doorState));
+  };
+
+  private handleLightChanged = (light: LightStatus): void => {
+    this.publish(this.topics.lightState, light.lightOn ? 'ON' : 'OFF');
+  };
+
+  private handleConnected = (): void => {
+    this.publishAvailability(true);
+  };
+
+  private handleDisconnected = (): void => {
+    this.publishAvailability(false);
+  };
+
+  private handleMessage = (topic: string, payload: Buffer): void => {
+    const command = payload.toString().trim();
+    debug.homeassistant('Received %s on %s', command, topic);
+
+    if (topic === this.topics.homeAssistantStatus) {
+      if (command === PAYLOAD_ONLINE) {
+        this.publishAll();
+      }
+      return;
+    }
+
+    const actions: Record<string, Record<string, () => Promise<CommandOutcome>>> = {
+      [this.topics.coverCommand]: {
+        OPEN: () => this.device.open({ source: COMMAND_SOURCE }),
+        CLOSE: () => this.device.close({ source: COMMAND_SOURCE }),
+        STOP: () => this.device.stop({ source: COMMAND_SOURCE })
+      },
+      [this.topics.lightCommand]: {
+        ON: () => this.device.lightOn({ source: COMMAND_SOURCE }),
+        OFF: () => this.device.lightOff({ source: COMMAND_SOURCE })
+      }
+    };
+
+    const action = actions[topic]?.[command];
+    if (!action) {
+      debug.homeassistant('Ignoring unknown command %s on %s', command, topic);
+      return;
+    }
+
+    // Door commands may be vetoed by command guards
+    action().catch(error => this.emitError(toMaveoError(error, 'PUBLISH_FAILED', `Failed to forward ${command}`)));
+  };
+
+  private publishAvailability(online: boolean): void {
+    this.publish(this.topics.availability, online ? PAYLOAD_ONLINE : PAYLOAD_OFFLINE);
+  }
+
+  private publish(topic: string, payload: string): void {
+    this.client?.publish(topic, payload, { qos: 1, retain: true }, (error) => {
+      if (error) {
+        this.emitError(new ConnectionError('PUBLISH_FAILED', `Failed to publish to ${topic}: ${error.message}`, { cause: error }));
+      }
+    });
+  }
+
+  private emitError(error: MaveoError): void {
+    debug.homeassistant('Error: %s', error.message);
+    // An unhandled 'error' event would throw
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+}
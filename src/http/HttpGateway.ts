@@ -0,0 +1,336 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { MaveoDevice } from '../MaveoDevice';
+import { CommandNotSentError, ConfigError, MaveoError } from '../errors';
+import { CommandOutcome, LightStatus, MaveoStatus, WaitOptions } from '../types';
+import { debug } from '../utils/logger';
+
+/**
+ * Options for HttpGateway.
+ */
+export interface HttpGatewayOptions {
+  /** Bearer token clients have to send in the Authorization header */
+  token: string;
+  /** Port to listen on, 0 for a random port. Default: 8080 */
+  port?: number;
+  /** Interface to listen on. Default: 127.0.0.1 */
+  host?: string;
+}
+
+const DEFAULT_PORT = 8080;
+const DEFAULT_HOST = '127.0.0.1';
+
+// Reported as the source of commands sent through the gateway
+const COMMAND_SOURCE = 'http';
+
+// Comment lines keep idle event streams open through proxies
+const SSE_KEEPALIVE_INTERVAL = 15000;
+
+const DOOR_ACTIONS = ['open', 'close', 'stop', 'intermediate'] as const;
+type DoorAction = typeof DOOR_ACTIONS[number];
+
+/**
+ * HTTP status returned for each error code. Anything else is a 500.
+ */
+const ERROR_STATUS: Partial<Record<MaveoError['code'], number>> = {
+  CONFIG_INVALID: 400,
+  NOT_CONNECTED: 503,
+  DOOR_DISCONNECTED: 503,
+  STATUS_TIMEOUT: 504,
+  DOOR_TIMEOUT: 504,
+  DOOR_STOPPED: 409,
+  LIGHT_TIMEOUT: 504,
+  COMMAND_VETOED: 403,
+  COMMAND_NOT_SENT: 503
+};
+
+/**
+ * Local HTTP/REST gateway for a connected MaveoClient or MaveoDevice.
+ *
+ * Routes:
+ * - `GET /status` - cached status and the time it was received, `?fresh=true` to ask the device first
+ * - `POST /door/{open|close|stop|intermediate}` - door commands, `?wait=true&timeout=ms` to wait for the result
+ * - `POST /light/{on|off}` - light commands, `?wait=true&timeout=ms` to wait for the result
+ * - `GET /events` - Server-Sent Events stream of status, light and connection events
+ *
+ * @example
+ * ```typescript
+ * const gateway = new HttpGateway(client, { token: process.env.GATEWAY_TOKEN!, port: 8080 });
+ * await gateway.start();
+ * ```
+ */
+export class HttpGateway {
+  private readonly device: MaveoDevice;
+  private readonly token: Buffer;
+  private readonly port: number;
+  private readonly host: string;
+  private server: http.Server | null = null;
+  private eventStreams = new Set<http.ServerResponse>();
+  private keepaliveTimer: NodeJS.Timeout | null = null;
+  private lastUpdated: Date | null = null;
+
+  /**
+   * @param device - The client or device handle to expose
+   * @param options - Gateway options
+   * @throws {ConfigError} If the token is empty
+   */
+  constructor(device: MaveoDevice, options: HttpGatewayOptions) {
+    if (!options.token?.trim()) {
+      throw new ConfigError('HttpGateway: token is required');
+    }
+
+    this.device = device;
+    this.token = Buffer.from(options.token);
+    this.port = options.port ?? DEFAULT_PORT;
+    this.host = options.host ?? DEFAULT_HOST;
+  }
+
+  /**
+   * Starts listening and forwarding device events.
+   * @returns The address the server listens on
+   */
+  async start(): Promise<AddressInfo> {
+    if (this.server) {
+      return this.server.address() as AddressInfo;
+    }
+
+    this.lastUpdated = this.device.getCurrentStatus()?.timestamp ?? null;
+
+    this.device.on('status', this.handleStatus);
+    this.device.on('lightChanged', this.handleLightChanged);
+    this.device.on('connected', this.handleConnected);
+    this.device.on('disconnected', this.handleDisconnected);
+    this.device.on('reconnecting', this.handleReconnecting);
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        debug.http('Request failed: %O', error);
+        this.sendError(res, error);
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.removeListener('error', reject);
+        resolve();
+      });
+    });
+
+    this.keepaliveTimer = setInterval(() => {
+      this.eventStreams.forEach(res => res.write(':\n\n'));
+    }, SSE_KEEPALIVE_INTERVAL);
+
+    const address = server.address() as AddressInfo;
+    debug.http('Listening on %s:%d', address.address, address.port);
+    return address;
+  }
+
+  /**
+   * Closes all event streams and stops the server.
+   */
+  async stop(): Promise<void> {
+    this.device.removeListener('status', this.handleStatus);
+    this.device.removeListener('lightChanged', this.handleLightChanged);
+    this.device.removeListener('connected', this.handleConnected);
+    this.device.removeListener('disconnected', this.handleDisconnected);
+    this.device.removeListener('reconnecting', this.handleReconnecting);
+
+    if (this.keepaliveTimer) {
+      clearInterval(this.keepaliveTimer);
+      this.keepaliveTimer = null;
+    }
+
+    this.eventStreams.forEach(res => res.end());
+    this.eventStreams.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const [resource, action, ...rest] = url.pathname.split('/').filter(Boolean);
+    debug.http('%s %s', req.method, url.pathname);
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJson(res, 401, { error: { code: 'UNAUTHORIZED', message: 'Missing or invalid bearer token' } });
+      return;
+    }
+
+    if (rest.length > 0) {
+      this.sendNotFound(res);
+      return;
+    }
+
+    if (resource === 'status' && !action) {
+      if (!this.requireMethod(req, res, 'GET')) return;
+      const status = url.searchParams.get('fresh') === 'true'
+        ? await this.device.getStatus({ fresh: true })
+        : this.device.getCurrentStatus();
+      this.sendJson(res, 200, {
+        status,
+        lastUpdated: this.lastUpdated?.toISOString() ?? null,
+        connected: this.device.isConnected()
+      });
+      return;
+    }
+
+    if (resource === 'events' && !action) {
+      if (!this.requireMethod(req, res, 'GET')) return;
+      this.openEventStream(req, res);
+      return;
+    }
+
+    if (resource === 'door' && DOOR_ACTIONS.includes(action as DoorAction)) {
+      if (!this.requireMethod(req, res, 'POST')) return;
+      await this.runDoorAction(action as DoorAction, url.searchParams, res);
+      return;
+    }
+
+    if (resource === 'light' && (action === 'on' || action === 'off')) {
+      if (!this.requireMethod(req, res, 'POST')) return;
+      if (url.searchParams.get('wait') === 'true') {
+        const options = this.parseWaitOptions(url.searchParams);
+        const light = action === 'on'
+          ? await this.device.lightOnAndWait(options)
+          : await this.device.lightOffAndWait(options);
+        this.sendJson(res, 200, { light });
+        return;
+      }
+      const outcome = action === 'on'
+        ? await this.device.lightOn({ source: COMMAND_SOURCE })
+        : await this.device.lightOff({ source: COMMAND_SOURCE });
+      this.sendOutcome(res, outcome);
+      return;
+    }
+
+    this.sendNotFound(res);
+  }
+
+  private async runDoorAction(action: DoorAction, query: URLSearchParams, res: http.ServerResponse): Promise<void> {
+    if (query.get('wait') !== 'true') {
+      const commands: Record<DoorAction, () => Promise<CommandOutcome>> = {
+        open: () => this.device.open({ source: COMMAND_SOURCE }),
+        close: () => this.device.close({ source: COMMAND_SOURCE }),
+        stop: () => this.device.stop({ source: COMMAND_SOURCE }),
+        intermediate: () => this.device.moveToIntermediate({ source: COMMAND_SOURCE })
+      };
+      // Waits for the command guards, which may veto the command
+      this.sendOutcome(res, await commands[action]());
+      return;
+    }
+
+    const options = this.parseWaitOptions(query);
+    const commands: Record<DoorAction, (options: WaitOptions) => Promise<MaveoStatus>> = {
+      open: options => this.device.openAndWait(options),
+      close: options => this.device.closeAndWait(options),
+      stop: options => this.device.stopAndWait(options),
+      intermediate: options => this.device.moveToIntermediateAndWait(options)
+    };
+    const status = await commands[action](options);
+    this.sendJson(res, 200, { status });
+  }
+
+  private sendOutcome(res: http.ServerResponse, outcome: CommandOutcome): void {
+    // A command the queue discarded must not look accepted
+    if (outcome !== 'sent') {
+      throw new CommandNotSentError(outcome);
+    }
+    this.sendJson(res, 202, { sent: true });
+  }
+
+  private parseWaitOptions(query: URLSearchParams): WaitOptions {
+    const options: WaitOptions = { source: COMMAND_SOURCE };
+    if (query.has('timeout')) {
+      const timeout = Number(query.get('timeout'));
+      if (!Number.isInteger(timeout) || timeout <= 0) {
+        throw new ConfigError(`Invalid timeout: ${query.get('timeout')}`);
+      }
+      options.timeout = timeout;
+    }
+    return options;
+  }
+
+  private openEventStream(req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.write(':\n\n');
+
+    this.eventStreams.add(res);
+    req.on('close', () => this.eventStreams.delete(res));
+  }
+
+  private broadcast(event: string, data: unknown): void {
+    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    this.eventStreams.forEach(res => res.write(message));
+  }
+
+  private handleStatus = (status: MaveoStatus): void => {
+    this.lastUpdated = status.timestamp;
+    this.broadcast('status', { status, lastUpdated: this.lastUpdated.toISOString() });
+  };
+
+  private handleLightChanged = (light: LightStatus): void => {
+    this.broadcast('lightChanged', light);
+  };
+
+  private handleConnected = (): void => {
+    this.broadcast('connected', {});
+  };
+
+  private handleDisconnected = (): void => {
+    this.broadcast('disconnected', {});
+  };
+
+  private handleReconnecting = (attempt: number, maxAttempts: number, delayMs: number): void => {
+    this.broadcast('reconnecting', { attempt, maxAttempts, delayMs });
+  };
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+    if (!match) return false;
+
+    const token = Buffer.from(match[1]);
+    return token.length === this.token.length && crypto.timingSafeEqual(token, this.token);
+  }
+
+  private requireMethod(req: http.IncomingMessage, res: http.ServerResponse, method: string): boolean {
+    if (req.method === method) return true;
+
+    res.setHeader('Allow', method);
+    this.sendJson(res, 405, { error: { code: 'METHOD_NOT_ALLOWED', message: `Use ${method}` } });
+    return false;
+  }
+
+  private sendNotFound(res: http.ServerResponse): void {
+    this.sendJson(res, 404, { error: { code: 'NOT_FOUND', message: 'Not found' } });
+  }
+
+  private sendError(res: http.ServerResponse, error: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    if (error instanceof MaveoError) {
+      this.sendJson(res, ERROR_STATUS[error.code] ?? 500, { error: { code: error.code, message: error.message } });
+    } else {
+      this.sendJson(res, 500, { error: { code: 'INTERNAL', message: 'Internal error' } });
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -1,10 +1,19 @@
 // Main client
 export { MaveoClient } from './MaveoClient';
 
+// Multi-device session
+export { MaveoAccount } from './MaveoAccount';
+export { MaveoDevice, MaveoDeviceOptions } from './MaveoDevice';
+
 // Types
 export {
+  MaveoSessionConfig,
   MaveoConfig,
+  MaveoAccountConfig,
+  MaveoRegion,
+  MaveoEndpointProfile,
   MaveoStatus,
+  LightStatus,
   DoorState,
   DoorCommand,
   LightCommand,
@@ -12,14 +21,176 @@ export {
   AuthResult,
   StatusResponse,
   CommandMessage,
-  MaveoClientEvents
+  ProtocolAnomaly,
+  SnifferOptions,
+  RawMessage,
+  SessionStore,
+  StoredSession,
+  AuthFlow,
+  AuthChallengeName,
+  AuthChallenge,
+  ChallengeHandler,
+  MaveoClientEvents,
+  MaveoAccountEvents,
+  WaitOptions,
+  StatusOptions,
+  StateChange,
+  CommandOptions,
+  CommandEvent,
+  CommandOutcome,
+  CommandQueueOptions,
+  DeviceHealth,
+  NetworkWatchOptions,
+  CommandRequest,
+  CommandDecision,
+  CommandGuard,
+  CommandAuditEntry,
+  DoorCalibration
 } from './types';
 
+// Errors
+export {
+  MaveoError,
+  MaveoErrorCode,
+  MaveoErrorOptions,
+  ConfigError,
+  AuthError,
+  AuthChallengeError,
+  ConnectionError,
+  StatusTimeoutError,
+  ProtocolError,
+  ProtocolErrorOptions,
+  DoorTimeoutError,
+  DoorStoppedError,
+  DoorDisconnectedError,
+  LightTimeoutError,
+  CommandNotSentError,
+  CommandVetoedError,
+  CalibrationError
+} from './errors';
+
 // Auth (for advanced usage)
-export { CognitoAuth } from './auth/CognitoAuth';
+export { CognitoAuth, CognitoAuthOptions } from './auth/CognitoAuth';
+export { MemorySessionStore, FileSessionStore } from './auth/SessionStore';
 
 // MQTT (for advanced usage)
 export { MqttConnection, MqttConnectionEvents, MqttConnectionOptions } from './mqtt/MqttConnection';
+export {
+  ReconnectStrategy,
+  ReconnectContext,
+  ExponentialBackoffStrategy,
+  ExponentialBackoffOptions,
+  isThrottlingError
+} from './mqtt/ReconnectStrategy';
+export { NetworkWatcher, NetworkWatcherEvents } from './mqtt/NetworkWatcher';
+export { MqttTransport } from './mqtt/MqttTransport';
+
+// Protocol (for advanced usage)
+export {
+  encodeCommand,
+  decodeCommand,
+  decodeResponse,
+  decodeDoorState,
+  decodeLightState,
+  DecodedResponse,
+  FieldAnomaly,
+  COMMAND_FIELDS,
+  RESPONSE_FIELDS
+} from './protocol/codec';
+
+// Capture (for reverse engineering and regression tests)
+export {
+  Capture,
+  CaptureHeader,
+  CaptureEntry,
+  CaptureMessageEntry,
+  CaptureConnectionEntry,
+  CAPTURE_FORMAT,
+  CAPTURE_VERSION,
+  parseCapture,
+  readCapture,
+  decodeCapturePayload
+} from './capture/format';
+export { CaptureRecorder } from './capture/CaptureRecorder';
+export { ReplayTransport, ReplayTransportOptions, ReplayTransportEvents } from './capture/ReplayTransport';
+
+// HTTP gateway
+export { HttpGateway, HttpGatewayOptions } from './http/HttpGateway';
+
+// Home Assistant
+export {
+  HomeAssistantBridge,
+  HomeAssistantBridgeOptions,
+  HomeAssistantBridgeEvents,
+  HomeAssistantTopics,
+  toCoverState,
+  getHomeAssistantTopics,
+  buildDiscoveryConfigs
+} from './homeassistant/HomeAssistantBridge';
+
+// History
+export {
+  DoorHistory,
+  DoorHistoryOptions,
+  HistoryEntry,
+  StatusHistoryEntry,
+  CommandHistoryEntry,
+  HistoryBackend,
+  HistoryQuery,
+  HistorySource,
+  TravelTimes
+} from './history/DoorHistory';
+export { JsonlHistoryBackend } from './history/JsonlHistoryBackend';
+
+// Watchdog
+export {
+  OpenDoorWatchdog,
+  OpenDoorWatchdogOptions,
+  OpenDoorWatchdogEvents,
+  OpenDoorEvent,
+  QuietHours
+} from './watchdog/OpenDoorWatchdog';
+
+// Command guards
+export {
+  requireStationaryBeforeClose,
+  requireConfirmation,
+  ConfirmationGuardOptions,
+  blockOpenDuring,
+  refuseStaleStatus
+} from './guards/CommandGuards';
+export { TimeWindow } from './utils/timeWindow';
+
+// Position
+export { PositionEstimator } from './position/PositionEstimator';
+
+// Scheduler
+export {
+  Scheduler,
+  SchedulerOptions,
+  SchedulerEvents,
+  ScheduleDefinition,
+  ScheduleTrigger,
+  ScheduleAction,
+  ScheduleConditions,
+  ScheduleExecution,
+  DoorStateName
+} from './scheduler/Scheduler';
+export { CronExpression } from './scheduler/cron';
+export { GeoLocation, getSunTimes } from './scheduler/time';
+
+// Simulator (for testing)
+export {
+  MaveoSimulator,
+  MaveoSimulatorOptions,
+  MaveoSimulatorEvents,
+  SimulatorDevice
+} from './simulator/MaveoSimulator';
+export { VirtualDoor, VirtualDoorOptions, VirtualDoorEvents } from './simulator/VirtualDoor';
+export { SimulatorUser } from './simulator/FakeCognito';
+
+// Endpoint profiles
+export { ENDPOINT_PROFILES, resolveEndpointProfile, ResolvedEndpointProfile } from './endpoints';
 
 // Constants (for reference)
 export {
@@ -33,5 +204,7 @@ export {
   DEFAULT_STATUS_TIMEOUT,
   DEFAULT_MAX_RECONNECT_ATTEMPTS,
   DEFAULT_BASE_RECONNECT_DELAY,
-  DEFAULT_KEEPALIVE
+  DEFAULT_KEEPALIVE,
+  DEFAULT_MOVE_TIMEOUT,
+  DEFAULT_COMMAND_SOURCE
 } from './constants';
@@ -0,0 +1,201 @@
+import { CommandOutcome, CommandQueueOptions, DoorCommand, LightCommand } from '../types';
+import { ConfigError } from '../errors';
+import { debug } from '../utils/logger';
+
+/**
+ * A door or light command waiting to be sent.
+ */
+export type QueuedCommand =
+  | { deviceId: string; target: 'door'; command: DoorCommand }
+  | { deviceId: string; target: 'light'; command: LightCommand };
+
+/**
+ * How the queue reaches the connection.
+ */
+export interface CommandTransport {
+  isConnected(): boolean;
+  send(command: QueuedCommand): void;
+}
+
+interface QueueEntry {
+  command: QueuedCommand;
+  onSent: () => void;
+  resolve: (outcome: CommandOutcome) => void;
+  promise: Promise<CommandOutcome>;
+  timer: NodeJS.Timeout;
+}
+
+const DEFAULT_TTL = 30000;
+const DEFAULT_MAX_SIZE = 20;
+const DEFAULT_BURST = 5;
+const DEFAULT_RATE_PER_SECOND = 1;
+
+/**
+ * Outbound command queue: buffers commands while disconnected, collapses duplicates,
+ * resolves conflicting door commands and limits the send rate with a token bucket.
+ */
+export class CommandQueue {
+  private readonly ttl: number;
+  private readonly maxSize: number;
+  private readonly conflictPolicy: NonNullable<CommandQueueOptions['conflictPolicy']>;
+  private readonly burst: number;
+  private readonly ratePerSecond: number;
+  private readonly transport: CommandTransport;
+  private entries: QueueEntry[] = [];
+  private tokens: number;
+  private lastRefill = Date.now();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param options - Queue limits and policies
+   * @param transport - Connection the commands are sent through
+   * @throws {ConfigError} If a limit is not positive
+   */
+  constructor(options: CommandQueueOptions, transport: CommandTransport) {
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+    this.conflictPolicy = options.conflictPolicy ?? 'replace';
+    this.burst = options.burst ?? DEFAULT_BURST;
+    this.ratePerSecond = options.ratePerSecond ?? DEFAULT_RATE_PER_SECOND;
+    this.transport = transport;
+
+    for (const [name, value] of Object.entries({ ttl: this.ttl, maxSize: this.maxSize, burst: this.burst, ratePerSecond: this.ratePerSecond })) {
+      if (!(value > 0)) {
+        throw new ConfigError(`Invalid command queue ${name}: ${value}`);
+      }
+    }
+    if (!['replace', 'keepFirst', 'sequential'].includes(this.conflictPolicy)) {
+      throw new ConfigError(`Invalid command queue conflictPolicy: ${this.conflictPolicy}`);
+    }
+
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Queues a command and sends it as soon as the connection and the rate limit allow.
+   * @param command - The command
+   * @param onSent - Called right after the command was published
+   * @returns Resolves with 'sent', 'expired' if the TTL passed first, or 'dropped'
+   */
+  enqueue(command: QueuedCommand, onSent: () => void): Promise<CommandOutcome> {
+    const pending = this.entries.filter(entry => entry.command.deviceId === command.deviceId);
+    const last = pending[pending.length - 1];
+
+    // A repeated command is sent once and shares the outcome
+    if (last && last.command.target === command.target && last.command.command === command.command) {
+      debug.mqtt('Collapsing duplicate %s command for %s', command.target, command.deviceId);
+      return last.promise;
+    }
+
+    if (command.target === 'door') {
+      const doorEntries = pending.filter(entry => entry.command.target === 'door');
+      const conflict = doorEntries.find(entry => entry.command.command !== command.command);
+      const same = doorEntries.find(entry => entry.command.command === command.command);
+      if (same && !conflict) {
+        debug.mqtt('Collapsing duplicate door command for %s', command.deviceId);
+        return same.promise;
+      }
+      // STOP is what stops a door in an emergency, so it waits behind the queued command instead
+      if (conflict && this.conflictPolicy === 'keepFirst' && command.command !== DoorCommand.STOP) {
+        debug.mqtt('Dropping door command conflicting with a queued one for %s', command.deviceId);
+        return Promise.resolve('dropped');
+      }
+      if (conflict && this.conflictPolicy === 'replace') {
+        debug.mqtt('Replacing queued door command for %s', command.deviceId);
+        this.settle(conflict, 'dropped');
+      }
+    }
+
+    if (this.entries.length >= this.maxSize) {
+      debug.mqtt('Command queue full, dropping %s command for %s', command.target, command.deviceId);
+      return Promise.resolve('dropped');
+    }
+
+    let resolve!: (outcome: CommandOutcome) => void;
+    const promise = new Promise<CommandOutcome>(res => {
+      resolve = res;
+    });
+    const entry: QueueEntry = {
+      command,
+      onSent,
+      resolve,
+      promise,
+      timer: setTimeout(() => {
+        debug.mqtt('Queued %s command for %s expired', command.target, command.deviceId);
+        this.settle(entry, 'expired');
+      }, this.ttl)
+    };
+    this.entries.push(entry);
+
+    this.flush();
+    return promise;
+  }
+
+  /**
+   * Sends as many queued commands as the connection and the rate limit allow.
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.refill();
+    while (this.entries.length > 0 && this.tokens >= 1 && this.transport.isConnected()) {
+      const entry = this.entries[0];
+      try {
+        this.transport.send(entry.command);
+      } catch (error) {
+        // The connection went away, keep the command for the next attempt
+        debug.mqtt('Sending queued command failed: %O', error);
+        return;
+      }
+
+      this.tokens--;
+      this.settle(entry, 'sent');
+      entry.onSent();
+    }
+
+    if (this.entries.length > 0 && this.transport.isConnected()) {
+      const delay = Math.ceil((1 - this.tokens) / this.ratePerSecond * 1000);
+      debug.mqtt('Rate limited, sending next command in %dms', delay);
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, delay);
+    }
+  }
+
+  /**
+   * Drops all queued commands.
+   */
+  clear(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    [...this.entries].forEach(entry => this.settle(entry, 'dropped'));
+  }
+
+  /**
+   * Gets the number of commands waiting to be sent.
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  private settle(entry: QueueEntry, outcome: CommandOutcome): void {
+    clearTimeout(entry.timer);
+    const index = this.entries.indexOf(entry);
+    if (index > -1) {
+      this.entries.splice(index, 1);
+    }
+    entry.resolve(outcome);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) / 1000 * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
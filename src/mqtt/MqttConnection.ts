@@ -3,55 +3,112 @@ import { EventEmitter } from 'events';
 import * as crypto from 'crypto';
 import mqtt, { MqttClient, IClientOptions } from 'mqtt';
 import { CognitoAuth } from '../auth/CognitoAuth';
-import { CommandMessage, StatusResponse, DoorCommand, LightCommand } from '../types';
 import {
-  AWS_REGION,
-  IOT_HOST,
+  CommandMessage,
+  StatusResponse,
+  DoorCommand,
+  LightCommand,
+  ProtocolAnomaly,
+  RawMessage,
+  SnifferOptions
+} from '../types';
+import { decodeResponse, encodeCommand } from '../protocol/codec';
+import { CaptureRecorder } from '../capture/CaptureRecorder';
+import { MqttTransport } from './MqttTransport';
+import { ExponentialBackoffStrategy, ReconnectStrategy, isThrottlingError } from './ReconnectStrategy';
+import {
   DEFAULT_CONNECT_TIMEOUT,
   DEFAULT_MAX_RECONNECT_ATTEMPTS,
   DEFAULT_BASE_RECONNECT_DELAY,
-  DEFAULT_KEEPALIVE
+  DEFAULT_MAX_RECONNECT_DELAY,
+  DEFAULT_KEEPALIVE,
+  DEFAULT_CREDENTIAL_REFRESH_MARGIN
 } from '../constants';
+import { AuthError, ConfigError, ConnectionError, MaveoError, toMaveoError } from '../errors';
 import { debug } from '../utils/logger';
+import { topicMatches } from '../utils/topics';
 
 export type MqttConnectionEvents = {
   connected: () => void;
   disconnected: () => void;
   reconnecting: (attempt: number, maxAttempts: number, delayMs: number) => void;
-  message: (topic: string, payload: StatusResponse) => void;
-  error: (error: Error) => void;
+  reconnectFailed: (attempts: number, error: MaveoError) => void;
+  message: (topic: string, payload: StatusResponse, deviceId: string) => void;
+  protocolAnomaly: (anomaly: ProtocolAnomaly) => void;
+  rawMessage: (message: RawMessage) => void;
+  credentialsRefreshed: (expiration: Date) => void;
+  error: (error: MaveoError) => void;
 }
 
 /**
  * Options for MqttConnection.
  */
 export interface MqttConnectionOptions {
+  /** MQTT client ID. Default: the first device ID */
+  clientId?: string;
   connectTimeout?: number;
   maxReconnectAttempts?: number;
   baseReconnectDelay?: number;
+  /** Upper bound of the default reconnect delay in milliseconds. Default: 300000 */
+  maxReconnectDelay?: number;
+  /** Replaces the default exponential backoff built from the options above */
+  reconnectStrategy?: ReconnectStrategy;
   keepalive?: number;
+  /** Renew credentials and the signed WebSocket this many milliseconds before expiry. Default: 300000 */
+  credentialRefreshMargin?: number;
+  /** Subscribe to extra topics, record raw messages and allow sendRaw(). Default: disabled */
+  sniffer?: SnifferOptions;
+  /** Creates the MQTT clients instead of the signed AWS IoT WebSocket; no credentials are used. Default: AWS IoT */
+  transport?: MqttTransport;
 }
 
+const DEFAULT_SNIFFER_TOPICS = ['{deviceId}/#'];
+// Door commands bypass the command guards when sent raw
+const RAW_BLOCKED_FIELDS = ['AtoS_g'];
+
 export class MqttConnection extends (EventEmitter as new () => TypedEmitter<MqttConnectionEvents>) {
   private auth: CognitoAuth;
-  private deviceId: string;
+  private deviceIds: Set<string>;
+  private readonly clientId: string;
   private client: MqttClient | null = null;
   private reconnectAttempts = 0;
-  private readonly maxReconnectAttempts: number;
-  private readonly baseReconnectDelay: number;
+  private readonly reconnectStrategy: ReconnectStrategy;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectPaused = false;
+  private reconnectExhausted = false;
+  private lastError: MaveoError | null = null;
   private readonly connectTimeout: number;
   private readonly keepalive: number;
+  private readonly credentialRefreshMargin: number;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private renewalFailures = 0;
   private isConnecting = false;
+  private isRenewing = false;
   private shouldReconnect = true;
+  private readonly sniffer: SnifferOptions | null;
+  private readonly recorder: CaptureRecorder | null;
+  private readonly transport: MqttTransport | null;
 
-  constructor(auth: CognitoAuth, deviceId: string, options: MqttConnectionOptions = {}) {
+  constructor(auth: CognitoAuth, deviceIds: string | string[], options: MqttConnectionOptions = {}) {
     super();
     this.auth = auth;
-    this.deviceId = deviceId;
-    this.maxReconnectAttempts = options.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
-    this.baseReconnectDelay = options.baseReconnectDelay ?? DEFAULT_BASE_RECONNECT_DELAY;
+    this.deviceIds = new Set(typeof deviceIds === 'string' ? [deviceIds] : deviceIds);
+    this.clientId = options.clientId ?? [...this.deviceIds][0] ?? `maveo-${crypto.randomUUID()}`;
+    this.reconnectStrategy = options.reconnectStrategy ?? new ExponentialBackoffStrategy({
+      baseDelay: options.baseReconnectDelay ?? DEFAULT_BASE_RECONNECT_DELAY,
+      maxDelay: Math.max(
+        options.maxReconnectDelay ?? DEFAULT_MAX_RECONNECT_DELAY,
+        options.baseReconnectDelay ?? DEFAULT_BASE_RECONNECT_DELAY
+      ),
+      maxAttempts: options.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS
+    });
     this.connectTimeout = options.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT;
     this.keepalive = options.keepalive ?? DEFAULT_KEEPALIVE;
+    this.credentialRefreshMargin = options.credentialRefreshMargin ?? DEFAULT_CREDENTIAL_REFRESH_MARGIN;
+    this.sniffer = options.sniffer ?? null;
+    this.recorder = this.sniffer?.captureFile ? new CaptureRecorder(this.sniffer.captureFile) : null;
+    this.recorder?.attach(this);
+    this.transport = options.transport ?? null;
   }
 
   async connect(): Promise<void> {
@@ -68,42 +125,157 @@ export class MqttConnection extends (EventEmitter as new () => TypedEmitter<Mqtt
 
     try {
       // Refresh credentials if expired
-      if (this.auth.isCredentialsExpired()) {
-        await this.auth.authenticate();
-      }
-
-      const credentials = this.auth.getCredentials();
-      if (!credentials) {
-        throw new Error('No credentials available');
+      if (!this.transport && this.auth.isCredentialsExpired()) {
+        await this.refreshCredentials();
       }
 
-      // Generate auth headers (matching ha-maveo-cloud approach)
-      const headers = this.generateAuthHeaders(credentials);
-
-      debug.mqtt('Connecting to MQTT, host: %s', IOT_HOST);
+      const client = this.createClient();
+      this.client = client;
+      this.setupEventHandlers(client);
+      await this.waitForConnect(client);
 
-      // Use mqtt.js with WebSocket transport and custom headers
-      const url = `wss://${IOT_HOST}:443/mqtt`;
+    } catch (error) {
+      this.isConnecting = false;
+      throw toMaveoError(error, 'CONNECT_FAILED', 'Connection failed');
+    }
+  }
 
-      const options: IClientOptions = {
+  private createClient(): MqttClient {
+    if (this.transport) {
+      debug.mqtt('Connecting through the configured transport');
+      return this.transport.createClient({
         protocolVersion: 4,
-        clientId: this.deviceId,
+        clientId: this.clientId,
         clean: true,
         reconnectPeriod: 0,
         connectTimeout: this.connectTimeout,
-        keepalive: this.keepalive,
-        wsOptions: {
-          headers: headers
-        }
-      };
+        keepalive: this.keepalive
+      });
+    }
+
+    const credentials = this.auth.getCredentials();
+    if (!credentials) {
+      throw new AuthError('AUTH_FAILED', 'No credentials available');
+    }
+
+    // Generate auth headers (matching ha-maveo-cloud approach)
+    const headers = this.generateAuthHeaders(credentials);
+
+    const url = this.auth.getEndpoint().iotUrl;
+    debug.mqtt('Connecting to MQTT, url: %s', url);
+
+    // Use mqtt.js with WebSocket transport and custom headers
+
+    const options: IClientOptions = {
+      protocolVersion: 4,
+      clientId: this.clientId,
+      clean: true,
+      reconnectPeriod: 0,
+      connectTimeout: this.connectTimeout,
+      keepalive: this.keepalive,
+      wsOptions: {
+        headers: headers
+      }
+    };
+
+    return mqtt.connect(url, options);
+  }
+
+  private async refreshCredentials(): Promise<void> {
+    const { credentials } = await this.auth.refresh();
+    this.emit('credentialsRefreshed', credentials.expiration);
+  }
+
+  private scheduleCredentialRefresh(): void {
+    this.clearRefreshTimer();
+
+    const credentials = this.auth.getCredentials();
+    if (!credentials) return;
+
+    const delay = Math.max(0, credentials.expiration.getTime() - this.credentialRefreshMargin - Date.now());
+    debug.mqtt('Renewing credentials in %dms', delay);
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.renewConnection();
+    }, delay);
+  }
+
+  /**
+   * Retries a failed renewal as the reconnect strategy decides, since the old
+   * expiration would schedule it right away. Gives up once the retry would come
+   * after the credentials expire; the broker then closes the socket and the
+   * regular reconnect logic takes over.
+   */
+  private scheduleRenewalRetry(error: MaveoError): void {
+    this.clearRefreshTimer();
+
+    const attempt = ++this.renewalFailures;
+    const throttled = isThrottlingError(error);
+    const delay = this.reconnectStrategy.nextDelay({ attempt, error, throttled });
+    const expiration = this.auth.getCredentials()?.expiration.getTime() ?? 0;
+
+    if (delay === null || Date.now() + delay >= expiration) {
+      debug.mqtt('Not retrying the renewal before the credentials expire');
+      // Makes the reconnection after the socket closes wait as well
+      this.lastError = error;
+      return;
+    }
 
-      this.client = mqtt.connect(url, options);
-      this.setupEventHandlers();
-      await this.waitForConnect();
+    debug.mqtt('Retrying the renewal in %dms (attempt %d%s)', delay, attempt, throttled ? ', throttled' : '');
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.renewConnection();
+    }, delay);
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
 
+  /**
+   * Refreshes the credentials and replaces the signed WebSocket before they expire.
+   * The new connection is established before the old one is closed, so no
+   * disconnected/connected events are emitted on success.
+   */
+  private async renewConnection(): Promise<void> {
+    const previous = this.client;
+    let next: MqttClient | null = null;
+    this.isRenewing = true;
+
+    try {
+      await this.refreshCredentials();
+
+      next = this.createClient();
+      await this.waitForConnect(next);
+
+      this.client = next;
+      this.setupEventHandlers(next);
+      this.deviceIds.forEach(deviceId => this.subscribeToDevice(deviceId));
+      debug.mqtt('Connection renewed');
+
+      previous?.end(true);
+      this.renewalFailures = 0;
+      this.scheduleCredentialRefresh();
     } catch (error) {
-      this.isConnecting = false;
-      throw error;
+      debug.mqtt('Connection renewal failed: %O', error);
+      next?.end(true);
+      const renewalError = toMaveoError(error, 'CONNECT_FAILED', 'Failed to renew connection');
+      this.emit('error', renewalError);
+
+      // Fall back to the regular reconnect logic if the old socket is gone as well
+      if (!previous?.connected && this.shouldReconnect) {
+        this.lastError = renewalError;
+        this.emit('disconnected');
+        this.handleReconnect();
+      } else if (this.shouldReconnect) {
+        this.scheduleRenewalRetry(renewalError);
+      }
+    } finally {
+      this.isRenewing = false;
     }
   }
 
@@ -112,15 +284,16 @@ export class MqttConnection extends (EventEmitter as new () => TypedEmitter<Mqtt
     secretAccessKey: string;
     sessionToken: string;
   }): Record<string, string> {
+    const { region, iotHost } = this.auth.getEndpoint();
     const now = new Date();
     const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
     const datestamp = amzDate.substring(0, 8);
 
     const service = 'iotdata';
     const algorithm = 'AWS4-HMAC-SHA256';
-    const credentialScope = `${datestamp}/${AWS_REGION}/${service}/aws4_request`;
+    const credentialScope = `${datestamp}/${region}/${service}/aws4_request`;
 
-    const canonicalHeaders = `host:${IOT_HOST}\nx-amz-date:${amzDate}\n`;
+    const canonicalHeaders = `host:${iotHost}\nx-amz-date:${amzDate}\n`;
     const signedHeaders = 'host;x-amz-date';
     const payloadHash = crypto.createHash('sha256').update('').digest('hex');
 
@@ -136,7 +309,7 @@ export class MqttConnection extends (EventEmitter as new () => TypedEmitter<Mqtt
       .createHmac('sha256', `AWS4${credentials.secretAccessKey}`)
       .update(datestamp)
       .digest();
-    const kRegion = crypto.createHmac('sha256', kDate).update(AWS_REGION).digest();
+    const kRegion = crypto.createHmac('sha256', kDate).update(region).digest();
     const kService = crypto.createHmac('sha256', kRegion).update(service).digest();
     const kSigning = crypto.createHmac('sha256', kService).update('aws4_request').digest();
 
@@ -148,7 +321,7 @@ export class MqttConnection extends (EventEmitter as new () => TypedEmitter<Mqtt
     const authHeader = `${algorithm} Credential=${credentials.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
 
     const headers: Record<string, string> = {
-      'Host': IOT_HOST,
+      'Host': iotHost,
       'X-Amz-Date': amzDate,
       'Authorization': authHeader
     };
@@ -160,35 +333,62 @@ export class MqttConnection extends (EventEmitter as new () => TypedEmitter<Mqtt
     return headers;
   }
 
-  private setupEventHandlers(): void {
-    if (!this.client) return;
-
-    this.client.on('connect', () => {
+  private setupEventHandlers(client: MqttClient): void {
+    client.on('connect', () => {
       debug.mqtt('Connected');
       this.isConnecting = false;
       this.reconnectAttempts = 0;
-      this.subscribeToDevice();
+      this.renewalFailures = 0;
+      this.reconnectExhausted = false;
+      this.lastError = null;
+      this.deviceIds.forEach(deviceId => this.subscribeToDevice(deviceId));
+      this.scheduleCredentialRefresh();
       this.emit('connected');
     });
 
-    this.client.on('message', (topic: string, payload: Buffer) => {
+    client.on('message', (topic: string, payload: Buffer) => {
+      if (client !== this.client) return;
+
+      debug.mqtt('Received message on %s: %s', topic, payload.toString());
+      this.handleRawMessage({ direction: 'received', topic, payload, timestamp: new Date() });
+
+      const device = topic.split('/')[0];
+      // Sniffed topics are only reported raw
+      if (topic !== `${device}/rsp`) return;
+
+      let decoded: ReturnType<typeof decodeResponse>;
       try {
-        debug.mqtt('Received message on %s: %s', topic, payload.toString());
-        const message = JSON.parse(payload.toString()) as StatusResponse;
-        this.emit('message', topic, message);
+        decoded = decodeResponse(payload);
       } catch (error) {
-        this.emit('error', new Error(`Failed to parse message: ${error}`));
+        this.emit('error', toMaveoError(error, 'PROTOCOL_PARSE', 'Failed to parse message'));
+        return;
       }
+
+      decoded.anomalies.forEach(anomaly => {
+        debug.mqtt('Protocol anomaly on %s: %s %s = %j', topic, anomaly.kind, anomaly.field, anomaly.value);
+        this.emit('protocolAnomaly', { ...anomaly, device, topic, payload: payload.toString() });
+      });
+      this.emit('message', topic, decoded.message, device);
     });
 
-    this.client.on('error', (error: Error) => {
+    client.on('error', (error: Error) => {
+      if (client !== this.client) return;
+
       debug.mqtt('Error: %s', error.message);
-      this.emit('error', error);
+      this.lastError = new ConnectionError('CONNECTION_ERROR', error.message, { cause: error });
+      this.emit('error', this.lastError);
     });
 
-    this.client.on('close', () => {
+    client.on('close', () => {
+      // The old socket may be closed by the broker while its replacement connects
+      if (client !== this.client || this.isRenewing) {
+        debug.mqtt('Previous connection closed');
+        return;
+      }
+
       debug.mqtt('Connection closed');
       this.isConnecting = false;
+      this.clearRefreshTimer();
       this.emit('disconnected');
 
       if (this.shouldReconnect) {
@@ -196,112 +396,321 @@ export class MqttConnection extends (EventEmitter as new () => TypedEmitter<Mqtt
       }
     });
 
-    this.client.on('offline', () => {
+    client.on('offline', () => {
+      if (client !== this.client) return;
+
       debug.mqtt('Offline');
       this.emit('disconnected');
     });
   }
 
-  private waitForConnect(): Promise<void> {
+  private waitForConnect(client: MqttClient): Promise<void> {
     return new Promise((resolve, reject) => {
-      if (!this.client) {
-        reject(new Error('Client not initialized'));
-        return;
-      }
-
       const timeout = setTimeout(() => {
-        reject(new Error('Connection timeout'));
+        reject(new ConnectionError('CONNECT_TIMEOUT', 'Connection timeout'));
       }, this.connectTimeout);
 
-      this.client.once('connect', () => {
+      client.once('connect', () => {
         clearTimeout(timeout);
         resolve();
       });
 
-      this.client.once('error', (error: Error) => {
+      client.once('error', (error: Error) => {
         clearTimeout(timeout);
-        reject(error);
+        reject(new ConnectionError('CONNECT_FAILED', `Connection failed: ${error.message}`, { cause: error }));
       });
     });
   }
 
-  private subscribeToDevice(): void {
+  private subscribeToDevice(deviceId: string): void {
     if (!this.client) return;
 
-    const topic = `${this.deviceId}/rsp`;
-    debug.mqtt('Subscribing to: %s', topic);
+    const topics = this.getDeviceTopics(deviceId);
+    debug.mqtt('Subscribing to: %s', topics.join(', '));
+
+    const client = this.client;
+    client.subscribe(topics, { qos: 1 }, (error) => {
+      // The answer to a subscription on a replaced or closing client does not matter
+      if (client !== this.client || !this.shouldReconnect) return;
 
-    this.client.subscribe(topic, { qos: 1 }, (error) => {
       if (error) {
-        this.emit('error', new Error(`Failed to subscribe to ${topic}: ${error.message}`));
+        this.emit('error', new ConnectionError('SUBSCRIBE_FAILED', `Failed to subscribe to ${topics.join(', ')}: ${error.message}`, { cause: error }));
       } else {
-        debug.mqtt('Subscribed to: %s', topic);
+        debug.mqtt('Subscribed to: %s', topics.join(', '));
         // Request initial status
-        this.requestStatus();
+        this.requestStatus(deviceId);
       }
     });
   }
 
-  private async handleReconnect(): Promise<void> {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.emit('error', new Error('Max reconnection attempts reached'));
+  /**
+   * Schedules the next reconnection attempt as the strategy decides.
+   * Does nothing while an attempt is pending, running or paused.
+   */
+  private handleReconnect(): void {
+    if (this.reconnectTimer || this.isConnecting || this.reconnectPaused || !this.shouldReconnect || this.isConnected()) {
       return;
     }
 
-    this.reconnectAttempts++;
-    const delay = this.baseReconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    const attempt = this.reconnectAttempts + 1;
+    const error = this.lastError;
+    const throttled = isThrottlingError(error);
+    const delay = this.reconnectStrategy.nextDelay({ attempt, error, throttled });
+
+    if (delay === null) {
+      debug.mqtt('Giving up after %d reconnection attempts', this.reconnectAttempts);
+      this.reconnectExhausted = true;
+      const exhausted = new ConnectionError('RECONNECT_EXHAUSTED', 'Max reconnection attempts reached', { cause: error ?? undefined });
+      this.emit('reconnectFailed', this.reconnectAttempts, exhausted);
+      this.emit('error', exhausted);
+      return;
+    }
 
-    this.emit('reconnecting', this.reconnectAttempts, this.maxReconnectAttempts, delay);
-    debug.mqtt('Reconnecting in %dms (attempt %d/%d)', delay, this.reconnectAttempts, this.maxReconnectAttempts);
+    this.reconnectAttempts = attempt;
+    const maxAttempts = this.reconnectStrategy.maxAttempts;
+    this.emit('reconnecting', attempt, maxAttempts, delay);
+    debug.mqtt('Reconnecting in %dms (attempt %d/%d%s)', delay, attempt, maxAttempts, throttled ? ', throttled' : '');
 
-    await new Promise(resolve => setTimeout(resolve, delay));
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.attemptReconnect().catch(() => undefined);
+    }, delay);
+  }
 
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private async attemptReconnect(): Promise<void> {
     try {
       await this.connect();
     } catch (error) {
       debug.mqtt('Reconnection failed: %O', error);
+      this.lastError = toMaveoError(error, 'CONNECT_FAILED', 'Reconnection failed');
+
+      // A failure before the socket was opened produces no close event
+      this.handleReconnect();
+      throw this.lastError;
     }
   }
 
+  /**
+   * Stops automatic reconnection until resumeReconnect() or reconnectNow() is called.
+   * A pending attempt is cancelled; an established connection is not affected.
+   */
+  pauseReconnect(): void {
+    debug.mqtt('Reconnection paused');
+    this.reconnectPaused = true;
+    this.clearReconnectTimer();
+  }
+
+  /**
+   * Resumes automatic reconnection. Starts over with the first attempt if the
+   * strategy had given up.
+   */
+  resumeReconnect(): void {
+    debug.mqtt('Reconnection resumed');
+    this.reconnectPaused = false;
+
+    if (this.reconnectExhausted) {
+      this.reconnectExhausted = false;
+      this.reconnectAttempts = 0;
+    }
+    if (this.client && !this.isConnected()) {
+      this.handleReconnect();
+    }
+  }
+
+  /**
+   * Reconnects immediately, skipping the pending backoff delay, and resumes
+   * automatic reconnection. Does nothing if connected.
+   * @throws {AuthError} If the credentials cannot be refreshed
+   * @throws {ConnectionError} If the connection fails or times out
+   */
+  async reconnectNow(): Promise<void> {
+    if (this.isConnected()) return;
+
+    debug.mqtt('Reconnecting now');
+    this.clearReconnectTimer();
+    this.reconnectPaused = false;
+    this.reconnectExhausted = false;
+    this.shouldReconnect = true;
+    this.reconnectAttempts = 0;
+    await this.attemptReconnect();
+  }
+
+  /**
+   * Drops the current socket, which may be dead without having noticed yet, and
+   * connects again right away, e.g. after a network change or system sleep.
+   * Expired credentials are refreshed first and the status of every device is
+   * requested once subscribed. Does nothing after disconnect().
+   * @throws {AuthError} If the credentials cannot be refreshed
+   * @throws {ConnectionError} If the connection fails or times out
+   */
+  async restart(): Promise<void> {
+    if (!this.shouldReconnect || !this.client) return;
+
+    debug.mqtt('Restarting connection');
+    const previous = this.client;
+    const wasConnected = previous.connected;
+    // Its close event must not trigger the regular reconnect logic
+    this.client = null;
+    this.isConnecting = false;
+    this.clearReconnectTimer();
+    this.clearRefreshTimer();
+    previous.end(true);
+
+    if (wasConnected) {
+      this.emit('disconnected');
+    }
+
+    this.reconnectPaused = false;
+    this.reconnectExhausted = false;
+    this.reconnectAttempts = 0;
+    await this.attemptReconnect();
+  }
+
   async disconnect(): Promise<void> {
     this.shouldReconnect = false;
+    this.clearRefreshTimer();
+    this.clearReconnectTimer();
 
     if (this.client) {
-      return new Promise((resolve) => {
+      await new Promise<void>((resolve) => {
         this.client!.end(false, {}, () => {
           this.client = null;
           resolve();
         });
       });
     }
+    await this.recorder?.flush();
+  }
+
+  /**
+   * Adds a device to the connection and subscribes to it if connected.
+   * @param deviceId - Device serial number
+   */
+  addDevice(deviceId: string): void {
+    if (this.deviceIds.has(deviceId)) return;
+
+    this.deviceIds.add(deviceId);
+    if (this.client?.connected) {
+      this.subscribeToDevice(deviceId);
+    }
+  }
+
+  /**
+   * Removes a device from the connection and unsubscribes from it if connected.
+   * @param deviceId - Device serial number
+   */
+  removeDevice(deviceId: string): void {
+    if (!this.deviceIds.delete(deviceId)) return;
+
+    if (this.client?.connected) {
+      const topics = this.getDeviceTopics(deviceId);
+      this.client.unsubscribe(topics, (error) => {
+        if (error) {
+          this.emit('error', new ConnectionError('SUBSCRIBE_FAILED', `Failed to unsubscribe from ${topics.join(', ')}: ${error.message}`, { cause: error }));
+        }
+      });
+    }
   }
 
-  publish(command: CommandMessage): void {
+  getDeviceIds(): string[] {
+    return [...this.deviceIds];
+  }
+
+  /**
+   * Publishes a command on the cmd topic of a device.
+   * @param command - The command, with exactly one AtoS_* field
+   * @param deviceId - Device serial number. Default: the first device
+   * @throws {ConnectionError} If not connected
+   * @throws {ProtocolError} If the command is not valid
+   */
+  publish(command: CommandMessage, deviceId: string = this.getDefaultDeviceId()): void {
     if (!this.client || !this.client.connected) {
-      throw new Error('Not connected to MQTT broker');
+      throw new ConnectionError('NOT_CONNECTED', 'Not connected to MQTT broker');
     }
 
-    const topic = `${this.deviceId}/cmd`;
-    const payload = JSON.stringify(command);
+    this.publishPayload(`${deviceId}/cmd`, encodeCommand(command));
+  }
+
+  /**
+   * Publishes an arbitrary payload on the cmd topic of a device, e.g. to try
+   * unknown AtoS_* fields. Door commands are refused since they would bypass the
+   * command guards; use the door methods instead.
+   * @param payload - JSON object published as it is
+   * @param deviceId - Device serial number. Default: the first device
+   * @throws {ConfigError} If sniffer.allowRawCommands is not set, the device is unknown or the payload is not allowed
+   * @throws {ConnectionError} If not connected
+   */
+  sendRaw(payload: CommandMessage | Record<string, unknown>, deviceId: string = this.getDefaultDeviceId()): void {
+    if (!this.sniffer?.allowRawCommands) {
+      throw new ConfigError('sendRaw() is disabled, set sniffer.allowRawCommands to enable it');
+    }
+    if (!this.deviceIds.has(deviceId)) {
+      throw new ConfigError(`sendRaw(): unknown device ${deviceId}`);
+    }
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      throw new ConfigError('sendRaw(): the payload must be a JSON object');
+    }
+    const blocked = Object.keys(payload).find(field => RAW_BLOCKED_FIELDS.includes(field));
+    if (blocked) {
+      throw new ConfigError(`sendRaw(): ${blocked} is not allowed, use the door commands`);
+    }
+    if (!this.client || !this.client.connected) {
+      throw new ConnectionError('NOT_CONNECTED', 'Not connected to MQTT broker');
+    }
+
+    this.publishPayload(`${deviceId}/cmd`, JSON.stringify(payload));
+  }
+
+  private publishPayload(topic: string, payload: string): void {
+    if (!this.client) return;
 
     debug.mqtt('Publishing to %s: %s', topic, payload);
+    this.handleRawMessage({ direction: 'published', topic, payload: Buffer.from(payload), timestamp: new Date() });
     this.client.publish(topic, payload, { qos: 1 }, (error) => {
-      if (error) {
-        this.emit('error', new Error(`Failed to publish command: ${error.message}`));
+      // Messages in flight fail when disconnect() closes the client
+      if (error && this.shouldReconnect) {
+        this.emit('error', new ConnectionError('PUBLISH_FAILED', `Failed to publish command: ${error.message}`, { cause: error }));
       }
     });
   }
 
-  sendDoorCommand(command: DoorCommand): void {
-    this.publish({ AtoS_g: command });
+  private handleRawMessage(message: RawMessage): void {
+    this.emit('rawMessage', message);
   }
 
-  sendLightCommand(command: LightCommand): void {
-    this.publish({ AtoS_l: command });
+  private getDeviceTopics(deviceId: string): string[] {
+    const patterns = this.sniffer ? this.sniffer.topics ?? DEFAULT_SNIFFER_TOPICS : [];
+    const topics = [...new Set(patterns.map(pattern => pattern.split('{deviceId}').join(deviceId)))];
+    const statusTopic = `${deviceId}/rsp`;
+    // Overlapping subscriptions may deliver every status twice
+    return topics.some(topic => topicMatches(topic, statusTopic)) ? topics : [statusTopic, ...topics];
   }
 
-  requestStatus(): void {
-    this.publish({ AtoS_s: 0 });
+  sendDoorCommand(command: DoorCommand, deviceId?: string): void {
+    this.publish({ AtoS_g: command }, deviceId);
+  }
+
+  sendLightCommand(command: LightCommand, deviceId?: string): void {
+    this.publish({ AtoS_l: command }, deviceId);
+  }
+
+  requestStatus(deviceId?: string): void {
+    this.publish({ AtoS_s: 0 }, deviceId);
+  }
+
+  private getDefaultDeviceId(): string {
+    const [deviceId] = this.deviceIds;
+    if (!deviceId) {
+      throw new ConfigError('No device added to the connection');
+    }
+    return deviceId;
   }
 
   isConnected(): boolean {
@@ -0,0 +1,15 @@
+import { IClientOptions, MqttClient } from 'mqtt';
+
+/**
+ * Creates the MQTT clients of a connection instead of the signed AWS IoT
+ * WebSocket, e.g. a ReplayTransport. A connection through a transport does not
+ * authenticate with Cognito.
+ */
+export interface MqttTransport {
+  /**
+   * Creates the client of a connection attempt.
+   * @param options - MQTT options of the connection
+   * @returns The client, connecting
+   */
+  createClient(options: IClientOptions): MqttClient;
+}
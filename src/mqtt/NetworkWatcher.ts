@@ -0,0 +1,108 @@
+import TypedEmitter from 'typed-emitter';
+import { EventEmitter } from 'events';
+import * as os from 'os';
+import { NetworkWatchOptions } from '../types';
+import { ConfigError } from '../errors';
+import { debug } from '../utils/logger';
+
+export type NetworkWatcherEvents = {
+  /** The set of external addresses changed */
+  networkChanged: (addresses: string[]) => void;
+  /** The wall clock jumped ahead, usually because the system slept */
+  resumed: (sleptMs: number) => void;
+}
+
+const DEFAULT_CHECK_INTERVAL = 5000;
+const DEFAULT_CLOCK_JUMP_THRESHOLD = 30000;
+
+/**
+ * Polls the network interfaces and the wall clock to notice network changes and
+ * resumes from system sleep long before the MQTT keepalive would.
+ */
+export class NetworkWatcher extends (EventEmitter as new () => TypedEmitter<NetworkWatcherEvents>) {
+  private readonly checkInterval: number;
+  private readonly watchInterfaces: boolean;
+  private readonly clockJumpThreshold: number;
+  private timer: NodeJS.Timeout | null = null;
+  private lastCheck = 0;
+  private addresses = '';
+
+  /**
+   * @param options - Check interval and what to watch
+   * @throws {ConfigError} If the interval or threshold is not positive
+   */
+  constructor(options: NetworkWatchOptions = {}) {
+    super();
+    this.checkInterval = options.checkInterval ?? DEFAULT_CHECK_INTERVAL;
+    this.watchInterfaces = options.interfaces ?? true;
+    this.clockJumpThreshold = options.clockJumpThreshold ?? DEFAULT_CLOCK_JUMP_THRESHOLD;
+
+    if (!(this.checkInterval > 0)) {
+      throw new ConfigError(`Invalid network watch checkInterval: ${this.checkInterval}`);
+    }
+    if (!(this.clockJumpThreshold > 0)) {
+      throw new ConfigError(`Invalid network watch clockJumpThreshold: ${this.clockJumpThreshold}`);
+    }
+  }
+
+  /**
+   * Starts watching. Does nothing if already started.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.lastCheck = Date.now();
+    this.addresses = this.readAddresses().join(',');
+    this.timer = setInterval(() => this.check(), this.checkInterval);
+    // Watching alone should not keep the process alive
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stops watching.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private check(): void {
+    const now = Date.now();
+    const late = now - this.lastCheck - this.checkInterval;
+    this.lastCheck = now;
+
+    if (late > this.clockJumpThreshold) {
+      debug.mqtt('Clock jumped %dms ahead, assuming resume from sleep', late);
+      // Interfaces usually change during sleep as well; one event is enough
+      this.addresses = this.readAddresses().join(',');
+      this.emit('resumed', late);
+      return;
+    }
+
+    if (!this.watchInterfaces) return;
+
+    const addresses = this.readAddresses();
+    const key = addresses.join(',');
+    if (key !== this.addresses) {
+      debug.mqtt('Network addresses changed: %s', key || 'none');
+      this.addresses = key;
+      this.emit('networkChanged', addresses);
+    }
+  }
+
+  private readAddresses(): string[] {
+    if (!this.watchInterfaces) return [];
+
+    const addresses: string[] = [];
+    for (const [name, infos] of Object.entries(os.networkInterfaces())) {
+      for (const info of infos ?? []) {
+        if (!info.internal) {
+          addresses.push(`${name}/${info.address}`);
+        }
+      }
+    }
+    return addresses.sort();
+  }
+}
@@ -0,0 +1,120 @@
+import { ConfigError, MaveoError } from '../errors';
+import {
+  DEFAULT_BASE_RECONNECT_DELAY,
+  DEFAULT_MAX_RECONNECT_DELAY,
+  DEFAULT_MAX_RECONNECT_ATTEMPTS
+} from '../constants';
+
+/**
+ * What the connection knows about the upcoming reconnection attempt.
+ */
+export interface ReconnectContext {
+  /** Number of the upcoming attempt, starting at 1 */
+  attempt: number;
+  /** Why the previous connection or attempt failed, if known */
+  error: MaveoError | null;
+  /** Whether Cognito or AWS IoT signalled throttling */
+  throttled: boolean;
+}
+
+/**
+ * Decides when the MQTT connection tries to reconnect.
+ */
+export interface ReconnectStrategy {
+  /**
+   * @param context - The upcoming attempt
+   * @returns Delay before the attempt in milliseconds, null to give up
+   */
+  nextDelay(context: ReconnectContext): number | null;
+  /** Maximum number of attempts, reported in the reconnecting event */
+  readonly maxAttempts: number;
+}
+
+/**
+ * Options for ExponentialBackoffStrategy.
+ */
+export interface ExponentialBackoffOptions {
+  /** Delay before the first attempt in milliseconds. Default: 1000 */
+  baseDelay?: number;
+  /** Upper bound of the delay in milliseconds. Default: 300000 */
+  maxDelay?: number;
+  /** Attempts before giving up, Infinity to retry forever. Default: 10 */
+  maxAttempts?: number;
+  /** Fraction of the delay that is randomized, 0 to 1. Default: 0.5 */
+  jitter?: number;
+  /** Minimum delay after throttling in milliseconds. Default: 600000 */
+  throttleDelay?: number;
+}
+
+const DEFAULT_JITTER = 0.5;
+// Maveo asks rate-limited users to wait 10 minutes
+const DEFAULT_THROTTLE_DELAY = 10 * 60 * 1000;
+
+/**
+ * Doubles the delay after every attempt up to a cap, randomizes part of it so
+ * many clients do not reconnect in lockstep, and waits longer after throttling.
+ */
+export class ExponentialBackoffStrategy implements ReconnectStrategy {
+  readonly maxAttempts: number;
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly jitter: number;
+  private readonly throttleDelay: number;
+
+  /**
+   * @param options - Delays and limits
+   * @throws {ConfigError} If an option is out of range
+   */
+  constructor(options: ExponentialBackoffOptions = {}) {
+    this.baseDelay = options.baseDelay ?? DEFAULT_BASE_RECONNECT_DELAY;
+    this.maxDelay = options.maxDelay ?? DEFAULT_MAX_RECONNECT_DELAY;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+    this.jitter = options.jitter ?? DEFAULT_JITTER;
+    this.throttleDelay = options.throttleDelay ?? DEFAULT_THROTTLE_DELAY;
+
+    if (!(this.baseDelay >= 0) || !(this.maxDelay >= this.baseDelay)) {
+      throw new ConfigError(`Invalid reconnect delays: base ${this.baseDelay}, max ${this.maxDelay}`);
+    }
+    if (!(this.maxAttempts >= 0)) {
+      throw new ConfigError(`Invalid reconnect maxAttempts: ${this.maxAttempts}`);
+    }
+    if (!(this.jitter >= 0 && this.jitter <= 1)) {
+      throw new ConfigError(`Invalid reconnect jitter: ${this.jitter}`);
+    }
+    if (!(this.throttleDelay >= 0)) {
+      throw new ConfigError(`Invalid reconnect throttleDelay: ${this.throttleDelay}`);
+    }
+  }
+
+  nextDelay(context: ReconnectContext): number | null {
+    if (context.attempt > this.maxAttempts) {
+      return null;
+    }
+
+    const exponential = Math.min(this.maxDelay, this.baseDelay * Math.pow(2, context.attempt - 1));
+    const delay = Math.round(exponential * (1 - this.jitter * Math.random()));
+
+    return context.throttled ? Math.max(delay, this.throttleDelay) : delay;
+  }
+}
+
+const THROTTLING_PATTERN = /throttl|rate exceeded|too many requests|TooManyRequests|LimitExceeded/i;
+
+/**
+ * Checks whether an error or one of its causes signals rate limiting by Cognito or AWS IoT.
+ * @param error - The error
+ */
+export function isThrottlingError(error: unknown): boolean {
+  for (let current = error, depth = 0; current && depth < 5; depth++) {
+    if (current instanceof MaveoError) {
+      if (current.code === 'AUTH_THROTTLED' || THROTTLING_PATTERN.test(current.awsErrorType ?? '')) {
+        return true;
+      }
+    }
+    if (current instanceof Error && THROTTLING_PATTERN.test(current.message)) {
+      return true;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return false;
+}
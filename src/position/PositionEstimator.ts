@@ -0,0 +1,111 @@
+import { DoorCalibration, DoorState } from '../types';
+import { ConfigError } from '../errors';
+
+interface Movement {
+  opening: boolean;
+  startedAt: number;
+  /** Position when the movement started, null if unknown */
+  from: number | null;
+}
+
+/**
+ * Estimates the door position in percent (0 closed, 100 open) from the reported
+ * states and the time between them. Open and closed are exact; positions in
+ * between need the travel times of a full open and close.
+ */
+export class PositionEstimator {
+  private calibration: DoorCalibration | null = null;
+  private position: number | null = null;
+  private movement: Movement | null = null;
+
+  /**
+   * @param calibration - Full travel times, null to only know open and closed
+   * @throws {ConfigError} If a travel time is not positive
+   */
+  constructor(calibration: DoorCalibration | null = null) {
+    this.setCalibration(calibration);
+  }
+
+  /**
+   * Replaces the travel times.
+   * @param calibration - Full travel times, null to only know open and closed
+   * @throws {ConfigError} If a travel time is not positive
+   */
+  setCalibration(calibration: DoorCalibration | null): void {
+    if (calibration && !(calibration.openTime > 0 && calibration.closeTime > 0)) {
+      throw new ConfigError(`Invalid door calibration: open ${calibration.openTime}ms, close ${calibration.closeTime}ms`);
+    }
+    this.calibration = calibration;
+  }
+
+  /**
+   * Gets the travel times in use.
+   */
+  getCalibration(): DoorCalibration | null {
+    return this.calibration;
+  }
+
+  /**
+   * Updates the estimate with a reported door state.
+   * @param state - The reported state
+   * @param at - When it was reported, in milliseconds since the epoch
+   * @returns The position at that time, null if unknown
+   */
+  update(state: DoorState, at: number): number | null {
+    switch (state) {
+      case DoorState.OPEN:
+        this.position = 100;
+        this.movement = null;
+        break;
+      case DoorState.CLOSED:
+        this.position = 0;
+        this.movement = null;
+        break;
+      case DoorState.OPENING:
+      case DoorState.CLOSING: {
+        const opening = state === DoorState.OPENING;
+        // Repeated reports of the same movement do not restart it
+        if (this.movement?.opening !== opening) {
+          this.position = this.getPosition(at);
+          this.movement = { opening, startedAt: at, from: this.position };
+        }
+        break;
+      }
+      case DoorState.STOPPED:
+        this.position = this.getPosition(at);
+        this.movement = null;
+        break;
+    }
+
+    return this.getPosition(at);
+  }
+
+  /**
+   * Gets the estimated position, moving on with the door while it travels.
+   * @param at - Time of the estimate. Default: now
+   * @returns Position in percent, null if unknown
+   */
+  getPosition(at = Date.now()): number | null {
+    if (!this.movement) {
+      return this.position;
+    }
+
+    const { opening, startedAt, from } = this.movement;
+    if (from === null || !this.calibration) {
+      return null;
+    }
+
+    const travelTime = opening ? this.calibration.openTime : this.calibration.closeTime;
+    const travelled = (at - startedAt) / travelTime * 100;
+    const position = opening ? from + travelled : from - travelled;
+    return Math.round(Math.min(100, Math.max(0, position)));
+  }
+
+  /**
+   * Forgets the position, e.g. after the connection dropped and the door may have moved.
+   */
+  reset(): void {
+    this.position = null;
+    this.movement = null;
+  }
+}
@@ -0,0 +1,139 @@
+import { CommandMessage, DoorCommand, DoorState, LightCommand, ProtocolAnomaly, StatusResponse } from '../types';
+import { ProtocolError } from '../errors';
+
+/**
+ * An unknown field or value found while decoding, without the message context.
+ */
+export type FieldAnomaly = Pick<ProtocolAnomaly, 'kind' | 'field' | 'value'>;
+
+/**
+ * A decoded message of the rsp topic.
+ */
+export interface DecodedResponse {
+  /** The message; known fields are integers, unknown fields are kept as they are */
+  message: StatusResponse;
+  /** Unknown fields and values of known fields */
+  anomalies: FieldAnomaly[];
+}
+
+/**
+ * Values of the AtoS_* fields published on the cmd topic.
+ */
+export const COMMAND_FIELDS: Readonly<Record<keyof CommandMessage, readonly number[]>> = {
+  AtoS_g: [DoorCommand.STOP, DoorCommand.OPEN, DoorCommand.CLOSE, DoorCommand.INTERMEDIATE],
+  AtoS_l: [LightCommand.OFF, LightCommand.ON],
+  AtoS_s: [0]
+};
+
+/**
+ * Values of the StoA_* fields received on the rsp topic.
+ */
+export const RESPONSE_FIELDS: Readonly<Record<'StoA_s' | 'StoA_l', readonly number[]>> = {
+  StoA_s: [DoorState.STOPPED, DoorState.OPENING, DoorState.CLOSING, DoorState.OPEN, DoorState.CLOSED],
+  StoA_l: [LightCommand.OFF, LightCommand.ON]
+};
+
+/**
+ * Encodes a command for the cmd topic.
+ * @param command - The command, with exactly one AtoS_* field
+ * @returns The JSON payload
+ * @throws {ProtocolError} PROTOCOL_INVALID if the command has no, several or unknown fields or an unknown value
+ */
+export function encodeCommand(command: CommandMessage): string {
+  const payload = JSON.stringify(command);
+  validateCommand(command as Record<string, unknown>, payload);
+  return payload;
+}
+
+/**
+ * Decodes a payload of the cmd topic, e.g. in the simulator.
+ * @param payload - The raw payload
+ * @returns The command
+ * @throws {ProtocolError} PROTOCOL_PARSE if the payload is not JSON, PROTOCOL_INVALID if it is not a valid command
+ */
+export function decodeCommand(payload: string | Buffer): CommandMessage {
+  const text = payload.toString();
+  const message = parseObject(text);
+  validateCommand(message, text);
+  return message as CommandMessage;
+}
+
+/**
+ * Decodes a payload of the rsp topic. Unknown fields and unknown values of known
+ * fields are reported as anomalies, since newer firmware may add them.
+ * @param payload - The raw payload
+ * @returns The message and its anomalies
+ * @throws {ProtocolError} PROTOCOL_PARSE if the payload is not JSON, PROTOCOL_INVALID if it is not an object or a known field is not an integer
+ */
+export function decodeResponse(payload: string | Buffer): DecodedResponse {
+  const text = payload.toString();
+  const message = parseObject(text);
+  const anomalies: FieldAnomaly[] = [];
+
+  for (const [field, value] of Object.entries(message)) {
+    if (!isKnownField(RESPONSE_FIELDS, field)) {
+      anomalies.push({ kind: 'unknownField', field, value });
+      continue;
+    }
+    if (!Number.isInteger(value)) {
+      throw new ProtocolError(`Invalid ${field} value: ${JSON.stringify(value)}`, text, { code: 'PROTOCOL_INVALID', field });
+    }
+    if (!RESPONSE_FIELDS[field].includes(value as number)) {
+      anomalies.push({ kind: 'unknownValue', field, value });
+    }
+  }
+
+  return { message: message as StatusResponse, anomalies };
+}
+
+/**
+ * Maps a StoA_s value to the door state.
+ * @param value - The raw value
+ * @returns The state, or null if the value is unknown
+ */
+export function decodeDoorState(value: number): DoorState | null {
+  return RESPONSE_FIELDS.StoA_s.includes(value) ? value as DoorState : null;
+}
+
+/**
+ * Maps a StoA_l value to the light state.
+ * @param value - The raw value
+ * @returns True if on, false if off, null if the value is unknown
+ */
+export function decodeLightState(value: number): boolean | null {
+  if (!RESPONSE_FIELDS.StoA_l.includes(value)) return null;
+  return value === LightCommand.ON;
+}
+
+function parseObject(text: string): Record<string, unknown> {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch (error) {
+    throw new ProtocolError(`Failed to parse message: ${error}`, text, { cause: error });
+  }
+
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+    throw new ProtocolError('Message is not a JSON object', text, { code: 'PROTOCOL_INVALID' });
+  }
+  return message as Record<string, unknown>;
+}
+
+function validateCommand(message: Record<string, unknown>, payload: string): void {
+  const fields = Object.keys(message).filter(field => message[field] !== undefined);
+  if (fields.length !== 1) {
+    throw new ProtocolError(`A command has exactly one field, got ${fields.length}`, payload, { code: 'PROTOCOL_INVALID' });
+  }
+
+  const [field] = fields;
+  if (!isKnownField(COMMAND_FIELDS, field)) {
+    throw new ProtocolError(`Unknown command field: ${field}`, payload, { code: 'PROTOCOL_INVALID', field });
+  }
+  if (!COMMAND_FIELDS[field].includes(message[field] as number)) {
+    throw new ProtocolError(`Invalid ${field} value: ${JSON.stringify(message[field])}`, payload, { code: 'PROTOCOL_INVALID', field });
+  }
+}
+
+function isKnownField<K extends string>(fields: Readonly<Record<K, readonly number[]>>, field: string): field is K {
+  return Object.prototype.hasOwnProperty.call(fields, field);
+}
@@ -0,0 +1,474 @@
+import TypedEmitter from 'typed-emitter';
+import { EventEmitter } from 'events';
+import { MaveoDevice } from '../MaveoDevice';
+import { CommandOptions, DoorState } from '../types';
+import { ConfigError, MaveoError, toMaveoError } from '../errors';
+import { debug } from '../utils/logger';
+import { CronExpression } from './cron';
+import { GeoLocation, fromWallTime, getSunTimes, toWallTime, validateTimeZone } from './time';
+
+/**
+ * When a schedule runs.
+ * - `cron`: five-field cron expression in the schedule's time zone
+ * - `once`: ISO 8601 date-time; without an offset it is a wall-clock time in the schedule's time zone
+ * - `sun`: daily at sunrise or sunset, shifted by `offset` milliseconds
+ */
+export type ScheduleTrigger =
+  | { type: 'cron'; expression: string }
+  | { type: 'once'; at: string }
+  | { type: 'sun'; event: 'sunrise' | 'sunset'; offset?: number };
+
+/**
+ * What a schedule does. A light `duration` in milliseconds turns the light off again afterwards.
+ */
+export type ScheduleAction =
+  | { type: 'door'; command: 'open' | 'close' | 'stop' | 'intermediate' }
+  | { type: 'light'; command: 'on' | 'off'; duration?: number };
+
+/**
+ * DoorState name, e.g. 'OPEN'.
+ */
+export type DoorStateName = keyof typeof DoorState;
+
+/**
+ * Conditions checked before a schedule runs its action.
+ */
+export interface ScheduleConditions {
+  /** Only run if the current door state is one of these. An unknown state never matches */
+  doorState?: DoorStateName[];
+}
+
+/**
+ * A JSON-serializable schedule.
+ */
+export interface ScheduleDefinition {
+  /** Unique ID */
+  id: string;
+  /** Display name */
+  name?: string;
+  /** Default: true */
+  enabled?: boolean;
+  trigger: ScheduleTrigger;
+  action: ScheduleAction;
+  conditions?: ScheduleConditions;
+  /** IANA time zone. Default: the scheduler's time zone */
+  timezone?: string;
+  /** What to do with runs missed by more than missedRunTolerance: skip them or run the latest once. Default: 'skip' */
+  missedRuns?: 'skip' | 'runLatest';
+}
+
+/**
+ * Options for Scheduler.
+ */
+export interface SchedulerOptions {
+  /** IANA time zone of schedules without their own. Default: the system time zone */
+  timezone?: string;
+  /** Location for sunrise and sunset triggers */
+  location?: GeoLocation;
+  /** How late a run may start and still count as on time, in milliseconds. Default: 60000 */
+  missedRunTolerance?: number;
+  /** Last run per schedule ID as returned by getLastRuns(), to detect runs missed during downtime */
+  lastRuns?: Record<string, string>;
+}
+
+/**
+ * A single run of a schedule.
+ */
+export interface ScheduleExecution {
+  scheduleId: string;
+  /** When the run was due */
+  scheduledAt: Date;
+  /** When the run was handled */
+  executedAt: Date;
+  action: ScheduleAction;
+}
+
+/**
+ * Events emitted by Scheduler.
+ */
+export type SchedulerEvents = {
+  /** The action of a run was sent */
+  executed: (execution: ScheduleExecution) => void;
+  /** A run was skipped because its conditions did not match or it was missed */
+  skipped: (execution: ScheduleExecution, reason: 'condition' | 'missed') => void;
+  /** Sending the action of a run failed, following its executed event */
+  failed: (execution: ScheduleExecution, error: MaveoError) => void;
+};
+
+interface ActiveSchedule {
+  definition: ScheduleDefinition;
+  timeZone: string;
+  cron: CronExpression | null;
+  onceAt: Date | null;
+  nextRun: Date | null;
+  timer: NodeJS.Timeout | null;
+}
+
+const DEFAULT_MISSED_RUN_TOLERANCE = 60000;
+
+// Reported as the source of commands sent by the scheduler
+const COMMAND_SOURCE = 'scheduler';
+
+// setTimeout fires immediately for longer delays
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// Upper bound when searching missed runs or the next valid time
+const MAX_RUN_SEARCH = 10000;
+
+const WALL_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+const ABSOLUTE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+const DOOR_COMMANDS = ['open', 'close', 'stop', 'intermediate'];
+const LIGHT_COMMANDS = ['on', 'off'];
+
+/**
+ * Runs door and light commands of one device on cron, one-shot and sunrise/sunset schedules.
+ * Schedule definitions are plain JSON, so they can be stored and edited by an app.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new Scheduler(client, [
+ *   {
+ *     id: 'close-at-night',
+ *     trigger: { type: 'cron', expression: '0 22 * * *' },
+ *     action: { type: 'door', command: 'close' },
+ *     conditions: { doorState: ['OPEN', 'STOPPED'] },
+ *     missedRuns: 'runLatest'
+ *   }
+ * ], { timezone: 'Europe/Berlin' });
+ * scheduler.on('executed', ({ scheduleId }) => console.log(`Ran ${scheduleId}`));
+ * scheduler.start();
+ * ```
+ */
+export class Scheduler extends (EventEmitter as new () => TypedEmitter<SchedulerEvents>) {
+  private readonly device: MaveoDevice;
+  private readonly timeZone: string;
+  private readonly location: GeoLocation | null;
+  private readonly missedRunTolerance: number;
+  private schedules = new Map<string, ActiveSchedule>();
+  private lastRuns = new Map<string, Date>();
+  private lightTimers = new Set<NodeJS.Timeout>();
+  private running = false;
+
+  /**
+   * @param device - The client or device handle to send commands to
+   * @param schedules - Initial schedules
+   * @param options - Time zone, location and missed-run handling
+   * @throws {ConfigError} If an option or schedule is invalid
+   */
+  constructor(device: MaveoDevice, schedules: ScheduleDefinition[] = [], options: SchedulerOptions = {}) {
+    super();
+    this.device = device;
+    this.timeZone = options.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+    this.location = options.location ?? null;
+    this.missedRunTolerance = options.missedRunTolerance ?? DEFAULT_MISSED_RUN_TOLERANCE;
+    validateTimeZone(this.timeZone);
+
+    for (const [id, lastRun] of Object.entries(options.lastRuns ?? {})) {
+      const date = new Date(lastRun);
+      if (!isNaN(date.getTime())) {
+        this.lastRuns.set(id, date);
+      }
+    }
+
+    schedules.forEach(schedule => this.add(schedule));
+  }
+
+  /**
+   * Starts running schedules. Runs missed since the last known run are handled
+   * according to each schedule's missedRuns policy.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const now = new Date();
+    this.schedules.forEach(schedule => {
+      if (schedule.definition.enabled === false) return;
+
+      const since = this.lastRuns.get(schedule.definition.id) ?? (schedule.onceAt ? new Date(0) : null);
+      const missed = since ? this.findLatestRun(schedule, since, now) : null;
+      if (missed) {
+        this.handleDueRun(schedule, missed);
+      }
+    });
+
+    this.schedules.forEach(schedule => this.arm(schedule));
+  }
+
+  /**
+   * Stops running schedules and cancels pending light-off timers.
+   */
+  stop(): void {
+    this.running = false;
+    this.schedules.forEach(schedule => this.disarm(schedule));
+    this.lightTimers.forEach(timer => clearTimeout(timer));
+    this.lightTimers.clear();
+  }
+
+  /**
+   * Adds a schedule.
+   * @param definition - The schedule
+   * @throws {ConfigError} If the schedule is invalid or its ID is already used
+   */
+  add(definition: ScheduleDefinition): void {
+    if (this.schedules.has(definition.id)) {
+      throw new ConfigError(`Schedule ${definition.id} already exists`);
+    }
+
+    // Keep a copy so later changes to the caller's object don't affect the schedule
+    const schedule = this.compile(JSON.parse(JSON.stringify(definition)));
+    this.schedules.set(definition.id, schedule);
+    this.arm(schedule);
+  }
+
+  /**
+   * Removes a schedule.
+   * @param id - Schedule ID
+   * @returns True if the schedule existed
+   */
+  remove(id: string): boolean {
+    const schedule = this.schedules.get(id);
+    if (!schedule) return false;
+
+    this.disarm(schedule);
+    this.schedules.delete(id);
+    this.lastRuns.delete(id);
+    return true;
+  }
+
+  /**
+   * Gets copies of all schedule definitions, e.g. to store them as JSON.
+   */
+  getSchedules(): ScheduleDefinition[] {
+    return [...this.schedules.values()].map(schedule => JSON.parse(JSON.stringify(schedule.definition)));
+  }
+
+  /**
+   * Gets the next run of a schedule.
+   * @param id - Schedule ID
+   * @returns Next run, null if the schedule is unknown, disabled, has no more runs or the scheduler is stopped
+   */
+  getNextRun(id: string): Date | null {
+    return this.schedules.get(id)?.nextRun ?? null;
+  }
+
+  /**
+   * Gets the last handled run per schedule ID as ISO strings. Store them and pass them
+   * as the lastRuns option after a restart to detect missed runs.
+   */
+  getLastRuns(): Record<string, string> {
+    const lastRuns: Record<string, string> = {};
+    this.lastRuns.forEach((date, id) => {
+      lastRuns[id] = date.toISOString();
+    });
+    return lastRuns;
+  }
+
+  private compile(definition: ScheduleDefinition): ActiveSchedule {
+    const fail = (message: string): never => {
+      throw new ConfigError(`Schedule ${definition.id}: ${message}`);
+    };
+
+    if (typeof definition.id !== 'string' || definition.id === '') {
+      throw new ConfigError('Schedule ID must be a non-empty string');
+    }
+
+    const timeZone = definition.timezone ?? this.timeZone;
+    validateTimeZone(timeZone);
+
+    let cron: CronExpression | null = null;
+    let onceAt: Date | null = null;
+    const trigger = definition.trigger;
+    switch (trigger?.type) {
+      case 'cron':
+        cron = new CronExpression(trigger.expression);
+        break;
+      case 'once':
+        onceAt = parseDateTime(trigger.at, timeZone) ?? fail(`invalid date-time "${trigger.at}"`);
+        break;
+      case 'sun':
+        if (trigger.event !== 'sunrise' && trigger.event !== 'sunset') fail(`invalid sun event "${trigger.event}"`);
+        if (trigger.offset !== undefined && !Number.isFinite(trigger.offset)) fail('sun offset must be a number');
+        if (!this.location) fail('sun triggers need the location option');
+        break;
+      default:
+        fail('unknown trigger type');
+    }
+
+    const action = definition.action;
+    if (action?.type === 'door') {
+      if (!DOOR_COMMANDS.includes(action.command)) fail(`invalid door command "${action.command}"`);
+    } else if (action?.type === 'light') {
+      if (!LIGHT_COMMANDS.includes(action.command)) fail(`invalid light command "${action.command}"`);
+      if (action.duration !== undefined && !(action.duration > 0)) fail('light duration must be positive');
+    } else {
+      fail('unknown action type');
+    }
+
+    for (const state of definition.conditions?.doorState ?? []) {
+      if (typeof DoorState[state] !== 'number') fail(`unknown door state "${state}"`);
+    }
+
+    if (definition.missedRuns !== undefined && definition.missedRuns !== 'skip' && definition.missedRuns !== 'runLatest') {
+      fail(`invalid missedRuns policy "${definition.missedRuns}"`);
+    }
+
+    return { definition, timeZone, cron, onceAt, nextRun: null, timer: null };
+  }
+
+  private arm(schedule: ActiveSchedule): void {
+    this.disarm(schedule);
+    if (!this.running || schedule.definition.enabled === false) return;
+
+    const now = new Date();
+    const nextRun = this.getRunAfter(schedule, now);
+    schedule.nextRun = nextRun;
+    if (!nextRun) return;
+
+    debug.scheduler('Next run of %s at %s', schedule.definition.id, nextRun.toISOString());
+    const delay = Math.min(nextRun.getTime() - now.getTime(), MAX_TIMER_DELAY);
+    schedule.timer = setTimeout(() => {
+      schedule.timer = null;
+      // Timers can fire late after a sleep, so catch up to the latest due run
+      const due = this.findLatestRun(schedule, new Date(nextRun.getTime() - 1), new Date());
+      if (due) {
+        this.handleDueRun(schedule, due);
+      }
+      this.arm(schedule);
+    }, delay);
+  }
+
+  private disarm(schedule: ActiveSchedule): void {
+    if (schedule.timer) {
+      clearTimeout(schedule.timer);
+      schedule.timer = null;
+    }
+    schedule.nextRun = null;
+  }
+
+  private handleDueRun(schedule: ActiveSchedule, scheduledAt: Date): void {
+    const { definition } = schedule;
+    const execution: ScheduleExecution = {
+      scheduleId: definition.id,
+      scheduledAt,
+      executedAt: new Date(),
+      action: definition.action
+    };
+    this.lastRuns.set(definition.id, scheduledAt);
+
+    const late = execution.executedAt.getTime() - scheduledAt.getTime();
+    if (late > this.missedRunTolerance && definition.missedRuns !== 'runLatest') {
+      debug.scheduler('Skipping run of %s missed by %dms', definition.id, late);
+      this.emit('skipped', execution, 'missed');
+      return;
+    }
+
+    const allowedStates = definition.conditions?.doorState;
+    if (allowedStates) {
+      const status = this.device.getCurrentStatus();
+      if (!status || !allowedStates.some(state => DoorState[state] === status.doorState)) {
+        debug.scheduler('Skipping run of %s, conditions not met', definition.id);
+        this.emit('skipped', execution, 'condition');
+        return;
+      }
+    }
+
+    const sent = this.runAction(definition.action);
+    debug.scheduler('Ran %s', definition.id);
+    this.emit('executed', execution);
+
+    // A veto or connection error follows the executed event
+    sent.catch(error => {
+      debug.scheduler('Command of %s failed: %O', definition.id, error);
+      this.emit('failed', execution, toMaveoError(error, 'PUBLISH_FAILED', 'Scheduled command failed'));
+    });
+  }
+
+  private runAction(action: ScheduleAction): Promise<unknown> {
+    const options: CommandOptions = { source: COMMAND_SOURCE };
+
+    if (action.type === 'door') {
+      switch (action.command) {
+        case 'open': return this.device.open(options);
+        case 'close': return this.device.close(options);
+        case 'stop': return this.device.stop(options);
+        case 'intermediate': return this.device.moveToIntermediate(options);
+      }
+    }
+
+    if (action.command === 'off') {
+      return this.device.lightOff(options);
+    }
+
+    const sent = this.device.lightOn(options);
+    if (action.duration) {
+      const timer = setTimeout(() => {
+        this.lightTimers.delete(timer);
+        this.device.lightOff(options).catch(error => debug.scheduler('Failed to turn the light off: %O', error));
+      }, action.duration);
+      this.lightTimers.add(timer);
+    }
+    return sent;
+  }
+
+  // Finds the latest run in (since, until]
+  private findLatestRun(schedule: ActiveSchedule, since: Date, until: Date): Date | null {
+    let latest: Date | null = null;
+    let run = this.getRunAfter(schedule, since);
+
+    for (let i = 0; run && run <= until && i < MAX_RUN_SEARCH; i++) {
+      latest = run;
+      run = this.getRunAfter(schedule, run);
+    }
+
+    return latest;
+  }
+
+  private getRunAfter(schedule: ActiveSchedule, after: Date): Date | null {
+    const trigger = schedule.definition.trigger;
+
+    if (schedule.onceAt) {
+      return schedule.onceAt > after ? schedule.onceAt : null;
+    }
+
+    if (schedule.cron) {
+      let wallTime: Date | null = toWallTime(after, schedule.timeZone);
+      for (let i = 0; wallTime && i < MAX_RUN_SEARCH; i++) {
+        wallTime = schedule.cron.next(wallTime);
+        const run = wallTime && fromWallTime(wallTime, schedule.timeZone);
+        // Times skipped by a daylight saving change don't run
+        if (run && run > after) return run;
+      }
+      return null;
+    }
+
+    if (trigger.type !== 'sun' || !this.location) return null;
+
+    const wallTime = toWallTime(after, schedule.timeZone);
+    // Start a day early in case a large offset moves yesterday's event past `after`
+    for (let day = -1; day <= 366; day++) {
+      const date = new Date(Date.UTC(wallTime.getUTCFullYear(), wallTime.getUTCMonth(), wallTime.getUTCDate() + day));
+      const times = getSunTimes(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), this.location);
+      const time = times[trigger.event];
+      if (!time) continue;
+
+      const run = new Date(time.getTime() + (trigger.offset ?? 0));
+      if (run > after) return run;
+    }
+    return null;
+  }
+}
+
+function parseDateTime(value: string, timeZone: string): Date | null {
+  if (typeof value !== 'string') return null;
+
+  const match = WALL_TIME_PATTERN.exec(value);
+  if (match) {
+    const [year, month, day, hour, minute, second] = match.slice(1).map(part => Number(part ?? 0));
+    return fromWallTime(new Date(Date.UTC(year, month - 1, day, hour, minute, second)), timeZone);
+  }
+
+  const date = ABSOLUTE_TIME_PATTERN.test(value) ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+}
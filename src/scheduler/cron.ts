@@ -0,0 +1,141 @@
+import { ConfigError } from '../errors';
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Enough for any valid expression; stops the search for dates like 31 FEB
+const MAX_ITERATIONS = 100000;
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  // 7 is also accepted for Sunday
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, namesOffset: 0 },
+];
+
+/**
+ * A parsed five-field cron expression: minute, hour, day of month, month and day of week.
+ * Supports `*`, lists, ranges, steps and three-letter month and weekday names.
+ * Like classic cron, a restricted day of month and day of week match if either matches.
+ */
+export class CronExpression {
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly days: Set<number>;
+  private readonly months: Set<number>;
+  private readonly weekdays: Set<number>;
+  private readonly anyDay: boolean;
+  private readonly anyWeekday: boolean;
+
+  /**
+   * @param expression - Cron expression, e.g. `0 22 * * *`
+   * @throws {ConfigError} If the expression is invalid
+   */
+  constructor(readonly expression: string) {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== FIELDS.length) {
+      throw new ConfigError(`Invalid cron expression "${expression}": expected ${FIELDS.length} fields`);
+    }
+
+    const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i], expression));
+    this.minutes = minutes;
+    this.hours = hours;
+    this.days = days;
+    this.months = months;
+    this.weekdays = new Set([...weekdays].map(day => day % 7));
+    this.anyDay = parts[2] === '*';
+    this.anyWeekday = parts[4] === '*';
+  }
+
+  /**
+   * Finds the first matching minute after a wall-clock time.
+   * @param after - Wall-clock time with its fields stored as UTC fields
+   * @returns Matching wall-clock time in the same representation, null if there is none
+   */
+  next(after: Date): Date | null {
+    let time = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+      const date = new Date(time);
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth();
+      const day = date.getUTCDate();
+      const hour = date.getUTCHours();
+
+      if (!this.months.has(month + 1)) {
+        time = Date.UTC(year, month + 1, 1);
+      } else if (!this.matchesDay(date)) {
+        time = Date.UTC(year, month, day + 1);
+      } else if (!this.hours.has(hour)) {
+        time = Date.UTC(year, month, day, hour + 1);
+      } else if (!this.minutes.has(date.getUTCMinutes())) {
+        time += 60000;
+      } else {
+        return date;
+      }
+    }
+
+    return null;
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayMatches = this.days.has(date.getUTCDate());
+    const weekdayMatches = this.weekdays.has(date.getUTCDay());
+
+    if (this.anyDay) return weekdayMatches;
+    if (this.anyWeekday) return dayMatches;
+    return dayMatches || weekdayMatches;
+  }
+}
+
+function parseField(part: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+  const fail = (): never => {
+    throw new ConfigError(`Invalid cron expression "${expression}": bad ${spec.name} "${part}"`);
+  };
+
+  for (const item of part.split(',')) {
+    const [range, stepText, ...rest] = item.split('/');
+    if (rest.length > 0) fail();
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step <= 0) fail();
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else {
+      const bounds = range.split('-');
+      if (bounds.length > 2) fail();
+      start = parseValue(bounds[0], spec) ?? fail();
+      end = bounds.length === 2 ? parseValue(bounds[1], spec) ?? fail() : stepText === undefined ? start : spec.max;
+    }
+
+    if (start < spec.min || end > spec.max || start > end) fail();
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, spec: FieldSpec): number | null {
+  const index = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  if (index >= 0) {
+    return index + (spec.namesOffset ?? 0);
+  }
+  return /^\d+$/.test(text) ? Number(text) : null;
+}
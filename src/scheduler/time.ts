@@ -0,0 +1,127 @@
+import { ConfigError } from '../errors';
+
+/**
+ * Geographic location for sunrise and sunset times.
+ */
+export interface GeoLocation {
+  /** Latitude in degrees, north positive */
+  latitude: number;
+  /** Longitude in degrees, east positive */
+  longitude: number;
+}
+
+// Wall-clock times are Dates whose UTC fields hold the local date and time of a time zone
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks that a time zone is a known IANA name.
+ * @param timeZone - Time zone, e.g. Europe/Berlin
+ * @throws {ConfigError} If the time zone is unknown
+ */
+export function validateTimeZone(timeZone: string): void {
+  try {
+    getFormatter(timeZone);
+  } catch {
+    throw new ConfigError(`Unknown time zone: ${timeZone}`);
+  }
+}
+
+/**
+ * Converts an instant to the wall-clock time of a time zone.
+ * @param date - The instant
+ * @param timeZone - IANA time zone
+ */
+export function toWallTime(date: Date, timeZone: string): Date {
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    fields[part.type] = Number(part.value);
+  }
+
+  return new Date(Date.UTC(
+    fields.year, fields.month - 1, fields.day,
+    fields.hour, fields.minute, fields.second, date.getUTCMilliseconds()
+  ));
+}
+
+/**
+ * Converts a wall-clock time of a time zone to an instant.
+ * Of a repeated time at the end of daylight saving time, either instant may be returned.
+ * @param wallTime - Wall-clock time
+ * @param timeZone - IANA time zone
+ * @returns The instant, null if the time is skipped by a daylight saving change
+ */
+export function fromWallTime(wallTime: Date, timeZone: string): Date | null {
+  const wall = wallTime.getTime();
+  const offset = toWallTime(wallTime, timeZone).getTime() - wall;
+  let instant = wall - offset;
+
+  const actualOffset = toWallTime(new Date(instant), timeZone).getTime() - instant;
+  if (actualOffset !== offset) {
+    instant = wall - actualOffset;
+  }
+
+  return toWallTime(new Date(instant), timeZone).getTime() === wall ? new Date(instant) : null;
+}
+
+/**
+ * Calculates sunrise and sunset of a calendar day with the NOAA sunrise equation,
+ * accurate to about a minute.
+ * @param year - Year
+ * @param month - Month, 1-12
+ * @param day - Day of month
+ * @param location - Where to calculate the times for
+ * @returns Instants, null during polar day or night
+ */
+export function getSunTimes(
+  year: number,
+  month: number,
+  day: number,
+  location: GeoLocation
+): { sunrise: Date | null; sunset: Date | null } {
+  const rad = Math.PI / 180;
+  const julianDay = Date.UTC(year, month - 1, day) / 86400000 + 2440587.5;
+  const n = Math.ceil(julianDay - 2451545 + 0.0008);
+
+  const meanSolarTime = n - location.longitude / 360;
+  const anomaly = (357.5291 + 0.98560028 * meanSolarTime) % 360;
+  const center = 1.9148 * Math.sin(anomaly * rad) + 0.02 * Math.sin(2 * anomaly * rad) + 0.0003 * Math.sin(3 * anomaly * rad);
+  const eclipticLongitude = (anomaly + center + 180 + 102.9372) % 360;
+  const transit = 2451545 + meanSolarTime + 0.0053 * Math.sin(anomaly * rad) - 0.0069 * Math.sin(2 * eclipticLongitude * rad);
+
+  const declination = Math.asin(Math.sin(eclipticLongitude * rad) * Math.sin(23.4397 * rad));
+  const latitude = location.latitude * rad;
+  // -0.833 degrees accounts for refraction and the size of the sun's disc
+  const cosHourAngle = (Math.sin(-0.833 * rad) - Math.sin(latitude) * Math.sin(declination)) /
+    (Math.cos(latitude) * Math.cos(declination));
+
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return { sunrise: null, sunset: null };
+  }
+
+  const hourAngle = Math.acos(cosHourAngle) / rad;
+  const toDate = (julian: number) => new Date(Math.round((julian - 2440587.5) * 86400000));
+
+  return {
+    sunrise: toDate(transit - hourAngle / 360),
+    sunset: toDate(transit + hourAngle / 360)
+  };
+}
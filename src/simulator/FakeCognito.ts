@@ -0,0 +1,199 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { debug } from '../utils/logger';
+
+/**
+ * Account accepted by the simulated Cognito user pool.
+ */
+export interface SimulatorUser {
+  username: string;
+  password: string;
+}
+
+/**
+ * Options for FakeCognito.
+ */
+export interface FakeCognitoOptions {
+  /** Accepted accounts */
+  users: SimulatorUser[];
+  /** Lifetime of the issued AWS credentials in seconds */
+  credentialLifetime: number;
+}
+
+/**
+ * A Cognito error response, sent with the AWS error type as __type.
+ */
+class CognitoFault extends Error {
+  constructor(readonly type: string, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * In-process stand-in for the Cognito User Pool and Identity Pool APIs used by CognitoAuth.
+ * Supports USER_PASSWORD_AUTH, REFRESH_TOKEN_AUTH, GetId and GetCredentialsForIdentity.
+ */
+export class FakeCognito {
+  private readonly users: SimulatorUser[];
+  private readonly credentialLifetime: number;
+  // Token to username
+  private idTokens = new Map<string, string>();
+  private refreshTokens = new Map<string, string>();
+  // Access key ID to expiry in ms since epoch
+  private accessKeys = new Map<string, number>();
+  private throttledRequests = 0;
+
+  constructor(options: FakeCognitoOptions) {
+    this.users = options.users;
+    this.credentialLifetime = options.credentialLifetime;
+  }
+
+  /**
+   * Answers a Cognito API request.
+   */
+  async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const target = String(req.headers['x-amz-target'] ?? '');
+    const body = await readJson(req);
+    debug.simulator('Cognito %s', target);
+
+    try {
+      if (this.throttledRequests > 0) {
+        this.throttledRequests--;
+        throw new CognitoFault('TooManyRequestsException', 'Rate exceeded');
+      }
+
+      const result = this.dispatch(target, body);
+      res.writeHead(200, { 'Content-Type': 'application/x-amz-json-1.1' });
+      res.end(JSON.stringify(result));
+    } catch (error) {
+      const fault = error instanceof CognitoFault ? error : new CognitoFault('InternalErrorException', String(error));
+      res.writeHead(400, { 'Content-Type': 'application/x-amz-json-1.1' });
+      res.end(JSON.stringify({ __type: fault.type, message: fault.message }));
+    }
+  }
+
+  /**
+   * Makes the next requests fail with TooManyRequestsException.
+   * @param count - Number of requests to reject
+   */
+  throttle(count: number): void {
+    this.throttledRequests = count;
+  }
+
+  /**
+   * Invalidates all refresh tokens, so the next refresh falls back to a password login.
+   */
+  revokeRefreshTokens(): void {
+    this.refreshTokens.clear();
+  }
+
+  /**
+   * Checks if an access key ID was issued and has not expired.
+   */
+  isValidAccessKey(accessKeyId: string): boolean {
+    const expiry = this.accessKeys.get(accessKeyId);
+    return expiry !== undefined && expiry > Date.now();
+  }
+
+  private dispatch(target: string, body: Record<string, unknown>): object {
+    switch (target) {
+      case 'AWSCognitoIdentityProviderService.InitiateAuth':
+        return this.initiateAuth(body);
+      case 'AWSCognitoIdentityService.GetId':
+        return this.getId(body);
+      case 'AWSCognitoIdentityService.GetCredentialsForIdentity':
+        return this.getCredentialsForIdentity(body);
+      default:
+        throw new CognitoFault('UnknownOperationException', `Unsupported operation: ${target}`);
+    }
+  }
+
+  private initiateAuth(body: Record<string, unknown>): object {
+    const parameters = (body.AuthParameters ?? {}) as Record<string, string>;
+
+    if (body.AuthFlow === 'USER_PASSWORD_AUTH') {
+      const user = this.users.find(candidate => candidate.username === parameters.USERNAME);
+      if (!user || user.password !== parameters.PASSWORD) {
+        throw new CognitoFault('NotAuthorizedException', 'Incorrect username or password.');
+      }
+
+      const refreshToken = randomToken();
+      this.refreshTokens.set(refreshToken, user.username);
+      return { AuthenticationResult: { IdToken: this.issueIdToken(user.username), RefreshToken: refreshToken } };
+    }
+
+    if (body.AuthFlow === 'REFRESH_TOKEN_AUTH') {
+      const username = this.refreshTokens.get(parameters.REFRESH_TOKEN);
+      if (!username) {
+        throw new CognitoFault('NotAuthorizedException', 'Invalid Refresh Token');
+      }
+      return { AuthenticationResult: { IdToken: this.issueIdToken(username) } };
+    }
+
+    throw new CognitoFault('InvalidParameterException', `Auth flow not supported by the simulator: ${body.AuthFlow}`);
+  }
+
+  private getId(body: Record<string, unknown>): object {
+    const username = this.getLoginUser(body);
+    if (!username) {
+      throw new CognitoFault('NotAuthorizedException', 'Invalid login token.');
+    }
+    return { IdentityId: toIdentityId(username) };
+  }
+
+  private getCredentialsForIdentity(body: Record<string, unknown>): object {
+    const username = this.getLoginUser(body);
+    if (!username || body.IdentityId !== toIdentityId(username)) {
+      throw new CognitoFault('NotAuthorizedException', 'Invalid login token.');
+    }
+
+    const accessKeyId = `ASIA${randomToken().slice(0, 16).toUpperCase()}`;
+    const expiration = Date.now() + this.credentialLifetime * 1000;
+    this.accessKeys.set(accessKeyId, expiration);
+
+    return {
+      IdentityId: body.IdentityId,
+      Credentials: {
+        AccessKeyId: accessKeyId,
+        SecretKey: randomToken(),
+        SessionToken: randomToken(),
+        Expiration: Math.floor(expiration / 1000)
+      }
+    };
+  }
+
+  private getLoginUser(body: Record<string, unknown>): string | undefined {
+    const logins = Object.values((body.Logins ?? {}) as Record<string, string>);
+    return logins.map(token => this.idTokens.get(token)).find(username => username !== undefined);
+  }
+
+  private issueIdToken(username: string): string {
+    const token = randomToken();
+    this.idTokens.set(token, username);
+    return token;
+  }
+}
+
+function toIdentityId(username: string): string {
+  const hash = crypto.createHash('sha256').update(username).digest('hex');
+  return `local:${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20, 32)}`;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('error', reject);
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString() || '{}'));
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
@@ -0,0 +1,272 @@
+import TypedEmitter from 'typed-emitter';
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Duplex } from 'stream';
+import { CommandMessage, MaveoEndpointProfile } from '../types';
+import { ConfigError } from '../errors';
+import { decodeCommand } from '../protocol/codec';
+import { debug } from '../utils/logger';
+import { SimulatorBroker } from './SimulatorBroker';
+import { FakeCognito, SimulatorUser } from './FakeCognito';
+import { VirtualDoor, VirtualDoorOptions } from './VirtualDoor';
+
+/**
+ * Simulated device with its door options.
+ */
+export interface SimulatorDevice extends VirtualDoorOptions {
+  deviceId: string;
+}
+
+/**
+ * Options for MaveoSimulator.
+ */
+export interface MaveoSimulatorOptions {
+  /** Accepted accounts. Default: user@example.com / password */
+  users?: SimulatorUser[];
+  /** Simulated devices. Default: one device with ID simulated-device */
+  devices?: SimulatorDevice[];
+  /** Port to listen on, 0 for a random port. Default: 0 */
+  port?: number;
+  /** Lifetime of the issued AWS credentials in seconds. Default: 3600 */
+  credentialLifetime?: number;
+}
+
+/**
+ * Events emitted by MaveoSimulator.
+ */
+export type MaveoSimulatorEvents = {
+  /** A client connected to the broker */
+  clientConnected: (clientId: string) => void;
+  /** A client connection to the broker was closed */
+  clientDisconnected: (clientId: string) => void;
+  /** A device received a command */
+  command: (deviceId: string, message: CommandMessage) => void;
+};
+
+const HOST = '127.0.0.1';
+const COGNITO_IDP_PATH = '/cognito-idp';
+const COGNITO_IDENTITY_PATH = '/cognito-identity';
+const MQTT_PATH = '/mqtt';
+
+/**
+ * Offline stand-in for the Maveo Cloud: fake Cognito endpoints, an MQTT-over-WebSocket
+ * broker and virtual doors, all on one local port. Point a client at it with
+ * getEndpointProfile() to test without network access.
+ *
+ * @example
+ * ```typescript
+ * const simulator = new MaveoSimulator({ devices: [{ deviceId: 'garage', travelTime: 2000 }] });
+ * await simulator.start();
+ *
+ * const client = new MaveoClient({
+ *   username: 'user@example.com',
+ *   password: 'password',
+ *   deviceId: 'garage',
+ *   endpoint: simulator.getEndpointProfile()
+ * });
+ * await client.connect();
+ * ```
+ */
+export class MaveoSimulator extends (EventEmitter as new () => TypedEmitter<MaveoSimulatorEvents>) {
+  private readonly port: number;
+  private readonly cognito: FakeCognito;
+  private readonly broker = new SimulatorBroker();
+  private readonly doors = new Map<string, VirtualDoor>();
+  private server: http.Server | null = null;
+  private rejectingConnections = false;
+
+  /**
+   * @param options - Accounts, devices and port
+   * @throws {ConfigError} If a device ID is used twice
+   */
+  constructor(options: MaveoSimulatorOptions = {}) {
+    super();
+    this.port = options.port ?? 0;
+    this.cognito = new FakeCognito({
+      users: options.users ?? [{ username: 'user@example.com', password: 'password' }],
+      credentialLifetime: options.credentialLifetime ?? 3600
+    });
+
+    for (const { deviceId, ...doorOptions } of options.devices ?? [{ deviceId: 'simulated-device' }]) {
+      if (this.doors.has(deviceId)) {
+        throw new ConfigError(`Simulator device ${deviceId} is defined twice`);
+      }
+
+      const door = new VirtualDoor(deviceId, doorOptions);
+      door.on('response', message => this.broker.publish(`${deviceId}/rsp`, JSON.stringify(message)));
+      this.doors.set(deviceId, door);
+    }
+
+    this.broker.on('clientConnected', clientId => this.emit('clientConnected', clientId));
+    this.broker.on('clientDisconnected', clientId => this.emit('clientDisconnected', clientId));
+    this.broker.on('publish', (topic, payload) => this.handlePublish(topic, payload));
+  }
+
+  /**
+   * Starts listening on the configured port.
+   */
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    server.on('upgrade', (req, socket, head) => this.handleUpgrade(req, socket, head));
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, HOST, () => {
+        server.removeListener('error', reject);
+        resolve();
+      });
+    });
+
+    debug.simulator('Listening on port %d', this.getPort());
+  }
+
+  /**
+   * Closes all connections and stops the server.
+   */
+  async stop(): Promise<void> {
+    this.doors.forEach(door => door.dispose());
+    await this.broker.close();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Gets the endpoint profile that points a client at this simulator.
+   * @throws {ConfigError} If the simulator has not been started
+   */
+  getEndpointProfile(): MaveoEndpointProfile {
+    const port = this.getPort();
+    const base = `${HOST}:${port}`;
+
+    return {
+      region: 'local-1',
+      userPoolId: 'local-1_simulator',
+      clientId: 'simulator',
+      identityPoolId: 'local-1:simulator',
+      iotHost: HOST,
+      iotPort: port,
+      iotUrl: `ws://${base}${MQTT_PATH}`,
+      cognitoIdpEndpoint: `http://${base}${COGNITO_IDP_PATH}`,
+      cognitoIdentityEndpoint: `http://${base}${COGNITO_IDENTITY_PATH}`
+    };
+  }
+
+  /**
+   * Gets a simulated door.
+   * @param deviceId - Device serial number
+   * @throws {ConfigError} If there is no such device
+   */
+  door(deviceId: string): VirtualDoor {
+    const door = this.doors.get(deviceId);
+    if (!door) {
+      throw new ConfigError(`Unknown simulator device: ${deviceId}`);
+    }
+    return door;
+  }
+
+  /**
+   * Gets the client IDs connected to the broker.
+   */
+  getConnectedClients(): string[] {
+    return this.broker.getClientIds();
+  }
+
+  /**
+   * Fault: closes all broker connections as if the network failed.
+   */
+  dropConnections(): void {
+    this.broker.dropConnections();
+  }
+
+  /**
+   * Fault: refuses new broker connections until called with false.
+   * @param reject - True to refuse connections
+   */
+  rejectConnections(reject: boolean): void {
+    this.rejectingConnections = reject;
+  }
+
+  /**
+   * Fault: answers the next Cognito requests with TooManyRequestsException.
+   * @param count - Number of requests to reject. Default: 1
+   */
+  throttleAuth(count = 1): void {
+    this.cognito.throttle(count);
+  }
+
+  /**
+   * Fault: invalidates all refresh tokens.
+   */
+  revokeRefreshTokens(): void {
+    this.cognito.revokeRefreshTokens();
+  }
+
+  /**
+   * Fault: publishes an arbitrary payload on a device's rsp topic.
+   * @param deviceId - Device serial number
+   * @param payload - Payload to publish. Default: invalid JSON
+   */
+  sendGarbage(deviceId: string, payload = '{"StoA_s":'): void {
+    this.broker.publish(`${deviceId}/rsp`, payload);
+  }
+
+  private getPort(): number {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new ConfigError('MaveoSimulator is not started');
+    }
+    return address.port;
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const path = req.url ?? '';
+    if (req.method === 'POST' && (path === COGNITO_IDP_PATH || path === COGNITO_IDENTITY_PATH)) {
+      this.cognito.handleRequest(req, res).catch(error => {
+        debug.simulator('Cognito request failed: %O', error);
+        res.destroy();
+      });
+      return;
+    }
+
+    res.writeHead(404);
+    res.end();
+  }
+
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const accessKeyId = /Credential=([^/]+)\//.exec(req.headers.authorization ?? '')?.[1];
+
+    if (req.url !== MQTT_PATH || this.rejectingConnections || !accessKeyId || !this.cognito.isValidAccessKey(accessKeyId)) {
+      debug.simulator('Rejecting broker connection');
+      socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    this.broker.handleUpgrade(req, socket, head);
+  }
+
+  private handlePublish(topic: string, payload: Buffer): void {
+    const [deviceId, channel] = topic.split('/');
+    const door = this.doors.get(deviceId);
+    if (!door || channel !== 'cmd') return;
+
+    let message: CommandMessage;
+    try {
+      message = decodeCommand(payload);
+    } catch {
+      debug.simulator('Ignoring invalid command on %s: %s', topic, payload.toString());
+      return;
+    }
+
+    this.emit('command', deviceId, message);
+    door.handleCommand(message);
+  }
+}
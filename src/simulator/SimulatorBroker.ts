@@ -0,0 +1,160 @@
+import TypedEmitter from 'typed-emitter';
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import * as mqttPacket from 'mqtt-packet';
+import { debug } from '../utils/logger';
+import { topicMatches } from '../utils/topics';
+
+/**
+ * Events emitted by SimulatorBroker.
+ */
+export type SimulatorBrokerEvents = {
+  /** A client finished the MQTT handshake */
+  clientConnected: (clientId: string) => void;
+  /** A client connection was closed */
+  clientDisconnected: (clientId: string) => void;
+  /** A client published a message */
+  publish: (topic: string, payload: Buffer, clientId: string) => void;
+};
+
+interface BrokerClient {
+  clientId: string | null;
+  socket: WebSocket;
+  subscriptions: Set<string>;
+}
+
+/**
+ * Minimal MQTT 3.1.1 broker over WebSocket, as far as MqttConnection needs it:
+ * QoS 0/1 publish, subscribe with wildcards, ping and session takeover by client ID.
+ */
+export class SimulatorBroker extends (EventEmitter as new () => TypedEmitter<SimulatorBrokerEvents>) {
+  private readonly wss = new WebSocketServer({
+    noServer: true,
+    handleProtocols: protocols => protocols.has('mqtt') ? 'mqtt' : false
+  });
+  private clients = new Set<BrokerClient>();
+
+  /**
+   * Takes over a WebSocket upgrade request from the HTTP server.
+   */
+  handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    this.wss.handleUpgrade(req, socket, head, ws => this.handleConnection(ws));
+  }
+
+  /**
+   * Publishes a message to all subscribed clients with QoS 0.
+   * @param topic - Topic to publish on
+   * @param payload - Message payload
+   */
+  publish(topic: string, payload: string | Buffer): void {
+    const packet = mqttPacket.generate({
+      cmd: 'publish',
+      topic,
+      payload,
+      qos: 0,
+      dup: false,
+      retain: false
+    });
+
+    this.clients.forEach(client => {
+      if ([...client.subscriptions].some(filter => topicMatches(filter, topic))) {
+        client.socket.send(packet);
+      }
+    });
+  }
+
+  /**
+   * Gets the client IDs of all connected clients.
+   */
+  getClientIds(): string[] {
+    return [...this.clients].map(client => client.clientId).filter((id): id is string => id !== null);
+  }
+
+  /**
+   * Closes all client connections without an MQTT DISCONNECT, like a network failure.
+   */
+  dropConnections(): void {
+    this.clients.forEach(client => client.socket.terminate());
+  }
+
+  /**
+   * Closes all client connections and the WebSocket server.
+   */
+  close(): Promise<void> {
+    this.dropConnections();
+    return new Promise(resolve => this.wss.close(() => resolve()));
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const client: BrokerClient = { clientId: null, socket, subscriptions: new Set() };
+    const parser = mqttPacket.parser({ protocolVersion: 4 });
+
+    parser.on('packet', packet => this.handlePacket(client, packet));
+    parser.on('error', error => {
+      debug.simulator('Invalid packet from %s: %s', client.clientId, error.message);
+      socket.terminate();
+    });
+
+    socket.on('message', (data: Buffer) => parser.parse(data));
+    socket.on('close', () => {
+      this.clients.delete(client);
+      if (client.clientId !== null) {
+        debug.simulator('Client disconnected: %s', client.clientId);
+        this.emit('clientDisconnected', client.clientId);
+      }
+    });
+  }
+
+  private handlePacket(client: BrokerClient, packet: mqttPacket.Packet): void {
+    switch (packet.cmd) {
+      case 'connect': {
+        // Like AWS IoT, a second connection with the same client ID replaces the first
+        this.clients.forEach(other => {
+          if (other.clientId === packet.clientId) {
+            other.socket.terminate();
+          }
+        });
+
+        client.clientId = packet.clientId;
+        this.clients.add(client);
+        this.send(client, { cmd: 'connack', returnCode: 0, sessionPresent: false });
+        debug.simulator('Client connected: %s', packet.clientId);
+        this.emit('clientConnected', packet.clientId);
+        break;
+      }
+      case 'subscribe':
+        packet.subscriptions.forEach(subscription => client.subscriptions.add(subscription.topic));
+        this.send(client, {
+          cmd: 'suback',
+          messageId: packet.messageId,
+          granted: packet.subscriptions.map(subscription => Math.min(subscription.qos, 1))
+        });
+        break;
+      case 'unsubscribe':
+        packet.unsubscriptions.forEach(topic => client.subscriptions.delete(topic));
+        this.send(client, { cmd: 'unsuback', messageId: packet.messageId, granted: [] });
+        break;
+      case 'publish':
+        if (packet.qos > 0) {
+          this.send(client, { cmd: 'puback', messageId: packet.messageId });
+        }
+        this.emit('publish', packet.topic, Buffer.from(packet.payload), client.clientId ?? '');
+        this.publish(packet.topic, packet.payload);
+        break;
+      case 'pingreq':
+        this.send(client, { cmd: 'pingresp' });
+        break;
+      case 'disconnect':
+        client.socket.close();
+        break;
+      default:
+        debug.simulator('Ignoring %s packet', packet.cmd);
+    }
+  }
+
+  private send(client: BrokerClient, packet: mqttPacket.Packet): void {
+    client.socket.send(mqttPacket.generate(packet));
+  }
+}
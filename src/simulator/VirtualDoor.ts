@@ -0,0 +1,201 @@
+import TypedEmitter from 'typed-emitter';
+import { EventEmitter } from 'events';
+import { CommandMessage, DoorCommand, DoorState, LightCommand, StatusResponse } from '../types';
+import { debug } from '../utils/logger';
+
+/**
+ * Options for a simulated door.
+ */
+export interface VirtualDoorOptions {
+  /** State at startup, OPEN or CLOSED. Default: CLOSED */
+  initialState?: DoorState.OPEN | DoorState.CLOSED;
+  /** Time for a full open or close in milliseconds. Default: 15000 */
+  travelTime?: number;
+  /** Position of the intermediate stop between 0 (closed) and 1 (open). Default: 0.5 */
+  intermediatePosition?: number;
+  /** Light state at startup. Default: false */
+  lightOn?: boolean;
+}
+
+/**
+ * Events emitted by VirtualDoor.
+ */
+export type VirtualDoorEvents = {
+  /** Emitted for every message the device publishes on its rsp topic */
+  response: (message: StatusResponse) => void;
+};
+
+const DEFAULT_TRAVEL_TIME = 15000;
+const DEFAULT_INTERMEDIATE_POSITION = 0.5;
+
+interface Movement {
+  from: number;
+  target: number;
+  startedAt: number;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * A simulated garage door that answers AtoS_* commands like a Maveo stick.
+ * Commands that do not change anything are not answered, like on the real device.
+ */
+export class VirtualDoor extends (EventEmitter as new () => TypedEmitter<VirtualDoorEvents>) {
+  readonly deviceId: string;
+  private state: DoorState;
+  private position: number;
+  private lightOn: boolean;
+  private movement: Movement | null = null;
+  private responsive = true;
+  private readonly travelTime: number;
+  private readonly intermediatePosition: number;
+
+  /**
+   * @param deviceId - Device serial number the door answers to
+   * @param options - Door options
+   */
+  constructor(deviceId: string, options: VirtualDoorOptions = {}) {
+    super();
+    this.deviceId = deviceId;
+    this.state = options.initialState ?? DoorState.CLOSED;
+    this.position = this.state === DoorState.OPEN ? 1 : 0;
+    this.lightOn = options.lightOn ?? false;
+    this.travelTime = options.travelTime ?? DEFAULT_TRAVEL_TIME;
+    this.intermediatePosition = options.intermediatePosition ?? DEFAULT_INTERMEDIATE_POSITION;
+  }
+
+  /**
+   * Handles a message received on the cmd topic.
+   * @param message - The parsed command
+   */
+  handleCommand(message: CommandMessage): void {
+    if (!this.responsive) {
+      debug.simulator('%s ignores %o (unresponsive)', this.deviceId, message);
+      return;
+    }
+
+    if (message.AtoS_l !== undefined) {
+      this.lightOn = message.AtoS_l === LightCommand.ON;
+      this.respond({ StoA_l: this.lightOn ? LightCommand.ON : LightCommand.OFF });
+    }
+
+    if (message.AtoS_g !== undefined) {
+      this.handleDoorCommand(message.AtoS_g);
+    }
+
+    if (message.AtoS_s !== undefined) {
+      this.respond({ StoA_s: this.state, StoA_l: this.lightOn ? LightCommand.ON : LightCommand.OFF });
+    }
+  }
+
+  /**
+   * Makes the door ignore all commands, e.g. to simulate a stick without Wi-Fi.
+   * @param responsive - False to ignore commands
+   */
+  setResponsive(responsive: boolean): void {
+    this.responsive = responsive;
+  }
+
+  /**
+   * Gets the current door state.
+   */
+  getState(): DoorState {
+    return this.state;
+  }
+
+  /**
+   * Gets the current position between 0 (closed) and 1 (open).
+   */
+  getPosition(): number {
+    if (!this.movement) {
+      return this.position;
+    }
+
+    const { from, target, startedAt } = this.movement;
+    const travelled = (Date.now() - startedAt) / this.travelTime;
+    return target > from ? Math.min(target, from + travelled) : Math.max(target, from - travelled);
+  }
+
+  /**
+   * Gets the current light state.
+   */
+  isLightOn(): boolean {
+    return this.lightOn;
+  }
+
+  /**
+   * Stops any running movement timer without reporting it.
+   */
+  dispose(): void {
+    if (this.movement) {
+      clearTimeout(this.movement.timer);
+      this.movement = null;
+    }
+  }
+
+  private handleDoorCommand(command: number): void {
+    switch (command) {
+      case DoorCommand.OPEN:
+        this.moveTo(1);
+        break;
+      case DoorCommand.CLOSE:
+        this.moveTo(0);
+        break;
+      case DoorCommand.INTERMEDIATE:
+        this.moveTo(this.intermediatePosition);
+        break;
+      case DoorCommand.STOP:
+        if (this.movement) {
+          this.halt();
+        }
+        break;
+      default:
+        debug.simulator('%s ignores unknown door command %d', this.deviceId, command);
+    }
+  }
+
+  private moveTo(target: number): void {
+    if (this.movement?.target === target) return;
+
+    const from = this.getPosition();
+    this.dispose();
+    this.position = from;
+
+    if (from === target) {
+      this.setState(this.getRestingState(target));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.movement = null;
+      this.position = target;
+      this.setState(this.getRestingState(target));
+    }, Math.abs(target - from) * this.travelTime);
+
+    this.movement = { from, target, startedAt: Date.now(), timer };
+    this.setState(target > from ? DoorState.OPENING : DoorState.CLOSING);
+  }
+
+  private halt(): void {
+    this.position = this.getPosition();
+    this.dispose();
+    this.setState(DoorState.STOPPED);
+  }
+
+  private getRestingState(position: number): DoorState {
+    if (position >= 1) return DoorState.OPEN;
+    if (position <= 0) return DoorState.CLOSED;
+    return DoorState.STOPPED;
+  }
+
+  private setState(state: DoorState): void {
+    if (state === this.state) return;
+
+    this.state = state;
+    this.respond({ StoA_s: state });
+  }
+
+  private respond(message: StatusResponse): void {
+    debug.simulator('%s responds %o', this.deviceId, message);
+    this.emit('response', message);
+  }
+}
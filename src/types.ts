@@ -1,25 +1,230 @@
+import type { MaveoError } from './errors';
+import type { ReconnectStrategy } from './mqtt/ReconnectStrategy';
+import type { MqttTransport } from './mqtt/MqttTransport';
+
 /**
- * Configuration for MaveoClient.
+ * Built-in Maveo Cloud regions.
+ */
+export type MaveoRegion = 'eu' | 'us';
+
+/**
+ * Cognito and IoT endpoints of a Maveo Cloud region.
+ */
+export interface MaveoEndpointProfile {
+  /** AWS region, also used for SigV4 signing */
+  region: string;
+  /** Cognito User Pool ID */
+  userPoolId: string;
+  /** Cognito User Pool app client ID */
+  clientId: string;
+  /** Cognito Identity Pool ID */
+  identityPoolId: string;
+  /** IoT host name, signed as the Host header */
+  iotHost: string;
+  /** IoT port. Default: 443 */
+  iotPort?: number;
+  /** MQTT WebSocket URL. Default: wss://{iotHost}:{iotPort}/mqtt */
+  iotUrl?: string;
+  /** Cognito User Pool endpoint. Default: https://cognito-idp.{region}.amazonaws.com */
+  cognitoIdpEndpoint?: string;
+  /** Cognito Identity endpoint. Default: https://cognito-identity.{region}.amazonaws.com */
+  cognitoIdentityEndpoint?: string;
+}
+
+/**
+ * Cognito login flows for username/password authentication.
+ */
+export type AuthFlow = 'USER_PASSWORD_AUTH' | 'USER_SRP_AUTH';
+
+/**
+ * Cognito challenges that can be answered by a ChallengeHandler.
+ */
+export type AuthChallengeName = 'NEW_PASSWORD_REQUIRED' | 'SMS_MFA' | 'SOFTWARE_TOKEN_MFA';
+
+/**
+ * A Cognito challenge that needs user input.
+ */
+export interface AuthChallenge {
+  /** Challenge type */
+  name: AuthChallengeName;
+  /** Challenge parameters from Cognito, e.g. CODE_DELIVERY_DESTINATION for SMS_MFA */
+  parameters: Record<string, string>;
+}
+
+/**
+ * Answers a challenge: the new password for NEW_PASSWORD_REQUIRED, the code for MFA challenges.
+ */
+export type ChallengeHandler = (challenge: AuthChallenge) => string | Promise<string>;
+
+/**
+ * Session configuration shared by MaveoClient and MaveoAccount.
  */
-export interface MaveoConfig {
+export interface MaveoSessionConfig {
   /** Maveo account email */
   username: string;
   /** Maveo account password */
   password: string;
-  /** Device serial number from Maveo app */
-  deviceId: string;
 
   // Optional timing/retry settings
   /** Connection timeout in milliseconds. Default: 30000 */
   connectTimeout?: number;
   /** Status request timeout in milliseconds. Default: 10000 */
   statusTimeout?: number;
-  /** Maximum reconnection attempts. Default: 10 */
+  /** Maximum reconnection attempts, Infinity to retry forever. Default: 10 */
   maxReconnectAttempts?: number;
   /** Base delay between reconnection attempts in milliseconds. Default: 1000 */
   baseReconnectDelay?: number;
+  /** Upper bound of the delay between reconnection attempts in milliseconds. Default: 300000 */
+  maxReconnectDelay?: number;
+  /** Decides when to reconnect, replacing the backoff configured above. Default: ExponentialBackoffStrategy */
+  reconnectStrategy?: ReconnectStrategy;
   /** MQTT keepalive interval in seconds. Default: 60 */
   keepalive?: number;
+  /** Default time to wait for a door movement to finish in milliseconds. Default: 60000 */
+  moveTimeout?: number;
+  /** Oldest cached status getStatus() returns before asking the device again, in milliseconds. Default: no limit */
+  maxStatusAge?: number;
+  /** Request the status this often in milliseconds to detect an unresponsive device. Default: disabled */
+  statusPollInterval?: number;
+  /** Unanswered polls in a row before deviceUnresponsive is emitted. Default: 2 */
+  maxMissedPolls?: number;
+  /** Renew credentials and reconnect this many milliseconds before they expire. Default: 300000 */
+  credentialRefreshMargin?: number;
+  /** Persists the session between restarts to avoid repeated logins. Default: none */
+  sessionStore?: SessionStore;
+  /** Maveo Cloud region or custom endpoints. Default: 'eu' */
+  endpoint?: MaveoRegion | MaveoEndpointProfile;
+  /** Cognito login flow. Default: 'USER_PASSWORD_AUTH' */
+  authFlow?: AuthFlow;
+  /** Answers NEW_PASSWORD_REQUIRED and MFA challenges. Without it, challenges throw AuthChallengeError */
+  challengeHandler?: ChallengeHandler;
+  /** Queue commands while reconnecting and limit the send rate. Pass {} for the defaults. Default: disabled */
+  commandQueue?: CommandQueueOptions;
+  /** Reconnect right away after network changes and system sleep. Pass {} for the defaults. Default: disabled */
+  networkWatch?: NetworkWatchOptions;
+  /** Interlocks checked before every door command of every device. Default: none */
+  commandGuards?: CommandGuard[];
+  /** Subscribe to extra topics, report raw messages and allow sendRaw(). Pass {} for the defaults. Default: disabled */
+  sniffer?: SnifferOptions;
+  /** Travel times from calibrate() for position estimation. Default: none, only open and closed are known */
+  doorCalibration?: DoorCalibration;
+  /** Replaces the AWS IoT connection, e.g. with a ReplayTransport; Cognito is skipped. Default: AWS IoT */
+  transport?: MqttTransport;
+}
+
+/**
+ * Options for the outbound command queue.
+ */
+export interface CommandQueueOptions {
+  /** How long a command may wait to be sent in milliseconds. Default: 30000 */
+  ttl?: number;
+  /** Maximum number of waiting commands, further commands are dropped. Default: 20 */
+  maxSize?: number;
+  /**
+   * What to do with a door command while a different one for the same device is waiting:
+   * 'replace' drops the waiting command, 'keepFirst' drops the new one unless it is STOP and 'sequential' sends both.
+   * Default: 'replace'
+   */
+  conflictPolicy?: 'replace' | 'keepFirst' | 'sequential';
+  /** Number of commands that may be sent at once. Default: 5 */
+  burst?: number;
+  /** Sustained number of commands per second. Default: 1 */
+  ratePerSecond?: number;
+}
+
+/**
+ * Options for watching network interface changes and system sleep.
+ */
+export interface NetworkWatchOptions {
+  /** How often to check in milliseconds. Default: 5000 */
+  checkInterval?: number;
+  /** Reconnect when network interfaces gain or lose an address. Default: true */
+  interfaces?: boolean;
+  /** A check this many milliseconds later than scheduled counts as a resume from sleep. Default: 30000 */
+  clockJumpThreshold?: number;
+}
+
+/**
+ * Options of the sniffer mode for exploring the protocol.
+ */
+export interface SnifferOptions {
+  /** Extra topic filters subscribed for every device, `{deviceId}` is replaced. Default: ['{deviceId}/#'] */
+  topics?: string[];
+  /** Allow sendRaw() to publish arbitrary commands. Default: false */
+  allowRawCommands?: boolean;
+  /** Append every raw message to this capture file. Default: none */
+  captureFile?: string;
+}
+
+/**
+ * A message seen on the MQTT connection, reported by the rawMessage event.
+ */
+export interface RawMessage {
+  /** Received from the broker or published by this connection */
+  direction: 'received' | 'published';
+  /** MQTT topic */
+  topic: string;
+  /** Payload bytes as on the wire */
+  payload: Buffer;
+  /** When the message was received or published */
+  timestamp: Date;
+}
+
+/**
+ * What happened to a command: sent, expired in the queue or dropped by the queue.
+ */
+export type CommandOutcome = 'sent' | 'expired' | 'dropped';
+
+/**
+ * Configuration for MaveoClient.
+ */
+export interface MaveoConfig extends MaveoSessionConfig {
+  /** Device serial number from Maveo app */
+  deviceId: string;
+}
+
+/**
+ * Configuration for MaveoAccount.
+ */
+export interface MaveoAccountConfig extends MaveoSessionConfig {
+  /** Device serial numbers to subscribe to. More can be added via device(). */
+  deviceIds?: string[];
+  /** MQTT client ID. Default: the first device ID */
+  clientId?: string;
+}
+
+/**
+ * Options for commands.
+ */
+export interface CommandOptions {
+  /** Who sent the command, e.g. 'http' or 'scheduler'. Reported in the command event. Default: 'api' */
+  source?: string;
+}
+
+/**
+ * Options for awaitable door commands.
+ */
+export interface WaitOptions extends CommandOptions {
+  /** Maximum time to wait for the target state in milliseconds. Default: config.moveTimeout */
+  timeout?: number;
+}
+
+/**
+ * Options for getStatus().
+ */
+export interface StatusOptions {
+  /** Ask the device even if a recent status is cached. Default: false */
+  fresh?: boolean;
+}
+
+/**
+ * A change of the reported door state.
+ */
+export interface StateChange {
+  /** Status before the change, null for the first status received */
+  previous: MaveoStatus | null;
+  /** Status with the new door state */
+  current: MaveoStatus;
 }
 
 /**
@@ -66,6 +271,8 @@ export enum LightCommand {
  * Parsed status information from the device.
  */
 export interface MaveoStatus {
+  /** Device serial number the status belongs to */
+  device: string;
   /** Current door state */
   doorState: DoorState;
   /** True if door is currently opening */
@@ -80,6 +287,118 @@ export interface MaveoStatus {
   isStopped: boolean;
   /** Raw numeric value from device */
   rawValue: number;
+  /** True if the light is on, null until the device has reported it */
+  lightOn: boolean | null;
+  /** Response fields not modelled by this library, latest value per field */
+  raw: Record<string, unknown>;
+  /** When the door status was received */
+  timestamp: Date;
+  /** Estimated position in percent, 0 closed and 100 open; null if unknown. Needs a calibration between the ends */
+  position: number | null;
+}
+
+/**
+ * Time a full door movement takes, measured by calibrate().
+ */
+export interface DoorCalibration {
+  /** Time from closed to open in milliseconds */
+  openTime: number;
+  /** Time from open to closed in milliseconds */
+  closeTime: number;
+}
+
+/**
+ * Health snapshot of a device.
+ */
+export interface DeviceHealth {
+  /** Device serial number */
+  device: string;
+  /** True if the MQTT connection is up */
+  connected: boolean;
+  /** False after maxMissedPolls status polls in a row went unanswered */
+  responsive: boolean;
+  /** When the device last sent any message, null if never */
+  lastMessageAt: Date | null;
+  /** When the cached door status was received, null if never */
+  lastStatusAt: Date | null;
+  /** Number of times the connection was re-established */
+  reconnects: number;
+  /** Round-trip time of the last answered status request in milliseconds, null if none was answered yet */
+  latency: number | null;
+  /** Status polls in a row without an answer */
+  missedPolls: number;
+}
+
+/**
+ * A command sent to a device.
+ */
+export type CommandEvent = {
+  /** Device serial number the command was sent to */
+  device: string;
+  /** Who sent the command */
+  source: string;
+  /** When the command was sent */
+  timestamp: Date;
+} & (
+  | { target: 'door'; command: DoorCommand }
+  | { target: 'light'; command: LightCommand }
+);
+
+/**
+ * A door command about to be sent, as seen by command guards.
+ */
+export interface CommandRequest {
+  /** Device serial number the command is for */
+  device: string;
+  /** The door command */
+  command: DoorCommand;
+  /** Who sent the command */
+  source: string;
+  /** Last reported status, null if none was received yet */
+  status: MaveoStatus | null;
+  /** When the command was requested */
+  timestamp: Date;
+}
+
+/**
+ * A command guard's verdict on a door command.
+ */
+export type CommandDecision =
+  | { allowed: true; reason?: string }
+  | { allowed: false; reason: string };
+
+/**
+ * Interlock checked before a door command is sent. Guards run in the order they
+ * were added; the first veto stops the command.
+ */
+export interface CommandGuard {
+  /** Name reported in the audit log and in CommandVetoedError */
+  name: string;
+  /**
+   * Decides whether the command may be sent. May wait, e.g. for a confirmation,
+   * which delays the command. Throwing vetoes the command.
+   */
+  check(request: CommandRequest): CommandDecision | Promise<CommandDecision>;
+}
+
+/**
+ * Audit record of the guard decisions on a door command.
+ */
+export interface CommandAuditEntry extends CommandRequest {
+  /** Whether the command was sent */
+  allowed: boolean;
+  /** Decisions in the order the guards ran, ending with the veto if any */
+  decisions: Array<{ guard: string } & CommandDecision>;
+}
+
+/**
+ * Light state reported by the device.
+ */
+export interface LightStatus {
+  /** Device serial number the state belongs to */
+  device: string;
+  /** True if the light is on */
+  lightOn: boolean;
 }
 
 /**
@@ -100,37 +419,159 @@ export interface AuthResult {
   identityId: string;
 }
 
+/**
+ * Session data persisted by a SessionStore.
+ */
+export interface StoredSession {
+  /** Cognito Identity ID */
+  identityId: string;
+  /** Cognito User Pool refresh token, if known */
+  refreshToken: string | null;
+  /** Last AWS credentials */
+  credentials: AWSCredentials;
+}
+
+/**
+ * Storage for authenticated sessions, keyed by user pool, identity pool and username.
+ */
+export interface SessionStore {
+  /** Loads the session for the given key, or null if there is none */
+  load(key: string): Promise<StoredSession | null>;
+  /** Saves the session for the given key */
+  save(key: string, session: StoredSession): Promise<void>;
+  /** Removes the session for the given key */
+  clear(key: string): Promise<void>;
+}
+
 /**
  * MQTT status response message.
  */
 export interface StatusResponse {
-  StoA_s: number;
+  /** Door state */
+  StoA_s?: number;
+  /** Light state */
+  StoA_l?: number;
+  /** Fields not modelled by this library */
+  [field: string]: unknown;
 }
 
 /**
- * MQTT command message.
+ * MQTT command message, with exactly one of the fields:
+ * `AtoS_g` is a door command, `AtoS_l` a light command and `AtoS_s` a
+ * status request, always 0.
  */
-export interface CommandMessage {
-  /** Door command */
-  AtoS_g?: number;
-  /** Light command */
-  AtoS_l?: number;
-  /** Status request */
-  AtoS_s?: number;
+export type CommandMessage =
+  | { AtoS_g: DoorCommand; AtoS_l?: never; AtoS_s?: never }
+  | { AtoS_g?: never; AtoS_l: LightCommand; AtoS_s?: never }
+  | { AtoS_g?: never; AtoS_l?: never; AtoS_s: 0 };
+
+/**
+ * A field of a device message the library does not know, reported by the
+ * protocolAnomaly event. The message is still processed.
+ */
+export interface ProtocolAnomaly {
+  /** Device serial number the message belongs to */
+  device: string;
+  /** MQTT topic the message was received on */
+  topic: string;
+  /** An unknown field, or a known field with an unknown value */
+  kind: 'unknownField' | 'unknownValue';
+  /** Name of the field */
+  field: string;
+  /** Value of the field */
+  value: unknown;
+  /** The raw payload */
+  payload: string;
 }
 
 /**
  * Event types for MaveoClient.
  */
 export type MaveoClientEvents = {
-  /** Emitted when door status changes */
+  /** Emitted for every door status the device reports, same as statusReceived */
+  status: (status: MaveoStatus) => void;
+  /** Emitted for every door status the device reports, including repeated ones */
+  statusReceived: (status: MaveoStatus) => void;
+  /** Emitted when the reported door state differs from the previous one */
+  stateChanged: (change: StateChange) => void;
+  /** Emitted when the door starts moving or reverses */
+  movementStarted: (status: MaveoStatus) => void;
+  /** Emitted when a moving door becomes stationary: open, closed or stopped */
+  movementStopped: (status: MaveoStatus) => void;
+  /** Emitted when the door becomes open */
+  opened: (status: MaveoStatus) => void;
+  /** Emitted when the door becomes closed */
+  closed: (status: MaveoStatus) => void;
+  /** Emitted when the device reports a different light state */
+  lightChanged: (light: LightStatus) => void;
+  /** Emitted when a door or light command was sent */
+  command: (command: CommandEvent) => void;
+  /** Emitted after the command guards decided on a door command */
+  commandDecision: (entry: CommandAuditEntry) => void;
+  /** Emitted when status polls stop being answered while the connection is up */
+  deviceUnresponsive: (health: DeviceHealth) => void;
+  /** Emitted when an unresponsive device sends a message again */
+  deviceResponsive: (health: DeviceHealth) => void;
+  /** Emitted when a device message contains an unknown field or value */
+  protocolAnomaly: (anomaly: ProtocolAnomaly) => void;
+  /** Emitted for every message received or published on the topics of the device */
+  rawMessage: (message: RawMessage) => void;
+  /** Emitted when connected to Maveo Cloud */
+  connected: () => void;
+  /** Emitted when disconnected from Maveo Cloud */
+  disconnected: () => void;
+  /** Emitted when attempting to reconnect */
+  reconnecting: (attempt: number, maxAttempts: number, delayMs: number) => void;
+  /** Emitted when the reconnect strategy gave up; no further attempts are made */
+  reconnectFailed: (attempts: number, error: MaveoError) => void;
+  /** Emitted when the AWS credentials have been renewed */
+  credentialsRefreshed: (expiration: Date) => void;
+  /** Emitted on errors */
+  error: (error: MaveoError) => void;
+}
+
+/**
+ * Event types for MaveoAccount.
+ */
+export type MaveoAccountEvents = {
+  /** Emitted when the status of any device is received */
   status: (status: MaveoStatus) => void;
+  /** Emitted for every door status any device reports, including repeated ones */
+  statusReceived: (status: MaveoStatus) => void;
+  /** Emitted when the reported door state of a device differs from its previous one */
+  stateChanged: (change: StateChange) => void;
+  /** Emitted when a door starts moving or reverses */
+  movementStarted: (status: MaveoStatus) => void;
+  /** Emitted when a moving door becomes stationary: open, closed or stopped */
+  movementStopped: (status: MaveoStatus) => void;
+  /** Emitted when a door becomes open */
+  opened: (status: MaveoStatus) => void;
+  /** Emitted when a door becomes closed */
+  closed: (status: MaveoStatus) => void;
+  /** Emitted when the device reports a different light state */
+  lightChanged: (light: LightStatus) => void;
+  /** Emitted when a door or light command was sent */
+  command: (command: CommandEvent) => void;
+  /** Emitted after the command guards decided on a door command */
+  commandDecision: (entry: CommandAuditEntry) => void;
+  /** Emitted when status polls stop being answered while the connection is up */
+  deviceUnresponsive: (health: DeviceHealth) => void;
+  /** Emitted when an unresponsive device sends a message again */
+  deviceResponsive: (health: DeviceHealth) => void;
+  /** Emitted when a device message contains an unknown field or value */
+  protocolAnomaly: (anomaly: ProtocolAnomaly) => void;
+  /** Emitted for every message received or published on the connection */
+  rawMessage: (message: RawMessage) => void;
   /** Emitted when connected to Maveo Cloud */
   connected: () => void;
   /** Emitted when disconnected from Maveo Cloud */
   disconnected: () => void;
   /** Emitted when attempting to reconnect */
   reconnecting: (attempt: number, maxAttempts: number, delayMs: number) => void;
+  /** Emitted when the reconnect strategy gave up; no further attempts are made */
+  reconnectFailed: (attempts: number, error: MaveoError) => void;
+  /** Emitted when the AWS credentials have been renewed */
+  credentialsRefreshed: (expiration: Date) => void;
   /** Emitted on errors */
-  error: (error: Error) => void;
+  error: (error: MaveoError) => void;
 }
@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * Appends values to a JSON Lines file, one value per line. The file and its
+ * directory are created on first write, the file is never truncated.
+ * @param filePath - Path of the file
+ * @param values - Values to append
+ */
+export async function appendJsonLines(filePath: string, values: unknown[]): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, values.map(value => `${JSON.stringify(value)}\n`).join(''));
+}
+
+/**
+ * Parses JSON Lines content, skipping blank lines.
+ * @param content - The file content
+ * @param onInvalid - Called with each line that is not valid JSON
+ * @returns The parsed values in file order
+ */
+export function parseJsonLines<T>(content: string, onInvalid: (line: string) => void): T[] {
+  const values: T[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+
+    try {
+      values.push(JSON.parse(line) as T);
+    } catch {
+      // A crash while appending can leave a partial last line
+      onInvalid(line);
+    }
+  }
+  return values;
+}
+
+/**
+ * Runs writes one after another, so an append-only file stays in order.
+ * A failed write is reported and does not stop the ones after it, since a
+ * failing disk must not break the connection that produces the entries.
+ */
+export class WriteQueue {
+  private writes: Promise<void> = Promise.resolve();
+  private readonly onError: (error: unknown) => void;
+
+  /**
+   * @param onError - Called with the error of each failed write
+   */
+  constructor(onError: (error: unknown) => void) {
+    this.onError = onError;
+  }
+
+  /**
+   * Queues a write after the ones queued before.
+   * @param write - The write
+   */
+  push(write: () => Promise<void>): void {
+    this.writes = this.writes.then(write).catch(this.onError);
+  }
+
+  /**
+   * Waits until all queued writes have finished.
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+}
@@ -4,4 +4,11 @@ export const debug = {
   auth: createDebug('maveo:auth'),
   mqtt: createDebug('maveo:mqtt'),
   client: createDebug('maveo:client'),
+  http: createDebug('maveo:http'),
+  homeassistant: createDebug('maveo:homeassistant'),
+  simulator: createDebug('maveo:simulator'),
+  history: createDebug('maveo:history'),
+  watchdog: createDebug('maveo:watchdog'),
+  scheduler: createDebug('maveo:scheduler'),
+  capture: createDebug('maveo:capture'),
 };
@@ -0,0 +1,62 @@
+import { ConfigError } from '../errors';
+
+/**
+ * A daily time window in local time, e.g. { start: '22:00', end: '06:30' }.
+ * Windows may span midnight.
+ */
+export interface TimeWindow {
+  /** Start as HH:MM */
+  start: string;
+  /** End as HH:MM */
+  end: string;
+}
+
+/**
+ * A time window as minutes since midnight.
+ */
+export interface ParsedTimeWindow {
+  start: number;
+  end: number;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Parses a time window for checking it with isInTimeWindow().
+ * @param window - The window
+ * @param owner - Prefix of the error message, e.g. the class name
+ * @returns The window in minutes since midnight
+ * @throws {ConfigError} If a time is not HH:MM
+ */
+export function parseTimeWindow(window: TimeWindow, owner: string): ParsedTimeWindow {
+  return {
+    start: parseTime(window.start, owner),
+    end: parseTime(window.end, owner)
+  };
+}
+
+/**
+ * Checks if a minute of the day lies in a window. The end is exclusive.
+ * @param window - The parsed window
+ * @param minute - Minutes since midnight
+ */
+export function isInTimeWindow({ start, end }: ParsedTimeWindow, minute: number): boolean {
+  return start <= end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+}
+
+/**
+ * Returns the minutes since midnight of a date in local time.
+ */
+export function getMinuteOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+function parseTime(value: string, owner: string): number {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) {
+    throw new ConfigError(`${owner}: invalid time "${value}", expected HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
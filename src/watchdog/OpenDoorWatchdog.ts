@@ -0,0 +1,298 @@
+import TypedEmitter from 'typed-emitter';
+import { EventEmitter } from 'events';
+import { MaveoDevice } from '../MaveoDevice';
+import { CommandEvent, MaveoStatus } from '../types';
+import { ConfigError, MaveoError, toMaveoError } from '../errors';
+import { debug } from '../utils/logger';
+import { getMinuteOfDay, isInTimeWindow, ParsedTimeWindow, parseTimeWindow, TimeWindow } from '../utils/timeWindow';
+
+/**
+ * A daily window in local time during which the watchdog does not warn or
+ * auto-close, e.g. { start: '22:00', end: '06:30' }.
+ */
+export type QuietHours = TimeWindow;
+
+/**
+ * Options for OpenDoorWatchdog.
+ */
+export interface OpenDoorWatchdogOptions {
+  /** How long the door may stay open in milliseconds before openTooLong is emitted */
+  maxOpenDuration: number;
+  /** Close the door automatically after the grace period. Default: false */
+  autoClose?: boolean;
+  /** Time between the light warning and the auto-close in milliseconds. Default: 60000 */
+  gracePeriod?: number;
+  /** Windows without light warnings or auto-close. Default: none */
+  quietHours?: QuietHours[];
+  /** Number of light flashes before an auto-close, 0 to disable. Default: 3 */
+  warningFlashes?: number;
+  /** Duration of each light on/off phase of a flash in milliseconds. Default: 1000 */
+  flashInterval?: number;
+}
+
+/**
+ * Details of an open-too-long door.
+ */
+export interface OpenDoorEvent {
+  /** Device serial number */
+  device: string;
+  /** When the door left the closed position */
+  openSince: Date;
+  /** Latest status of the door */
+  status: MaveoStatus;
+}
+
+/**
+ * Events emitted by OpenDoorWatchdog.
+ */
+export type OpenDoorWatchdogEvents = {
+  /** The door has been open longer than maxOpenDuration */
+  openTooLong: (event: OpenDoorEvent) => void;
+  /** The grace period ended and the close command is being sent */
+  autoCloseAttempted: (event: OpenDoorEvent) => void;
+  /** The door did not close after an auto-close attempt */
+  autoCloseFailed: (event: OpenDoorEvent, error: MaveoError) => void;
+  /** A pending auto-close was cancelled by a state change or a manual command */
+  autoCloseCancelled: (event: OpenDoorEvent, reason: 'stateChanged' | 'command') => void;
+};
+
+const DEFAULT_GRACE_PERIOD = 60000;
+const DEFAULT_WARNING_FLASHES = 3;
+const DEFAULT_FLASH_INTERVAL = 1000;
+
+// Reported as the source of commands sent by the watchdog
+const COMMAND_SOURCE = 'watchdog';
+
+type Phase = 'idle' | 'monitoring' | 'warning' | 'closing';
+
+/**
+ * Watches a door and reports when it stays open too long, optionally warning
+ * with the light and closing it automatically. Any state change or manual command
+ * cancels a pending auto-close and restarts the timer.
+ *
+ * @example
+ * ```typescript
+ * const watchdog = new OpenDoorWatchdog(client, {
+ *   maxOpenDuration: 15 * 60 * 1000,
+ *   autoClose: true,
+ *   quietHours: [{ start: '22:00', end: '06:00' }]
+ * });
+ * watchdog.on('openTooLong', ({ openSince }) => notify(`Garage open since ${openSince}`));
+ * watchdog.start();
+ * ```
+ */
+export class OpenDoorWatchdog extends (EventEmitter as new () => TypedEmitter<OpenDoorWatchdogEvents>) {
+  private readonly device: MaveoDevice;
+  private readonly maxOpenDuration: number;
+  private readonly autoClose: boolean;
+  private readonly gracePeriod: number;
+  private readonly quietHours: ParsedTimeWindow[];
+  private readonly warningFlashes: number;
+  private readonly flashInterval: number;
+  private phase: Phase = 'idle';
+  private openSince: Date | null = null;
+  private lastStatus: MaveoStatus | null = null;
+  private timers = new Set<NodeJS.Timeout>();
+  private running = false;
+
+  /**
+   * @param device - The client or device handle to watch
+   * @param options - Watchdog policy
+   * @throws {ConfigError} If a duration or quiet-hours window is invalid
+   */
+  constructor(device: MaveoDevice, options: OpenDoorWatchdogOptions) {
+    super();
+
+    if (!(options.maxOpenDuration > 0)) {
+      throw new ConfigError('OpenDoorWatchdog: maxOpenDuration must be positive');
+    }
+
+    this.device = device;
+    this.maxOpenDuration = options.maxOpenDuration;
+    this.autoClose = options.autoClose ?? false;
+    this.gracePeriod = options.gracePeriod ?? DEFAULT_GRACE_PERIOD;
+    this.warningFlashes = options.warningFlashes ?? DEFAULT_WARNING_FLASHES;
+    this.flashInterval = options.flashInterval ?? DEFAULT_FLASH_INTERVAL;
+    this.quietHours = (options.quietHours ?? []).map(window => parseTimeWindow(window, 'OpenDoorWatchdog'));
+  }
+
+  /**
+   * Starts watching. A door that is already open counts as open from now on.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.device.on('status', this.handleStatus);
+    this.device.on('command', this.handleCommand);
+
+    const status = this.device.getCurrentStatus();
+    if (status) {
+      this.handleStatus(status);
+    }
+  }
+
+  /**
+   * Stops watching and cancels any pending warning or auto-close.
+   */
+  stop(): void {
+    this.running = false;
+    this.device.removeListener('status', this.handleStatus);
+    this.device.removeListener('command', this.handleCommand);
+    this.clearTimers();
+    this.phase = 'idle';
+    this.openSince = null;
+    this.lastStatus = null;
+  }
+
+  /**
+   * Checks if a time falls into one of the quiet-hours windows.
+   * @param date - Time to check. Default: now
+   */
+  isQuietTime(date = new Date()): boolean {
+    return this.getQuietTimeRemaining(date) > 0;
+  }
+
+  private handleStatus = (status: MaveoStatus): void => {
+    const previous = this.lastStatus;
+    this.lastStatus = status;
+
+    if (status.isClosed) {
+      this.cancel('stateChanged');
+      this.phase = 'idle';
+      this.openSince = null;
+      return;
+    }
+
+    if (this.phase === 'idle') {
+      this.openSince = new Date();
+      this.startMonitoring();
+      return;
+    }
+
+    // Our own close command moves the door, that must not cancel itself
+    if (this.phase === 'closing' || previous?.doorState === status.doorState) return;
+
+    debug.watchdog('door state changed, restarting timer');
+    this.cancel('stateChanged');
+    this.startMonitoring();
+  };
+
+  private handleCommand = (command: CommandEvent): void => {
+    if (command.source === COMMAND_SOURCE || this.phase === 'idle' || this.phase === 'closing') return;
+
+    debug.watchdog('manual %s command, restarting timer', command.target);
+    this.cancel('command');
+    this.startMonitoring();
+  };
+
+  private startMonitoring(): void {
+    this.clearTimers();
+    this.phase = 'monitoring';
+    this.schedule(() => this.handleOpenTooLong(), this.maxOpenDuration);
+  }
+
+  private handleOpenTooLong(): void {
+    debug.watchdog('door open too long');
+    this.emit('openTooLong', this.getEvent());
+
+    if (this.autoClose) {
+      this.startWarning();
+    }
+  }
+
+  private startWarning(): void {
+    this.phase = 'warning';
+
+    const quietTime = this.getQuietTimeRemaining(new Date());
+    if (quietTime > 0) {
+      debug.watchdog('quiet hours, postponing auto-close by %dms', quietTime);
+      this.schedule(() => this.startWarning(), quietTime);
+      return;
+    }
+
+    const initial = this.device.getLightState() ?? false;
+    for (let i = 0; i < this.warningFlashes; i++) {
+      this.schedule(() => this.setLight(!initial), 2 * i * this.flashInterval);
+      this.schedule(() => this.setLight(initial), (2 * i + 1) * this.flashInterval);
+    }
+
+    this.schedule(() => this.closeDoor(), this.gracePeriod);
+  }
+
+  private closeDoor(): void {
+    this.clearTimers();
+    this.phase = 'closing';
+    const event = this.getEvent();
+    this.emit('autoCloseAttempted', event);
+
+    // Connection errors are rejections as well, so they reach autoCloseFailed
+    this.device.closeAndWait({ source: COMMAND_SOURCE }).then(
+      () => {
+        // The CLOSED status has already reset the watchdog
+      },
+      (error: unknown) => {
+        if (!this.running) return;
+
+        this.emit('autoCloseFailed', event, toMaveoError(error, 'DOOR_TIMEOUT', 'Auto-close failed'));
+        // Try again after another maxOpenDuration if the door is still open
+        if (this.lastStatus && !this.lastStatus.isClosed) {
+          this.startMonitoring();
+        } else {
+          this.phase = 'idle';
+        }
+      }
+    );
+  }
+
+  private setLight(on: boolean): void {
+    const sent = on
+      ? this.device.lightOn({ source: COMMAND_SOURCE })
+      : this.device.lightOff({ source: COMMAND_SOURCE });
+    // A missed flash is not worth failing the auto-close for
+    sent.catch(error => debug.watchdog('light warning failed: %O', error));
+  }
+
+  private cancel(reason: 'stateChanged' | 'command'): void {
+    if (this.phase === 'warning') {
+      this.emit('autoCloseCancelled', this.getEvent(), reason);
+    }
+    this.clearTimers();
+  }
+
+  private getEvent(): OpenDoorEvent {
+    return {
+      device: this.device.deviceId,
+      openSince: this.openSince ?? new Date(),
+      status: this.lastStatus!
+    };
+  }
+
+  private getQuietTimeRemaining(date: Date): number {
+    const minute = getMinuteOfDay(date);
+    const elapsedInMinute = date.getSeconds() * 1000 + date.getMilliseconds();
+    let remaining = 0;
+
+    for (const window of this.quietHours) {
+      if (!isInTimeWindow(window, minute)) continue;
+
+      const minutesLeft = (window.end - minute + 24 * 60) % (24 * 60);
+      remaining = Math.max(remaining, minutesLeft * 60000 - elapsedInMinute);
+    }
+
+    return remaining;
+  }
+
+  private schedule(callback: () => void, delay: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+}